@@ -0,0 +1,333 @@
+/**
+ * Mock Gemini Live server
+ *
+ * A local stand-in for the BidiGenerateContent WebSocket used by GeminiLiveService.
+ * It accepts the `setup` and `realtime_input` messages the app sends (audio chunks and
+ * `activity_start` / `activity_end` turn signals) and plays back a
+ * scripted scenario of `serverContent` events: model audio chunks, input/output
+ * transcriptions, `turnComplete` and `interrupted`.
+ *
+ * Usage:
+ *   npm run mock:live -- [--scenario basic-exchange] [--port 8765] [--fast]
+ *
+ * Then set Settings → Connection → Host to `localhost:8765` (any API key works).
+ */
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+const SCENARIO_DIR = join(dirname(fileURLToPath(import.meta.url)), 'scenarios');
+
+// Must match OUTPUT_SAMPLE_RATE / INPUT_SAMPLE_RATE in src/utils/audioUtils.ts
+const SAMPLE_RATE = 24000;
+const AUDIO_CHUNK_MS = 100;
+
+/**
+ * Parses `--name value` and `--flag` command line options
+ */
+function parseArgs(argv) {
+  const options = { port: 8765, scenario: 'basic-exchange', fast: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--fast') options.fast = true;
+    else if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--scenario') options.scenario = argv[++i];
+    else if (arg === '--list') options.list = true;
+  }
+  return options;
+}
+
+function listScenarios() {
+  return readdirSync(SCENARIO_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.replace(/\.json$/, ''));
+}
+
+/**
+ * Loads a scenario by name, or from a path ending in .json
+ */
+function loadScenario(nameOrPath) {
+  const path = nameOrPath.endsWith('.json') ? nameOrPath : join(SCENARIO_DIR, `${nameOrPath}.json`);
+  const scenario = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(scenario.steps)) {
+    throw new Error(`Scenario ${path} has no "steps" array`);
+  }
+  return scenario;
+}
+
+/**
+ * Generates base64 PCM16 mono audio: a soft tone standing in for model speech
+ */
+function synthesizeAudioChunk(durationMs, frequency, offsetSamples) {
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const t = (offsetSamples + i) / SAMPLE_RATE;
+    // Slow amplitude wobble so the visualizer has something to show
+    const envelope = 0.25 + 0.15 * Math.sin(2 * Math.PI * 3 * t);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 0x7fff);
+  }
+  return Buffer.from(pcm.buffer).toString('base64');
+}
+
+/**
+ * Splits text into word fragments the way streaming transcription arrives
+ */
+function toFragments(text) {
+  return text.split(/(?<=\s)/).filter((fragment) => fragment.length > 0);
+}
+
+/**
+ * Runs a scenario against one client connection
+ */
+class ScenarioSession {
+  constructor(socket, scenario, options, connectionNumber) {
+    this.socket = socket;
+    this.scenario = scenario;
+    this.options = options;
+    this.connectionNumber = connectionNumber;
+    this.closed = false;
+    this.receivedAudioMs = 0;
+    this.audioWaiters = [];
+    this.turnsEnded = 0;
+    this.turnWaiters = [];
+    this.setupReceived = null;
+    this.setupPromise = new Promise((resolve) => {
+      this.setupReceived = resolve;
+    });
+
+    socket.on('message', (data) => this.handleMessage(data));
+    socket.on('close', () => {
+      this.closed = true;
+      this.log('client closed');
+    });
+  }
+
+  log(...args) {
+    console.log(`[conn ${this.connectionNumber}]`, ...args);
+  }
+
+  send(message) {
+    if (this.closed) return;
+    // The real service sends binary frames; GeminiLiveService reads them with Blob.text()
+    this.socket.send(Buffer.from(JSON.stringify(message)));
+  }
+
+  handleMessage(data) {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.socket.close(1007, 'Invalid JSON payload');
+      return;
+    }
+
+    if (message.setup) {
+      const instruction = message.setup.system_instruction?.parts?.[0]?.text ?? '';
+      this.log(`setup model=${message.setup.model}`);
+      this.log(`system instruction (${instruction.length} chars):\n${instruction}\n`);
+      this.send({ setupComplete: {} });
+      this.setupReceived(message.setup);
+      return;
+    }
+
+    if (message.realtime_input) {
+      if (message.realtime_input.activity_start) {
+        this.log('user activity start');
+      }
+      if (message.realtime_input.activity_end) {
+        this.log(`user activity end (${Math.round(this.receivedAudioMs)}ms of audio so far)`);
+        this.turnsEnded++;
+        this.resolveTurnWaiters();
+      }
+      for (const chunk of message.realtime_input.media_chunks ?? []) {
+        // base64 PCM16 at SAMPLE_RATE: 2 bytes per sample
+        const bytes = Buffer.byteLength(chunk.data ?? '', 'base64');
+        this.receivedAudioMs += (bytes / 2 / SAMPLE_RATE) * 1000;
+      }
+      this.resolveAudioWaiters();
+      return;
+    }
+
+    if (message.client_content) {
+      const text = (message.client_content.turns ?? [])
+        .flatMap((turn) => turn.parts ?? [])
+        .map((part) => part.text ?? '')
+        .join(' ');
+      this.log(`client_content (turn_complete=${Boolean(message.client_content.turn_complete)}): ${text}`);
+      return;
+    }
+
+    this.log('unhandled message', Object.keys(message));
+  }
+
+  resolveAudioWaiters() {
+    this.audioWaiters = this.audioWaiters.filter((waiter) => {
+      if (this.receivedAudioMs >= waiter.targetMs) {
+        waiter.resolve();
+        return false;
+      }
+      return true;
+    });
+  }
+
+  waitForAudio(ms) {
+    const targetMs = this.receivedAudioMs + ms;
+    return new Promise((resolve) => {
+      this.audioWaiters.push({ targetMs, resolve });
+      this.resolveAudioWaiters();
+    });
+  }
+
+  resolveTurnWaiters() {
+    this.turnWaiters = this.turnWaiters.filter((waiter) => {
+      if (this.turnsEnded >= waiter.target) {
+        waiter.resolve();
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Resolves when the client sends the next activity_end
+   */
+  waitForTurnEnd() {
+    const target = this.turnsEnded + 1;
+    return new Promise((resolve) => {
+      this.turnWaiters.push({ target, resolve });
+    });
+  }
+
+  sleep(ms) {
+    return new Promise((resolve) => setTimeout(resolve, this.options.fast ? 0 : ms));
+  }
+
+  async run() {
+    await this.setupPromise;
+
+    const steps =
+      this.connectionNumber > 1 && Array.isArray(this.scenario.reconnectSteps)
+        ? this.scenario.reconnectSteps
+        : this.scenario.steps;
+
+    for (const step of steps) {
+      if (this.closed) return;
+      await this.runStep(step);
+    }
+
+    this.log('scenario finished');
+  }
+
+  async runStep(step) {
+    if (step.delay !== undefined) {
+      await this.sleep(step.delay);
+    } else if (step.waitForAudio !== undefined) {
+      this.log(`waiting for ${step.waitForAudio}ms of user audio`);
+      await this.waitForAudio(step.waitForAudio);
+    } else if (step.waitForTurnEnd !== undefined) {
+      this.log('waiting for the user to end their turn');
+      await this.waitForTurnEnd();
+    } else if (step.user !== undefined) {
+      await this.streamUserTranscription(step.user);
+    } else if (step.model !== undefined) {
+      await this.streamModelTurn(step);
+    } else if (step.close !== undefined) {
+      this.log(`closing with ${step.close}`);
+      this.socket.close(step.close, step.reason ?? '');
+      this.closed = true;
+    } else {
+      this.log('unknown step', step);
+    }
+  }
+
+  async streamUserTranscription(text) {
+    for (const fragment of toFragments(text)) {
+      if (this.closed) return;
+      this.send({ serverContent: { inputTranscription: { text: fragment } } });
+      await this.sleep(120);
+    }
+  }
+
+  /**
+   * Streams a model turn as interleaved audio and transcription chunks.
+   * `interruptAfter` cuts the turn short after that many words and sends `interrupted`
+   */
+  async streamModelTurn(step) {
+    const fragments = toFragments(step.model);
+    const totalMs = step.audioMs ?? fragments.length * 300;
+    const chunkCount = Math.max(1, Math.ceil(totalMs / AUDIO_CHUNK_MS));
+    const frequency = step.frequency ?? 220;
+    const stopAt = step.interruptAfter ?? fragments.length;
+    let sentFragments = 0;
+
+    for (let chunk = 0; chunk < chunkCount; chunk++) {
+      if (this.closed) return;
+
+      this.send({
+        serverContent: {
+          modelTurn: {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: `audio/pcm;rate=${SAMPLE_RATE}`,
+                  data: synthesizeAudioChunk(AUDIO_CHUNK_MS, frequency, (chunk * SAMPLE_RATE * AUDIO_CHUNK_MS) / 1000),
+                },
+              },
+            ],
+          },
+        },
+      });
+
+      // Spread the transcript evenly over the audio
+      const dueFragments = Math.min(stopAt, Math.ceil(((chunk + 1) / chunkCount) * fragments.length));
+      while (sentFragments < dueFragments) {
+        this.send({ serverContent: { outputTranscription: { text: fragments[sentFragments] } } });
+        sentFragments++;
+      }
+
+      if (sentFragments >= stopAt && stopAt < fragments.length) {
+        this.log('model turn interrupted');
+        this.send({ serverContent: { interrupted: true } });
+        return;
+      }
+
+      await this.sleep(AUDIO_CHUNK_MS);
+    }
+
+    this.send({ serverContent: { turnComplete: true } });
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.list) {
+    console.log(listScenarios().join('\n'));
+    return;
+  }
+
+  const scenario = loadScenario(options.scenario);
+  const server = new WebSocketServer({ port: options.port });
+  let connections = 0;
+
+  server.on('connection', (socket, request) => {
+    connections++;
+    const session = new ScenarioSession(socket, scenario, options, connections);
+    session.log(`connected ${request.url?.replace(/key=[^&]*/, 'key=***')}`);
+    session.run().catch((error) => {
+      session.log('scenario failed', error);
+      socket.close(1011, 'Scenario failed');
+    });
+  });
+
+  server.on('listening', () => {
+    console.log(`Mock Gemini Live server on ws://localhost:${options.port}`);
+    console.log(`Scenario: ${scenario.name ?? options.scenario}${options.fast ? ' (fast)' : ''}`);
+    if (scenario.description) console.log(scenario.description);
+  });
+}
+
+main();
@@ -1,38 +1,77 @@
+/**
+ * Microphone capture worklet
+ *
+ * Runs on the audio rendering thread. Resamples the input to the Live API rate,
+ * converts it to Int16 PCM and batches it into fixed-length chunks, so the main
+ * thread only receives one ready-to-encode buffer per chunk instead of raw frames.
+ *
+ * processorOptions:
+ *   targetSampleRate - output rate in Hz (INPUT_SAMPLE_RATE in src/utils/audioUtils.ts)
+ *   chunkMs          - length of each posted chunk in milliseconds
+ *
+ * Messages posted to the main thread:
+ *   { pcm: ArrayBuffer (Int16 mono at targetSampleRate), level: RMS of the chunk 0-1 }
+ */
 class AudioProcessor extends AudioWorkletProcessor {
-  constructor() {
+  constructor(options) {
     super();
-    this.bufferSize = 4096;
-    this.buffer = new Float32Array(this.bufferSize);
-    this.bytesWritten = 0;
+    const { targetSampleRate = 24000, chunkMs = 100 } = options?.processorOptions ?? {};
+
+    // `sampleRate` is the AudioWorkletGlobalScope rate of the capturing context
+    this.targetSampleRate = targetSampleRate;
+    this.step = sampleRate / targetSampleRate;
+    // Fractional read position into the current input block, carried across blocks
+    this.position = -1;
+    this.lastSample = 0;
+
+    this.chunkSamples = Math.max(1, Math.round((targetSampleRate * chunkMs) / 1000));
+    this.buffer = new Int16Array(this.chunkSamples);
+    this.written = 0;
+    this.sumSquares = 0;
   }
 
-  process(inputs, outputs, parameters) {
+  process(inputs) {
     const input = inputs[0];
     if (!input || !input.length) return true;
 
     const channel0 = input[0];
-    
-    // Fill buffer
-    for (let i = 0; i < channel0.length; i++) {
-      this.buffer[this.bytesWritten++] = channel0[i];
-
-      // When buffer is full, flush it
-      if (this.bytesWritten >= this.bufferSize) {
-        this.flush();
-      }
+    if (!channel0 || channel0.length === 0) return true;
+
+    // Linear interpolation resampler. Positions run from -1 (the last sample of the
+    // previous block) so interpolation is continuous across block boundaries;
+    // with equal rates it reduces to a plain copy
+    while (this.position < channel0.length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const from = index < 0 ? this.lastSample : channel0[index];
+      const to = channel0[index + 1];
+      this.push(from + (to - from) * fraction);
+      this.position += this.step;
     }
 
+    this.position -= channel0.length;
+    this.lastSample = channel0[channel0.length - 1];
     return true;
   }
 
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.buffer[this.written++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    this.sumSquares += clamped * clamped;
+
+    if (this.written >= this.chunkSamples) {
+      this.flush();
+    }
+  }
+
   flush() {
-    // Send copy of buffer to main thread
-    this.port.postMessage({
-      audioData: this.buffer.slice(0, this.bytesWritten)
-    });
-    
-    // Reset buffer
-    this.bytesWritten = 0;
+    // Transfer the full buffer instead of copying it, then start a fresh one
+    const level = Math.sqrt(this.sumSquares / this.written);
+    this.port.postMessage({ pcm: this.buffer.buffer, level }, [this.buffer.buffer]);
+
+    this.buffer = new Int16Array(this.chunkSamples);
+    this.written = 0;
+    this.sumSquares = 0;
   }
 }
 
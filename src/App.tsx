@@ -1,11 +1,30 @@
 import { useState, lazy, Suspense } from 'react';
-import { AppView, DebateStyle, DebateAnalysis } from './types';
+import {
+  AppView,
+  DebateFormat,
+  type DebateAnalysis,
+  type ChatMessage,
+  type DebateInput,
+  type DebateSetup,
+  type DebateSide,
+  type RecordedAudio,
+  type SessionDetails,
+  type SessionHistoryItem,
+} from './types';
 import Dashboard from './components/Dashboard';
 import DebateLive from './components/DebateLive';
 import SessionSummary from './components/SessionSummary';
 import Settings from './components/Settings';
 import Activity from './components/Activity';
-import { saveSession } from './services/storageService';
+import {
+  saveSession,
+  getSessionAnalysis,
+  completeSessionAnalysis,
+  markSessionAnalysis,
+} from './services/storageService';
+import { resolveApiKey } from './services/settingsService';
+import { DEFAULT_RUBRIC_ID } from './utils/rubrics';
+import { DEFAULT_OPPONENT_ID } from './utils/opponents';
 
 // Lazy load PersonaShowcase for better performance
 const PersonaShowcase = lazy(() => import('./components/PersonaShowcase'));
@@ -14,10 +33,18 @@ function App() {
   // Global state management
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
   const [currentTopic, setCurrentTopic] = useState<string>('');
-  const [currentStyle, setCurrentStyle] = useState<DebateStyle>(DebateStyle.COACH);
+  const [currentOpponentId, setCurrentOpponentId] = useState<string>(DEFAULT_OPPONENT_ID);
   const [currentDuration, setCurrentDuration] = useState<number>(5);
-  const [sessionStartTime, setSessionStartTime] = useState<number>(0);
+  const [currentFormat, setCurrentFormat] = useState<DebateFormat>(DebateFormat.FREE_FORM);
+  const [currentSide, setCurrentSide] = useState<DebateSide>('pro');
+  const [currentMotion, setCurrentMotion] = useState<string>('');
+  const [currentRubricId, setCurrentRubricId] = useState<string>(DEFAULT_RUBRIC_ID);
+  const [currentInput, setCurrentInput] = useState<DebateInput>('voice');
+  const [currentAiVoice, setCurrentAiVoice] = useState<boolean>(false);
   const [lastAnalysis, setLastAnalysis] = useState<DebateAnalysis | null>(null);
+  const [viewedSession, setViewedSession] = useState<SessionHistoryItem | null>(null);
+  const [savedSession, setSavedSession] = useState<SessionHistoryItem | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [profileImage, setProfileImage] = useState<string>(
     localStorage.getItem('debate_master_profile_image') || ''
   );
@@ -26,36 +53,90 @@ function App() {
   );
   const [isEditingName, setIsEditingName] = useState<boolean>(false);
 
-  // API key validation - check localStorage first, then env
-  const storedApiKey = localStorage.getItem('debate_master_api_key') || '';
-  const envApiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
-  const apiKey = storedApiKey || envApiKey;
-  const apiKeyMissing = !apiKey || apiKey === 'your_api_key_here';
+  // API key validation - check saved settings first, then env
+  const apiKeyMissing = !resolveApiKey();
 
   /**
    * Transition to Live Arena view
    * Requirement 12.1: Navigate to Live Arena when user starts debate
    */
-  const startDebate = (topic: string, style: DebateStyle, duration: number) => {
-    setCurrentTopic(topic);
-    setCurrentStyle(style);
-    setCurrentDuration(duration);
-    setSessionStartTime(Date.now());
+  const startDebate = (setup: DebateSetup) => {
+    setCurrentTopic(setup.topic);
+    setCurrentOpponentId(setup.opponentId);
+    setCurrentDuration(setup.durationMinutes);
+    setCurrentFormat(setup.format);
+    setCurrentSide(setup.side);
+    setCurrentMotion(setup.motion);
+    setCurrentRubricId(setup.rubricId);
+    setCurrentInput(setup.input);
+    setCurrentAiVoice(setup.aiVoice);
+    setSavedSession(null);
     setCurrentView(AppView.DEBATE_LIVE);
   };
 
+  /**
+   * Save the finished debate with its analysis still pending
+   */
+  const handleSessionEnd = async (
+    messages: ChatMessage[],
+    durationSeconds: number,
+    details: SessionDetails,
+    recording: RecordedAudio | null
+  ): Promise<SessionHistoryItem | null> => {
+    try {
+      const { newItem } = await saveSession(currentTopic, durationSeconds, undefined, messages, details, recording);
+      setSavedSession(newItem);
+      setStorageError(null);
+      return newItem;
+    } catch (error) {
+      console.error('Error saving session:', error);
+      setStorageError('This session could not be saved to your history. Your browser storage may be full.');
+      return null;
+    }
+  };
+
   /**
    * Store analysis and show Summary view
    * Requirement 12.2: Navigate to Summary after analysis completes
    */
-  const handleAnalysisComplete = (analysis: DebateAnalysis) => {
-    // Calculate actual session duration
-    const durationSeconds = Math.floor((Date.now() - sessionStartTime) / 1000);
-    
-    // Save session with analysis data
-    saveSession(currentTopic, durationSeconds, analysis);
-    
+  const handleAnalysisComplete = async (analysis: DebateAnalysis, session: SessionHistoryItem | null) => {
+    if (session) {
+      try {
+        const updated = await completeSessionAnalysis(session.id, analysis);
+        if (updated) setSavedSession(updated);
+      } catch (error) {
+        console.error('Error saving analysis:', error);
+        setStorageError('The analysis could not be saved to your history. Your browser storage may be full.');
+      }
+    }
+
     setLastAnalysis(analysis);
+    setViewedSession(null);
+    setCurrentView(AppView.SUMMARY);
+  };
+
+  /**
+   * Keep the session, marked so its analysis can be re-run from Activity
+   */
+  const handleAnalysisFailed = async (error: Error, session: SessionHistoryItem | null) => {
+    if (!session) return;
+
+    try {
+      await markSessionAnalysis(session.id, 'failed', error.message);
+    } catch (storageFailure) {
+      console.error('Error marking analysis as failed:', storageFailure);
+    }
+  };
+
+  /**
+   * Reopen the Summary view for a past session from Activity
+   */
+  const openSessionSummary = (session: SessionHistoryItem) => {
+    const analysis = getSessionAnalysis(session);
+    if (!analysis) return;
+
+    setLastAnalysis(analysis);
+    setViewedSession(session);
     setCurrentView(AppView.SUMMARY);
   };
 
@@ -67,6 +148,7 @@ function App() {
     setCurrentView(AppView.DASHBOARD);
     setCurrentTopic('');
     setLastAnalysis(null);
+    setViewedSession(null);
   };
 
   /**
@@ -82,6 +164,8 @@ function App() {
    */
   const goToActivity = () => {
     setCurrentView(AppView.ACTIVITY);
+    setLastAnalysis(null);
+    setViewedSession(null);
   };
 
   /**
@@ -536,6 +620,20 @@ function App() {
 
         {/* View Content */}
         <main className={`flex-1 overflow-auto ${currentView === AppView.DEBATE_LIVE ? 'h-screen' : ''}`}>
+          {/* Storage error banner - shown instead of silently dropping a session */}
+          {storageError && currentView !== AppView.DEBATE_LIVE && (
+            <div className="mx-4 md:mx-8 mt-4 px-6 py-4 bg-red-500/10 border border-red-500/20 rounded-2xl flex items-start justify-between gap-4">
+              <p className="text-red-300 text-sm">{storageError}</p>
+              <button
+                onClick={() => setStorageError(null)}
+                className="text-red-400 hover:text-red-300 transition text-sm"
+                aria-label="Dismiss storage error"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+
           {currentView === AppView.DASHBOARD && (
             <div className="animate-fadeIn">
               <Dashboard onStartDebate={startDebate} onNavigateToPersona={goToPersona} />
@@ -546,9 +644,17 @@ function App() {
             <div className="animate-fadeIn">
               <DebateLive
                 topic={currentTopic}
-                style={currentStyle}
+                opponentId={currentOpponentId}
                 durationMinutes={currentDuration}
+                format={currentFormat}
+                side={currentSide}
+                motion={currentMotion}
+                rubricId={currentRubricId}
+                input={currentInput}
+                aiVoice={currentAiVoice}
+                onSessionEnd={handleSessionEnd}
                 onAnalysisComplete={handleAnalysisComplete}
+                onAnalysisFailed={handleAnalysisFailed}
                 onBack={goBackToDashboard}
               />
             </div>
@@ -558,7 +664,10 @@ function App() {
             <div className="animate-fadeIn">
               <SessionSummary
                 analysis={lastAnalysis}
-                onBack={goBackToDashboard}
+                session={viewedSession ?? undefined}
+                savedSession={viewedSession ?? savedSession ?? undefined}
+                onBack={viewedSession ? goToActivity : goBackToDashboard}
+                backLabel={viewedSession ? 'Back to Activity' : undefined}
               />
             </div>
           )}
@@ -571,7 +680,7 @@ function App() {
 
           {currentView === AppView.ACTIVITY && (
             <div className="animate-fadeIn">
-              <Activity onBack={goBackToDashboard} />
+              <Activity onBack={goBackToDashboard} onOpenSession={openSessionSummary} />
             </div>
           )}
 
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { SessionHistoryItem } from '../types';
+import type { SessionHistoryItem } from '../types';
 import { getHistory } from '../services/storageService';
 import StatCard from './StatCard';
 import ChartsSection from './ChartsSection';
@@ -7,12 +7,20 @@ import ActivityHeatMap from './ActivityHeatMap';
 import SessionHistoryList from './SessionHistoryList';
 import TopPerformersSection from './TopPerformersSection';
 import ConfidenceTrendChart from './ConfidenceTrendChart';
+import SideBreakdownSection from './SideBreakdownSection';
+import OpponentBreakdownSection from './OpponentBreakdownSection';
+import FallacyTrendsSection from './FallacyTrendsSection';
+import SpeechMetricsChart from './SpeechMetricsChart';
 import {
   calculateTotalSessions,
   calculateTotalPracticeTime,
   calculateAverageScore,
+  calculateUnscoredSessions,
   calculateCurrentStreak,
   getTopPerformers,
+  calculateSideBreakdown,
+  calculateOpponentBreakdown,
+  calculateFallacyStats,
 } from '../utils/statisticsUtils';
 
 /**
@@ -23,18 +31,24 @@ import {
 
 interface ActivityProps {
   onBack: () => void;
+  onOpenSession?: (session: SessionHistoryItem) => void;
 }
 
 type TimeFilter = '7d' | '30d' | '90d' | 'all';
 
-function Activity({ onBack }: ActivityProps) {
+function Activity({ onBack, onOpenSession }: ActivityProps) {
   const [sessions, setSessions] = useState<SessionHistoryItem[]>([]);
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
 
   // Load session history on mount - Requirement 1.2
   useEffect(() => {
-    const history = getHistory();
-    setSessions(history);
+    let cancelled = false;
+    void getHistory().then((history) => {
+      if (!cancelled) setSessions(history);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   // Compute filtered sessions based on time filter - Requirement 4.2
@@ -72,6 +86,7 @@ function Activity({ onBack }: ActivityProps) {
       totalSessions: calculateTotalSessions(filteredSessions),
       totalMinutes: calculateTotalPracticeTime(filteredSessions),
       averageScore: calculateAverageScore(filteredSessions),
+      unscoredSessions: calculateUnscoredSessions(filteredSessions),
       currentStreak: calculateCurrentStreak(filteredSessions),
     };
   }, [filteredSessions]);
@@ -81,6 +96,21 @@ function Activity({ onBack }: ActivityProps) {
     return getTopPerformers(filteredSessions);
   }, [filteredSessions]);
 
+  // Pro vs Con comparison
+  const sideBreakdown = useMemo(() => {
+    return calculateSideBreakdown(filteredSessions);
+  }, [filteredSessions]);
+
+  // Comparison across AI opponent personas
+  const opponentBreakdown = useMemo(() => {
+    return calculateOpponentBreakdown(filteredSessions);
+  }, [filteredSessions]);
+
+  // Fallacies tagged in the user's turns
+  const fallacyStats = useMemo(() => {
+    return calculateFallacyStats(filteredSessions);
+  }, [filteredSessions]);
+
   // Check if there are no sessions (empty state) - Requirement 1.3
   const isEmpty = sessions.length === 0;
   
@@ -257,7 +287,12 @@ function Activity({ onBack }: ActivityProps) {
                   <div className="animate-slideUp" style={{ animationDelay: '0.3s', animationFillMode: 'both' }}>
                     <StatCard
                       title="Average Score"
-                      value={statistics.averageScore}
+                      value={statistics.averageScore ?? '—'}
+                      subtitle={
+                        statistics.unscoredSessions > 0
+                          ? `${statistics.unscoredSessions} unanalyzed ${statistics.unscoredSessions === 1 ? 'session' : 'sessions'} not counted`
+                          : undefined
+                      }
                       icon={
                         <svg
                           className="w-6 h-6"
@@ -311,6 +346,14 @@ function Activity({ onBack }: ActivityProps) {
                 {/* Charts Section - Requirements 2.1, 2.3 */}
                 <ChartsSection sessions={filteredSessions} />
 
+                {/* Delivery Trend - locally measured speech metrics */}
+                {filteredSessions.some((session) => session.speechMetrics) && (
+                  <div className="bg-card border border-white/5 rounded-[2rem] p-4 md:p-6 animate-slideUp hover:border-white/10 transition-all duration-300" style={{ animationDelay: '0.55s', animationFillMode: 'both' }}>
+                    <h3 className="text-lg md:text-xl font-bold text-white mb-3 md:mb-4">Delivery Trend</h3>
+                    <SpeechMetricsChart sessions={filteredSessions} />
+                  </div>
+                )}
+
                 {/* Confidence Trend Chart */}
                 <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.6s', animationFillMode: 'both' }}>
                   <ConfidenceTrendChart sessions={filteredSessions} />
@@ -326,9 +369,36 @@ function Activity({ onBack }: ActivityProps) {
                   <TopPerformersSection sessions={topPerformers} />
                 </div>
 
+                {/* Performance by Side */}
+                {sideBreakdown.some((entry) => entry.sessions > 0) && (
+                  <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.85s', animationFillMode: 'both' }}>
+                    <SideBreakdownSection breakdown={sideBreakdown} />
+                  </div>
+                )}
+
+                {/* Performance by Opponent */}
+                {opponentBreakdown.length > 0 && (
+                  <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.86s', animationFillMode: 'both' }}>
+                    <OpponentBreakdownSection breakdown={opponentBreakdown} />
+                  </div>
+                )}
+
+                {/* Recurring Fallacies */}
+                {fallacyStats.analyzedSessions > 0 && (
+                  <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.875s', animationFillMode: 'both' }}>
+                    <FallacyTrendsSection stats={fallacyStats} />
+                  </div>
+                )}
+
                 {/* Session History List - Requirements 6.1, 6.2, 6.3, 6.4, 6.5 */}
                 <div className="mt-6 md:mt-8 animate-slideUp" style={{ animationDelay: '0.9s', animationFillMode: 'both' }}>
-                  <SessionHistoryList sessions={filteredSessions} />
+                  <SessionHistoryList
+                    sessions={filteredSessions}
+                    onOpenSession={onOpenSession}
+                    onSessionUpdated={(updated) =>
+                      setSessions((current) => current.map((s) => (s.id === updated.id ? updated : s)))
+                    }
+                  />
                 </div>
               </>
             )}
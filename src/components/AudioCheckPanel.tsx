@@ -0,0 +1,220 @@
+/**
+ * AudioCheckPanel Component
+ *
+ * Pre-session audio check shown before a voice debate connects: pick the microphone and
+ * speaker, watch the input meter, play a test tone, and get warned about clipping or
+ * near-silence. The picks are remembered for the next debate.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Mic, Volume2 } from 'lucide-react';
+import type { AudioDevices } from '../types';
+import type { AudioDebateProvider } from '../services/debateProvider';
+import {
+  type AudioDeviceList,
+  listAudioDevices,
+  loadAudioDevices,
+  saveAudioDevices,
+  supportsOutputSelection,
+} from '../services/audioDeviceService';
+import { AudioLevelMonitor, type AudioCheckReading } from '../utils/audioCheck';
+
+interface AudioCheckPanelProps {
+  provider: AudioDebateProvider | null;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const EMPTY_READING: AudioCheckReading = { level: 0, clipping: false, silent: false };
+
+/**
+ * Explains why the microphone couldn't be opened
+ */
+function describeMicrophoneError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'NotAllowedError') {
+    return 'Microphone permission was denied. Allow it in your browser, or go back and choose a typed debate.';
+  }
+  if (error instanceof DOMException && error.name === 'NotReadableError') {
+    return 'The microphone is in use by another app. Close it and pick the microphone again.';
+  }
+  return error instanceof Error ? error.message : 'The microphone could not be opened.';
+}
+
+export default function AudioCheckPanel({ provider, onStart, onCancel }: AudioCheckPanelProps) {
+  const [devices, setDevices] = useState<AudioDevices>(loadAudioDevices);
+  const [available, setAvailable] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [isPreparing, setIsPreparing] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [reading, setReading] = useState<AudioCheckReading>(EMPTY_READING);
+  const monitorRef = useRef(new AudioLevelMonitor());
+  const canPickOutput = supportsOutputSelection();
+
+  // (Re)open the chosen devices; labels are only listed once the microphone is allowed
+  useEffect(() => {
+    if (!provider) return;
+    let cancelled = false;
+    setIsPreparing(true);
+    setError(null);
+
+    provider
+      .prepareAudio(devices)
+      .then(listAudioDevices)
+      .then(list => {
+        if (cancelled) return;
+        setAvailable(list);
+        monitorRef.current.reset();
+      })
+      .catch(e => {
+        if (!cancelled) setError(describeMicrophoneError(e));
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, devices, attempt]);
+
+  // Input meter, read from the provider's input analyser every frame
+  useEffect(() => {
+    if (!provider || isPreparing || error) return;
+    const analyser = provider.getInputAnalyser();
+    if (!analyser) return;
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      setReading(monitorRef.current.update(samples));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [provider, isPreparing, error]);
+
+  // Remembered devices that are no longer plugged in show as the default
+  const selectedInput = available.inputs.some(d => d.deviceId === devices.inputDeviceId) ? devices.inputDeviceId : '';
+  const selectedOutput = available.outputs.some(d => d.deviceId === devices.outputDeviceId) ? devices.outputDeviceId : '';
+
+  const handleStart = () => {
+    saveAudioDevices(devices);
+    onStart();
+  };
+
+  return (
+    <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-40 w-full max-w-md px-4">
+      <div className="p-6 bg-slate-900/80 backdrop-blur-md border border-slate-700/50 rounded-2xl space-y-4">
+        <div>
+          <h2 className="text-white font-semibold">Audio check</h2>
+          <p className="text-slate-400 text-xs mt-1">Say a few words to test your microphone. The clock starts when you begin.</p>
+        </div>
+
+        {/* Microphone and input meter */}
+        <div>
+          <label htmlFor="audio-check-input" className="flex items-center gap-1.5 text-slate-400 text-xs font-medium mb-1">
+            <Mic className="w-3.5 h-3.5" />
+            Microphone
+          </label>
+          <select
+            id="audio-check-input"
+            value={selectedInput}
+            onChange={(e) => setDevices({ ...devices, inputDeviceId: e.target.value || undefined })}
+            disabled={isPreparing}
+            className="w-full bg-void/50 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-400 transition disabled:opacity-50"
+          >
+            <option value="">System default</option>
+            {available.inputs
+              .filter(d => d.deviceId && d.deviceId !== 'default')
+              .map((d, index) => (
+                <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${index + 1}`}</option>
+              ))}
+          </select>
+          <div
+            className="mt-2 h-2 bg-void rounded-full border border-white/5 overflow-hidden"
+            role="meter"
+            aria-label="Microphone level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(reading.level * 100)}
+          >
+            <div
+              className={`h-full rounded-full transition-[width] duration-75 ${reading.clipping ? 'bg-red-400' : 'bg-lime-400'}`}
+              style={{ width: `${reading.level * 100}%` }}
+            />
+          </div>
+          {!error && reading.clipping && (
+            <p className="flex items-start gap-1.5 text-red-400 text-xs mt-2">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+              Your microphone is clipping - move back a little or turn its input level down.
+            </p>
+          )}
+          {!error && !reading.clipping && reading.silent && (
+            <p className="flex items-start gap-1.5 text-amber-400 text-xs mt-2">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+              We can't hear anything - check the microphone isn't muted and the right one is picked.
+            </p>
+          )}
+        </div>
+
+        {/* Speaker and test tone */}
+        <div>
+          <label htmlFor="audio-check-output" className="flex items-center gap-1.5 text-slate-400 text-xs font-medium mb-1">
+            <Volume2 className="w-3.5 h-3.5" />
+            Speaker
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="audio-check-output"
+              value={selectedOutput}
+              onChange={(e) => setDevices({ ...devices, outputDeviceId: e.target.value || undefined })}
+              disabled={isPreparing || !canPickOutput}
+              title={canPickOutput ? undefined : 'This browser always plays through the system speaker'}
+              className="flex-1 min-w-0 bg-void/50 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-400 transition disabled:opacity-50"
+            >
+              <option value="">System default</option>
+              {canPickOutput && available.outputs
+                .filter(d => d.deviceId && d.deviceId !== 'default')
+                .map((d, index) => (
+                  <option key={d.deviceId} value={d.deviceId}>{d.label || `Speaker ${index + 1}`}</option>
+                ))}
+            </select>
+            <button
+              onClick={() => provider?.playTestTone()}
+              disabled={isPreparing || !!error}
+              className="px-3 py-1 bg-void border border-white/10 text-white text-xs font-bold rounded-md hover:border-white/30 transition disabled:opacity-50"
+            >
+              Play test tone
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-start justify-between gap-3 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">
+            <span>{error}</span>
+            <button onClick={() => setAttempt(attempt + 1)} className="font-bold text-red-300 hover:text-white transition flex-shrink-0">
+              Try again
+            </button>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 rounded-lg text-sm font-bold bg-void/50 border border-white/10 text-slate-300 hover:border-slate-500 transition"
+          >
+            Back
+          </button>
+          <button
+            onClick={handleStart}
+            disabled={isPreparing || !!error}
+            className="flex-1 py-2 rounded-lg text-sm font-bold bg-lime-400 text-void hover:bg-lime-500 transition disabled:bg-slate-700 disabled:text-slate-500"
+          >
+            Start debate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,37 @@
  */
 
 import { useState, useEffect } from 'react';
-import { DebateStyle, UserStats, SessionHistoryItem } from '../types';
+import { BookOpen, Keyboard, Mic, Volume2, VolumeX } from 'lucide-react';
+import { DebateFormat, type DebateInput, type DebateSetup, type UserStats, type SessionHistoryItem, type SettingsIssue } from '../types';
 import { getStats, getHistory } from '../services/storageService';
+import { loadSettings, validateSettings } from '../services/settingsService';
+import { getRubrics, loadLastRubricId, saveLastRubricId } from '../services/rubricService';
+import { getOpponents, loadLastOpponentId, saveLastOpponentId } from '../services/opponentService';
+import { addRecentTopic } from '../services/topicService';
+import { DEBATE_FORMATS, getDebateFormat, getFormatDurationSeconds, resolvePhase } from '../utils/debateFormats';
+import { frameMotion, resolveSide, type SideChoice } from '../utils/motionUtils';
+import { calculateAverageScore, isScored } from '../utils/statisticsUtils';
+import TopicLibrary from './TopicLibrary';
+
+const SIDE_CHOICES: { value: SideChoice; label: string }[] = [
+  { value: 'pro', label: 'Pro' },
+  { value: 'con', label: 'Con' },
+  { value: 'random', label: 'Random' },
+];
+
+const INPUT_CHOICES: { value: DebateInput; label: string; icon: typeof Mic }[] = [
+  { value: 'voice', label: 'Voice', icon: Mic },
+  { value: 'text', label: 'Text', icon: Keyboard },
+];
+
+// Typed debates are the only option where the browser can't capture audio at all
+const canUseMicrophone = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
 
 /**
  * Props for Dashboard component
  */
 interface DashboardProps {
-  onStartDebate: (topic: string, style: DebateStyle, duration: number) => void;
+  onStartDebate: (setup: DebateSetup) => void;
   onNavigateToPersona?: () => void;
 }
 
@@ -22,21 +45,64 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
   const [stats, setStats] = useState<UserStats | null>(null);
   const [history, setHistory] = useState<SessionHistoryItem[]>([]);
   const [topic, setTopic] = useState<string>('');
-  const [selectedStyle, setSelectedStyle] = useState<DebateStyle>(DebateStyle.COACH);
+  const [opponents] = useState(getOpponents);
+  const [opponentId, setOpponentId] = useState<string>(loadLastOpponentId);
   const [duration, setDuration] = useState<number>(5);
+  const [format, setFormat] = useState<DebateFormat>(DebateFormat.FREE_FORM);
+  const [sideChoice, setSideChoice] = useState<SideChoice>('pro');
+  const [rubrics] = useState(getRubrics);
+  const [rubricId, setRubricId] = useState<string>(loadLastRubricId);
+  const [settingsIssues, setSettingsIssues] = useState<SettingsIssue[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [input, setInput] = useState<DebateInput>(() => (canUseMicrophone() ? 'voice' : 'text'));
+  const [aiVoice, setAiVoice] = useState(false);
 
-  // Load stats and history on mount
+  // Load stats, history and settings issues on mount
   useEffect(() => {
-    const loadedStats = getStats();
-    const loadedHistory = getHistory();
-    setStats(loadedStats);
-    setHistory(loadedHistory);
+    let cancelled = false;
+    setSettingsIssues(validateSettings(loadSettings()));
+
+    void Promise.all([getStats(), getHistory()]).then(([loadedStats, loadedHistory]) => {
+      if (cancelled) return;
+      setStats(loadedStats);
+      setHistory(loadedHistory);
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  const canStart = topic.trim().length > 0 && settingsIssues.length === 0;
+
+  // Formal formats run on their own phase timers instead of the duration slider
+  const formatDef = getDebateFormat(format);
+  const isFreeForm = formatDef.phases.length === 0;
+  const formatMinutes = Math.ceil(getFormatDurationSeconds(formatDef) / 60);
+  const firstPhase = formatDef.phases[0];
+  const userOpens =
+    sideChoice !== 'random' && firstPhase !== undefined && resolvePhase(firstPhase, sideChoice).speaker === 'user';
+  const motion = frameMotion(topic);
+  const rubric = rubrics.find(r => r.id === rubricId);
+  const opponent = opponents.find(o => o.id === opponentId);
+
   // Handle start debate button click
   const handleStartDebate = () => {
-    if (topic.trim()) {
-      onStartDebate(topic.trim(), selectedStyle, duration);
+    if (canStart) {
+      saveLastRubricId(rubricId);
+      saveLastOpponentId(opponentId);
+      addRecentTopic(topic);
+      onStartDebate({
+        topic: topic.trim(),
+        motion,
+        side: resolveSide(sideChoice),
+        opponentId,
+        format,
+        durationMinutes: isFreeForm ? duration : formatMinutes,
+        rubricId,
+        input,
+        aiVoice: input === 'text' && aiVoice,
+      });
     }
   };
 
@@ -45,24 +111,27 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
     ? Math.round((stats.totalSessions * 0.7) * 100) / 100 // Mock calculation
     : 0;
 
-  // Calculate average scores from recent sessions
-  const recentSessions = history.slice(0, 10);
-  const avgVocabulary = recentSessions.length > 0
-    ? Math.round(recentSessions.reduce((sum, s) => sum + (s.vocabularyScore || 0), 0) / recentSessions.length)
-    : 0;
-  const avgClarity = recentSessions.length > 0
-    ? Math.round(recentSessions.reduce((sum, s) => sum + (s.clarityScore || 0), 0) / recentSessions.length)
-    : 0;
-  const avgPersuasion = recentSessions.length > 0
-    ? Math.round(recentSessions.reduce((sum, s) => sum + (s.persuasionScore || 0), 0) / recentSessions.length)
-    : 0;
+  // Unanalyzed sessions have no scores, so every average below is over the scored ones only
+  const scoredHistory = history.filter(isScored);
+  const unscoredCount = history.length - scoredHistory.length;
+  const averageScore = calculateAverageScore(history);
 
-  // Calculate improvement rate (comparing first half vs second half of sessions)
+  // Calculate average metric scores from recent sessions that have them
+  const recentSessions = scoredHistory.slice(0, 10);
+  const averageMetric = (pick: (session: SessionHistoryItem) => number | undefined) => {
+    const values = recentSessions.map(pick).filter((value): value is number => typeof value === 'number');
+    return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+  };
+  const avgVocabulary = averageMetric(s => s.vocabularyScore);
+  const avgClarity = averageMetric(s => s.clarityScore);
+  const avgPersuasion = averageMetric(s => s.persuasionScore);
+
+  // Calculate improvement rate (comparing first half vs second half of scored sessions)
   const calculateImprovementRate = () => {
-    if (history.length < 4) return 0;
-    const halfPoint = Math.floor(history.length / 2);
-    const recentHalf = history.slice(0, halfPoint);
-    const olderHalf = history.slice(halfPoint);
+    if (scoredHistory.length < 4) return 0;
+    const halfPoint = Math.floor(scoredHistory.length / 2);
+    const recentHalf = scoredHistory.slice(0, halfPoint);
+    const olderHalf = scoredHistory.slice(halfPoint);
     
     const recentAvg = recentHalf.reduce((sum, s) => sum + s.score, 0) / recentHalf.length;
     const olderAvg = olderHalf.reduce((sum, s) => sum + s.score, 0) / olderHalf.length;
@@ -84,13 +153,17 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
               Performance Score
             </div>
             <div className="text-void text-7xl font-black tracking-tighter mb-4">
-              {history.length > 0 
-                ? Math.round(history.reduce((sum, session) => sum + session.score, 0) / history.length)
-                : 0
-              }
+              {averageScore ?? (history.length > 0 ? '—' : 0)}
             </div>
             <div className="space-y-1 text-void/80 text-sm">
-              <div>{stats?.totalSessions || 0} sessions</div>
+              <div>
+                {stats?.totalSessions || 0} sessions
+                {unscoredCount > 0 && (
+                  <span title="Sessions without a finished analysis have no score and aren't averaged in">
+                    {' '}({unscoredCount} not scored)
+                  </span>
+                )}
+              </div>
               <div>{stats?.totalMinutes || 0} minutes</div>
               <div>{winRate}% win rate</div>
             </div>
@@ -102,72 +175,167 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
 
         {/* Row 1, Column 2: Session Start Form */}
         <div className="bg-card border border-white/5 rounded-[2rem] p-6 h-[300px] flex flex-col">
-          <h2 className="text-white text-lg font-bold mb-3">Start New Debate</h2>
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h2 className="text-white text-lg font-bold">Start New Debate</h2>
+            <div className="flex items-center gap-1">
+              {input === 'text' && (
+                <button
+                  onClick={() => setAiVoice(!aiVoice)}
+                  aria-pressed={aiVoice}
+                  className={`p-1 rounded-md transition ${aiVoice ? 'text-lime-400' : 'text-slate-500 hover:text-slate-300'}`}
+                  title={aiVoice ? 'The AI reads its replies aloud' : 'The AI replies in text only'}
+                  aria-label="AI voice"
+                >
+                  {aiVoice ? <Volume2 className="w-3.5 h-3.5" /> : <VolumeX className="w-3.5 h-3.5" />}
+                </button>
+              )}
+              <div className="flex gap-1" role="radiogroup" aria-label="How you debate">
+                {INPUT_CHOICES.map(({ value, label, icon: Icon }) => {
+                  const unavailable = value === 'voice' && !canUseMicrophone();
+                  return (
+                    <button
+                      key={value}
+                      role="radio"
+                      aria-checked={input === value}
+                      onClick={() => setInput(value)}
+                      disabled={unavailable}
+                      title={unavailable ? 'This browser cannot use a microphone' : value === 'voice' ? 'Speak your arguments' : 'Type your arguments - no microphone needed'}
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition disabled:opacity-40 disabled:cursor-not-allowed ${
+                        input === value
+                          ? 'bg-lime-400 text-void'
+                          : 'bg-void/50 border border-white/10 text-slate-400 hover:border-slate-500'
+                      }`}
+                    >
+                      <Icon className="w-3 h-3" />
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
           
-          {/* Topic Input */}
+          {/* Topic Input and Side */}
           <div className="mb-2.5">
-            <label className="text-slate-400 text-xs font-medium mb-1 block">
-              Topic
-            </label>
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <div className="flex items-center gap-2">
+                <label className="text-slate-400 text-xs font-medium">
+                  Topic
+                </label>
+                <button
+                  onClick={() => setIsLibraryOpen(true)}
+                  className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-lime-400 hover:text-lime-300 transition"
+                  title="Browse, search or generate a topic"
+                >
+                  <BookOpen className="w-3 h-3" />
+                  Library
+                </button>
+              </div>
+              <div className="flex gap-1" role="radiogroup" aria-label="Your side">
+                {SIDE_CHOICES.map((choice) => (
+                  <button
+                    key={choice.value}
+                    role="radio"
+                    aria-checked={sideChoice === choice.value}
+                    onClick={() => setSideChoice(choice.value)}
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition ${
+                      sideChoice === choice.value
+                        ? 'bg-lime-400 text-void'
+                        : 'bg-void/50 border border-white/10 text-slate-400 hover:border-slate-500'
+                    }`}
+                  >
+                    {choice.label}
+                  </button>
+                ))}
+              </div>
+            </div>
             <input
               type="text"
               value={topic}
               onChange={(e) => setTopic(e.target.value)}
-              placeholder="Enter debate topic..."
+              placeholder="Enter a topic or pick one from the library..."
+              title={motion ? `Motion: ${motion}` : undefined}
               className="w-full bg-void/50 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-lime-400 transition"
             />
           </div>
 
-          {/* Style Selection */}
+          {/* Opponent and Rubric Selection */}
           <div className="mb-2.5">
-            <label className="text-slate-400 text-xs font-medium mb-1 block">
-              Style
-            </label>
-            <div className="flex gap-2">
-              <button
-                onClick={() => setSelectedStyle(DebateStyle.COACH)}
-                className={`flex-1 py-1.5 px-3 rounded-lg text-xs font-bold transition ${
-                  selectedStyle === DebateStyle.COACH
-                    ? 'bg-indigo-500 text-white'
-                    : 'bg-void/50 border border-white/10 text-slate-400 hover:border-slate-500'
-                }`}
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <label htmlFor="dashboard-opponent" className="text-slate-400 text-xs font-medium">
+                Opponent
+              </label>
+              <select
+                value={rubricId}
+                onChange={(e) => setRubricId(e.target.value)}
+                title={rubric ? `Scored with: ${rubric.description || rubric.name}` : undefined}
+                aria-label="Scoring rubric"
+                className="bg-void/50 border border-white/10 rounded-md px-2 py-0.5 text-xs text-white focus:outline-none focus:border-lime-400 transition"
               >
-                Coach
-              </button>
-              <button
-                onClick={() => setSelectedStyle(DebateStyle.AGGRESSIVE)}
-                className={`flex-1 py-1.5 px-3 rounded-lg text-xs font-bold transition ${
-                  selectedStyle === DebateStyle.AGGRESSIVE
-                    ? 'bg-red-500 text-white'
-                    : 'bg-void/50 border border-white/10 text-slate-400 hover:border-slate-500'
-                }`}
-              >
-                Fierce
-              </button>
+                {rubrics.map((r) => (
+                  <option key={r.id} value={r.id}>{r.name} rubric</option>
+                ))}
+              </select>
             </div>
+            <select
+              id="dashboard-opponent"
+              value={opponentId}
+              onChange={(e) => setOpponentId(e.target.value)}
+              title={opponent?.description || undefined}
+              className="w-full bg-void/50 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-lime-400 transition"
+            >
+              {opponents.map((o) => (
+                <option key={o.id} value={o.id}>{o.name}</option>
+              ))}
+            </select>
           </div>
 
-          {/* Duration Slider */}
+          {/* Format and Duration */}
           <div className="mb-3">
-            <label className="text-slate-400 text-xs font-medium mb-1 block">
-              Duration: <span className="text-white font-mono">{duration} min</span>
-            </label>
-            <input
-              type="range"
-              min="1"
-              max="15"
-              value={duration}
-              onChange={(e) => setDuration(Number(e.target.value))}
-              className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-lime-400"
-            />
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <label className="text-slate-400 text-xs font-medium">
+                Duration: <span className="text-white font-mono">{isFreeForm ? duration : formatMinutes} min</span>
+              </label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as DebateFormat)}
+                title={formatDef.description}
+                className="bg-void/50 border border-white/10 rounded-md px-2 py-0.5 text-xs text-white focus:outline-none focus:border-lime-400 transition"
+              >
+                {DEBATE_FORMATS.map((f) => (
+                  <option key={f.id} value={f.id}>{f.name}</option>
+                ))}
+              </select>
+            </div>
+            {isFreeForm ? (
+              <input
+                type="range"
+                min="1"
+                max="15"
+                value={duration}
+                onChange={(e) => setDuration(Number(e.target.value))}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-lime-400"
+              />
+            ) : (
+              <p className="text-slate-500 text-xs truncate" title={formatDef.description}>
+                {formatDef.phases.length} timed phases · {sideChoice === 'random' ? 'side drawn at start' : userOpens ? 'you speak first' : 'AI speaks first'}
+              </p>
+            )}
           </div>
 
+          {/* Settings problems block the session before it starts */}
+          {settingsIssues.length > 0 && (
+            <p className="text-red-400 text-xs mb-2" title={settingsIssues.map(i => i.message).join('\n')}>
+              {settingsIssues[0]?.message}. Fix it in Settings to start a debate.
+            </p>
+          )}
+
           {/* Start Button */}
           <button
             onClick={handleStartDebate}
-            disabled={!topic.trim()}
+            disabled={!canStart}
             className={`w-full py-2.5 rounded-lg text-sm font-bold transition mt-auto ${
-              topic.trim()
+              canStart
                 ? 'bg-lime-400 text-void hover:bg-lime-500'
                 : 'bg-slate-700 text-slate-500 cursor-not-allowed'
             }`}
@@ -203,9 +371,15 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
                     <div className="text-void font-semibold text-xs line-clamp-2">
                       {session.topic}
                     </div>
-                    <div className="text-lime-600 font-bold text-base ml-2">
-                      {session.score}
-                    </div>
+                    {!isScored(session) ? (
+                      <div className="text-slate-400 font-bold text-base ml-2" title="Not analyzed yet - re-run the analysis from Activity">
+                        —
+                      </div>
+                    ) : (
+                      <div className="text-lime-600 font-bold text-base ml-2">
+                        {session.score}
+                      </div>
+                    )}
                   </div>
                   <div className="flex justify-between text-xs text-slate-500">
                     <span>{Math.floor(session.durationSeconds / 60)} min</span>
@@ -227,7 +401,7 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
               <div className="text-white text-4xl font-bold">
                 {improvementRate > 0 ? '+' : ''}{improvementRate}%
               </div>
-              {history.length >= 4 && (
+              {scoredHistory.length >= 4 && (
                 <div className={`text-xs font-medium px-2 py-1 rounded-full ${
                   improvementRate > 0 
                     ? 'text-emerald-400 bg-emerald-400/10' 
@@ -241,10 +415,10 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
             </div>
             
             {/* Score progression chart */}
-            {history.length > 0 ? (
+            {scoredHistory.length > 0 ? (
               <div className="space-y-2">
                 <div className="flex items-end gap-1 h-24">
-                  {history.slice(0, 5).reverse().map((session, idx) => (
+                  {scoredHistory.slice(0, 5).reverse().map((session, idx) => (
                     <div 
                       key={session.id}
                       className="flex-1 bg-indigo-500 rounded-t-lg transition-all hover:bg-indigo-400 cursor-pointer group relative"
@@ -381,6 +555,17 @@ export default function Dashboard({ onStartDebate, onNavigateToPersona }: Dashbo
         </div>
 
       </div>
+
+      {isLibraryOpen && (
+        <TopicLibrary
+          history={history}
+          onSelect={(selected) => {
+            setTopic(selected);
+            setIsLibraryOpen(false);
+          }}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,205 @@
+/**
+ * DataTransferSection Component
+ *
+ * Settings card for exporting all local data to a file and importing it back.
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Download, Upload } from 'lucide-react';
+import {
+  downloadArchive,
+  exportArchive,
+  importArchive,
+  parseArchive,
+  type DataArchive,
+  type ImportMode,
+  type ImportSummary,
+} from '../services/archiveService';
+
+interface DataTransferSectionProps {
+  /** Called after an import so the parent can reload anything it holds in state (e.g. settings) */
+  onImported?: (summary: ImportSummary) => void;
+}
+
+export default function DataTransferSection({ onImported }: DataTransferSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [pending, setPending] = useState<DataArchive | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importing, setImporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      downloadArchive(await exportArchive({ includeApiKey }));
+    } catch (error) {
+      console.error('Export failed:', error);
+      setErrors(['Export failed. Please try again.']);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setSummary(null);
+    const result = parseArchive(await file.text());
+    setErrors(result.errors);
+    setWarnings(result.warnings);
+    setPending(result.archive);
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+
+    setImporting(true);
+    try {
+      const result = await importArchive(pending, importMode);
+      setSummary(result);
+      setPending(null);
+      setWarnings([]);
+      onImported?.(result);
+    } catch (error) {
+      console.error('Import failed:', error);
+      setErrors(['Import failed. Your existing data may be partially updated.']);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-card border border-white/5 rounded-[2rem] p-8 mb-6">
+      <div className="flex items-start gap-3 mb-6">
+        <div className="w-10 h-10 bg-sky-400/10 border border-sky-400/30 rounded-xl flex items-center justify-center flex-shrink-0">
+          <Download className="w-5 h-5 text-sky-400" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-white text-xl font-bold mb-2">Your Data</h2>
+          <p className="text-slate-400 text-sm">
+            Export your stats, session history, transcripts, persona, settings, saved topics, custom rubrics and
+            opponents to a file, or import a previous export on another browser.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Export */}
+        <div className="p-4 bg-void/30 border border-white/5 rounded-xl space-y-3">
+          <label className="flex items-center gap-2 text-slate-300 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeApiKey}
+              onChange={(e) => setIncludeApiKey(e.target.checked)}
+              className="accent-lime-400"
+            />
+            Include API key
+          </label>
+          {includeApiKey && (
+            <p className="text-amber-400 text-xs">Anyone with the file will be able to use your key.</p>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-void border border-white/10 text-white font-bold rounded-xl hover:border-white/30 transition disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {exporting ? 'Exporting...' : 'Export Data'}
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="p-4 bg-void/30 border border-white/5 rounded-xl space-y-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-void border border-white/10 text-white font-bold rounded-xl hover:border-white/30 transition"
+          >
+            <Upload className="w-4 h-4" />
+            Choose File
+          </button>
+
+          {pending && (
+            <>
+              <p className="text-slate-300 text-sm">
+                {pending.history.length} session(s), {pending.transcripts.length} transcript(s)
+                {pending.exportedAt && ` exported ${new Date(pending.exportedAt).toLocaleDateString()}`}
+              </p>
+              <div className="space-y-1">
+                <p className="text-slate-400 text-xs font-medium">When a session, rubric or opponent already exists here:</p>
+                <label className="flex items-center gap-2 text-slate-300 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={importMode === 'merge'}
+                    onChange={() => setImportMode('merge')}
+                    className="accent-lime-400"
+                  />
+                  Keep mine (merge)
+                </label>
+                <label className="flex items-center gap-2 text-slate-300 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={importMode === 'replace'}
+                    onChange={() => setImportMode('replace')}
+                    className="accent-lime-400"
+                  />
+                  Use the imported one (replace, also imports settings)
+                </label>
+              </div>
+              <button
+                onClick={handleImport}
+                disabled={importing}
+                className="w-full px-4 py-3 bg-lime-400 text-void font-bold rounded-xl hover:bg-lime-500 transition disabled:opacity-50"
+              >
+                {importing ? 'Importing...' : 'Import'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl list-disc list-inside space-y-1">
+          {errors.map((error) => (
+            <li key={error} className="text-red-300 text-sm">{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="mt-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl list-disc list-inside space-y-1">
+          {warnings.map((warning) => (
+            <li key={warning} className="text-amber-300 text-sm">{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {summary && (
+        <p className="mt-4 p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-xl text-emerald-300 text-sm">
+          Imported {summary.added} new session(s)
+          {summary.replaced > 0 && `, replaced ${summary.replaced}`}
+          {summary.skipped > 0 && `, kept ${summary.skipped} existing`}
+          {summary.rubrics > 0 && `, ${summary.rubrics} rubric(s)`}
+          {summary.opponents > 0 && `, ${summary.opponents} opponent(s)`}
+          {summary.topics > 0 && `, ${summary.topics} topic(s)`}
+          {summary.personaImported && ', persona'}
+          {summary.settingsImported && ', settings'}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,29 +3,117 @@
  * 
  * The active debate interface where real-time voice interaction occurs.
  * Manages connection to Gemini Live API, displays transcriptions,
- * shows audio visualization, and handles session timing.
+ * shows audio visualization, and handles session timing. Typed debates
+ * swap the visualizer and captions for a chat view.
  * 
  * Requirements: 3.1, 3.2, 4.1, 5.1, 7.1
  */
 
 import { useState, useRef, useEffect } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { type DebateProvider, hasAudio } from '../services/debateProvider';
 import { GeminiLiveService } from '../services/geminiLiveService';
-import { type ChatMessage, type DebateAnalysis, DebateStyle } from '../types';
+import { loadSettings, resolveApiKey } from '../services/settingsService';
+import { getRubric } from '../services/rubricService';
+import { getOpponent } from '../services/opponentService';
+import { loadAudioDevices } from '../services/audioDeviceService';
+import {
+  type ChatMessage,
+  type DebateAnalysis,
+  type DebateInput,
+  type DebateSide,
+  type InputMode,
+  type PhaseSpeaker,
+  type RecordedAudio,
+  type SessionDetails,
+  type SessionHistoryItem,
+  type SessionPause,
+  type SessionPhaseRecord,
+  DebateFormat,
+} from '../types';
+import { buildPhaseInstruction, getDebateFormat, resolvePhases } from '../utils/debateFormats';
+import { SIDE_LABELS, frameMotion } from '../utils/motionUtils';
+import { computeSpeechMetrics } from '../utils/speechMetrics';
+import { calculatePausedSeconds } from '../utils/statisticsUtils';
+import { MIN_ANALYSIS_WORDS, countUserWords } from '../utils/transcriptUtils';
+import { TranscriptAssembler, joinFragments } from '../utils/transcriptAssembler';
 import VoiceVisualizerSimple from './VoiceVisualizerSimple';
 import TranscriptDisplay from './TranscriptDisplay';
+import TextChatPanel from './TextChatPanel';
+import AudioCheckPanel from './AudioCheckPanel';
 
 // Global singleton to prevent multiple connections across all instances
 let globalConnectionLock = false;
-let globalService: GeminiLiveService | null = null;
+let globalService: DebateProvider | null = null;
+
+const PHASE_SPEAKER_LABELS: Record<PhaseSpeaker, { label: string; color: string }> = {
+  user: { label: 'Your speech', color: 'text-lime-400' },
+  model: { label: 'AI speech', color: 'text-purple-400' },
+  both: { label: 'Open exchange', color: 'text-sky-400' },
+  none: { label: 'Prep time', color: 'text-amber-400' },
+};
+
+// Caption line lengths, cycling from long to short (Lumina-style cascade)
+const CAPTION_LINE_LIMITS = [45, 30, 15];
+
+/**
+ * Wraps a turn's text into caption lines and keeps the latest group of three
+ */
+function wrapCaptionLines(text: string): string[] {
+  const words = text.split(' ');
+  const allLines: string[] = [];
+  let currentLine = "";
+  let currentLineIndex = 0;
+
+  words.forEach(word => {
+    const limitIndex = currentLineIndex % 3;
+    const currentLimit = CAPTION_LINE_LIMITS[limitIndex] ?? 15;
+
+    if ((currentLine + word).length > currentLimit) {
+      allLines.push(currentLine.trim());
+      currentLine = word + " ";
+      currentLineIndex++;
+    } else {
+      currentLine += word + " ";
+    }
+  });
+  if (currentLine.trim()) {
+    allLines.push(currentLine.trim());
+  }
+
+  const totalLines = allLines.length;
+  const currentCycle = Math.floor((totalLines - 1) / 3);
+  const startIndex = currentCycle * 3;
+  return allLines.slice(startIndex, startIndex + 3);
+}
 
 /**
  * Props for DebateLive component
  */
 interface DebateLiveProps {
   topic: string;
-  style: DebateStyle;
+  opponentId?: string;
   durationMinutes: number;
-  onAnalysisComplete: (analysis: DebateAnalysis) => void;
+  format?: DebateFormat;
+  side?: DebateSide;
+  motion?: string;
+  rubricId?: string;
+  /** Whether the user speaks or types their arguments */
+  input?: DebateInput;
+  /** Typed debates only: read the AI's replies aloud */
+  aiVoice?: boolean;
+  /**
+   * Saves the finished debate before it is analyzed; resolves to null if it couldn't be saved.
+   * durationSeconds counts from when the session connected, without paused or reconnecting time
+   */
+  onSessionEnd: (
+    messages: ChatMessage[],
+    durationSeconds: number,
+    details: SessionDetails,
+    recording: RecordedAudio | null
+  ) => Promise<SessionHistoryItem | null>;
+  onAnalysisComplete: (analysis: DebateAnalysis, session: SessionHistoryItem | null) => void;
+  onAnalysisFailed: (error: Error, session: SessionHistoryItem | null) => void;
   onBack: () => void;
 }
 
@@ -37,26 +125,64 @@ interface DebateLiveProps {
  */
 export default function DebateLive({
   topic,
-  style,
+  opponentId,
   durationMinutes,
-  onAnalysisComplete, // Will be used in task 21
+  format = DebateFormat.FREE_FORM,
+  side = 'pro',
+  motion = frameMotion(topic),
+  rubricId,
+  input = 'voice',
+  aiVoice = false,
+  onSessionEnd,
+  onAnalysisComplete,
+  onAnalysisFailed,
   onBack,
 }: DebateLiveProps) {
   // Component state (Requirement 3.1, 3.2, 4.1, 5.1, 7.1)
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('vad');
+  const [isUserSpeaking, setIsUserSpeaking] = useState<boolean>(false);
+  const [talkPressed, setTalkPressed] = useState<boolean>(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  // Voice debates start with the audio check; the session connects once the user is ready
+  const [isCheckingAudio, setIsCheckingAudio] = useState<boolean>(input === 'voice');
+  const [provider, setProvider] = useState<DebateProvider | null>(null);
+  // Paused time stops the clock and is saved with the session so it isn't counted as debating
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const pausesRef = useRef<SessionPause[]>([]);
+  const openPauseRef = useRef<SessionPause | null>(null);
+  // The debate is timed from its first connection, so the audio check isn't counted
+  const connectedAtRef = useRef<number | null>(null);
+  // Time spent reconnecting is left out of the saved duration, like paused time
+  const offlineRef = useRef<SessionPause[]>([]);
+  const openOfflineRef = useRef<SessionPause | null>(null);
+
+  // Formal format phases - free form has none and runs on the single timer
+  const formatDef = getDebateFormat(format);
+  const phases = resolvePhases(formatDef, side);
+  const isFreeForm = phases.length === 0;
+  const [phaseIndex, setPhaseIndex] = useState<number>(0);
+  const [phaseElapsed, setPhaseElapsed] = useState<number>(0);
+  const phaseIndexRef = useRef<number>(0);
+  const phaseElapsedRef = useRef<number>(0);
+  const phaseStartedRef = useRef<boolean>(false);
+  const phaseRecordsRef = useRef<SessionPhaseRecord[]>([]);
+  const currentPhase = phases[phaseIndex];
+  const isTyped = input === 'text';
   
   // Transcript state
   const [transcriptLines, setTranscriptLines] = useState<string[]>([]);
   const [currentSpeaker, setCurrentSpeaker] = useState<'user' | 'model' | null>(null);
-  const fullTranscriptRef = useRef<string>("");
+  const assemblerRef = useRef<TranscriptAssembler>(new TranscriptAssembler());
+  const sessionStartRef = useRef<ChatMessage | null>(null);
 
   // Refs for service and messages array
-  const serviceRef = useRef<GeminiLiveService | null>(null);
+  const serviceRef = useRef<DebateProvider | null>(null);
   const messagesRef = useRef<ChatMessage[]>([]);
   const timerIntervalRef = useRef<number | null>(null);
   const hasConnectedRef = useRef<boolean>(false);
@@ -66,6 +192,122 @@ export default function DebateLive({
     messagesRef.current = messages;
   }, [messages]);
 
+  /**
+   * Publishes the assembled transcript: every turn for analysis, the latest one for the captions
+   */
+  const syncTranscript = () => {
+    const assembler = assemblerRef.current;
+    const sessionStart = sessionStartRef.current;
+    const assembled = assembler.getMessages();
+    setMessages(sessionStart ? [sessionStart, ...assembled] : assembled);
+
+    const lastTurn = assembler.getLastTurn();
+    setCurrentSpeaker(lastTurn?.role ?? null);
+    setTranscriptLines(lastTurn ? wrapCaptionLines(joinFragments(lastTurn.fragments)) : []);
+  };
+
+  useEffect(() => {
+    phaseIndexRef.current = phaseIndex;
+    phaseElapsedRef.current = phaseElapsed;
+  }, [phaseIndex, phaseElapsed]);
+
+  /**
+   * Start a phase: tell the AI its rules and mute the mic during prep time
+   */
+  const startPhase = (index: number) => {
+    const phase = phases[index];
+    const service = serviceRef.current;
+    if (!phase || !service) return;
+
+    setPhaseIndex(index);
+    setPhaseElapsed(0);
+    phaseIndexRef.current = index;
+    phaseElapsedRef.current = 0;
+
+    service.setInputMuted(phase.speaker === 'none');
+    service.sendText(
+      buildPhaseInstruction(formatDef, phase),
+      phase.speaker === 'model' || phase.speaker === 'both'
+    );
+  };
+
+  /**
+   * Record how long the current phase actually ran
+   */
+  const finishPhase = () => {
+    const index = phaseIndexRef.current;
+    const phase = phases[index];
+    // Phases are recorded once each, in order
+    if (!phase || phaseRecordsRef.current.length > index) return;
+
+    phaseRecordsRef.current.push({
+      phaseId: phase.id,
+      name: phase.name,
+      kind: phase.kind,
+      speaker: phase.speaker,
+      plannedSeconds: phase.durationSeconds,
+      actualSeconds: phaseElapsedRef.current,
+    });
+  };
+
+  /**
+   * Move to the next phase, ending the debate after the last one
+   */
+  const advancePhase = () => {
+    finishPhase();
+    const next = phaseIndexRef.current + 1;
+    if (next < phases.length) {
+      startPhase(next);
+    } else {
+      void handleStop();
+    }
+  };
+
+  /**
+   * Pause the debate: the clock stops, and the service stops capture and playback
+   */
+  const pauseDebate = () => {
+    const service = serviceRef.current;
+    if (!service || openPauseRef.current) return;
+
+    service.pause();
+    const now = Date.now();
+    openPauseRef.current = { start: now, end: now };
+    setTalkPressed(false);
+    setIsPaused(true);
+  };
+
+  const resumeDebate = () => {
+    const pause = openPauseRef.current;
+    if (!pause) return;
+
+    pause.end = Date.now();
+    pausesRef.current.push(pause);
+    openPauseRef.current = null;
+    serviceRef.current?.resume();
+    setIsPaused(false);
+  };
+
+  /**
+   * Switches between automatic turn detection and push-to-talk, releasing the talk key
+   */
+  const changeInputMode = (mode: InputMode) => {
+    setInputMode(mode);
+    setTalkPressed(false);
+  };
+
+  /**
+   * Ends the span the session spent reconnecting, if one is open
+   */
+  const closeOfflineSpan = () => {
+    const span = openOfflineRef.current;
+    if (!span) return;
+
+    span.end = Date.now();
+    offlineRef.current.push(span);
+    openOfflineRef.current = null;
+  };
+
   /**
    * Format time in MM:SS format
    * Requirement 7.3: Timer format follows MM:SS pattern
@@ -93,6 +335,44 @@ export default function DebateLive({
     const currentService = serviceRef.current;
     const currentMessages = messagesRef.current;
 
+    if (!isFreeForm && phaseStartedRef.current) {
+      finishPhase();
+    }
+    // Ending while paused closes the pause
+    if (openPauseRef.current) {
+      openPauseRef.current.end = Date.now();
+      pausesRef.current.push(openPauseRef.current);
+      openPauseRef.current = null;
+    }
+    const pauses = [...pausesRef.current];
+    closeOfflineSpan();
+    const connectedAt = connectedAtRef.current;
+    // Time lost to reconnecting counts as stopped, like a pause
+    const stoppedSpans = [...pauses, ...offlineRef.current];
+    const stoppedSeconds = calculatePausedSeconds(stoppedSpans);
+    const durationSeconds = connectedAt === null
+      ? 0
+      : Math.max(0, Math.floor((Date.now() - connectedAt) / 1000) - stoppedSeconds);
+    // Collect the recording and speech activity before disconnecting releases the audio
+    const audio = currentService && hasAudio(currentService) ? currentService : null;
+    const recording = (await audio?.finishRecording()) ?? null;
+    const speechActivity = audio?.getSpeechActivity();
+    const rubric = getRubric(rubricId);
+    const opponent = getOpponent(opponentId);
+    const details: SessionDetails = {
+      format,
+      phases: isFreeForm ? undefined : [...phaseRecordsRef.current],
+      side,
+      motion,
+      // Pace, pauses and fillers only mean something for spoken arguments
+      speechMetrics: speechActivity && !isTyped ? computeSpeechMetrics(currentMessages, speechActivity, stoppedSpans) : undefined,
+      rubricId: rubric.id,
+      input,
+      pauses: pauses.length > 0 ? pauses : undefined,
+      opponentId: opponent.id,
+      opponentName: opponent.name,
+    };
+
     // Disconnect service FIRST (Requirements 8.2, 8.3, 8.4)
     if (currentService) {
       await currentService.disconnect();
@@ -104,31 +384,44 @@ export default function DebateLive({
 
     // Trigger analysis generation AFTER disconnection (Requirement 8.5)
     if (currentService && currentMessages.length > 0) {
-      try {
-        setIsAnalyzing(true);
-        const analysis = await currentService.analyzeDebate(currentMessages, topic);
+      // Check participation before saving (AC2, AC5) - sessions without it aren't kept
+      if (countUserWords(currentMessages) < MIN_ANALYSIS_WORDS) {
+        setErrorMsg(
+          isTyped
+            ? 'No participation detected. You didn\'t send any arguments during this session. Please try again.'
+            : 'No participation detected. We didn\'t hear you speak during this session. Please check your microphone and try again.'
+        );
         
-        // Check if analysis is null (no participation detected) - AC2, AC5
+        // Auto-return to dashboard after 5 seconds
+        setTimeout(() => {
+          onBack();
+        }, 5000);
+        return;
+      }
+
+      setIsAnalyzing(true);
+
+      // Save first, so the debate is kept even if the analysis fails or the app is closed meanwhile
+      const session = await onSessionEnd(currentMessages, durationSeconds, details, recording);
+
+      try {
+        const analysis = await currentService.analyze(currentMessages, topic, { side, rubric, input });
         if (analysis === null) {
-          setIsAnalyzing(false);
-          // Don't save to history (AC5) - just show error and return
-          setErrorMsg('No participation detected. We didn\'t hear you speak during this session. Please check your microphone and try again.');
-          
-          // Auto-return to dashboard after 5 seconds
-          setTimeout(() => {
-            onBack();
-          }, 5000);
-          return;
+          throw new Error('Not enough of your speech in the transcript to analyze');
         }
-        
-        onAnalysisComplete(analysis);
+        onAnalysisComplete(analysis, session);
       } catch (error) {
         console.error('Failed to generate analysis:', error);
         setIsAnalyzing(false);
-        setErrorMsg('Failed to generate analysis. Please try again.');
+        onAnalysisFailed(error instanceof Error ? error : new Error(String(error)), session);
+        setErrorMsg(
+          session
+            ? 'The analysis failed after several attempts. Your debate and transcript are saved - re-run the analysis from Activity.'
+            : 'Failed to generate analysis. Please try again.'
+        );
         setTimeout(() => {
           onBack();
-        }, 3000);
+        }, 5000);
       }
     } else {
       // No messages to analyze, just go back
@@ -136,7 +429,42 @@ export default function DebateLive({
     }
   };
 
-  // Initialize GeminiLiveService and connect on mount (Requirements 3.1, 3.2, 3.3, 11.1, 11.2)
+  /**
+   * Connect to Gemini Live API (Requirement 3.2) - straight away for typed debates,
+   * after the audio check for voice ones
+   */
+  const connectSession = async () => {
+    const service = serviceRef.current;
+    if (!service) return;
+
+    try {
+      await service.connect(topic, getOpponent(opponentId), { format, side, motion, input, aiVoice, devices: loadAudioDevices() });
+
+      // Get output analyser for visualization
+      const analyser = hasAudio(service) ? service.getOutputAnalyser() : null;
+      console.log('📊 Got analyser from service:', analyser);
+      setOutputAnalyser(analyser);
+
+      // Add system message to indicate session start
+      sessionStartRef.current = {
+        id: `system-${Date.now()}`,
+        role: 'system',
+        text: `Debate session started: ${topic}`,
+        timestamp: Date.now(),
+        isFinal: true,
+      };
+      syncTranscript();
+    } catch (error) {
+      console.error('Failed to connect:', error);
+      setErrorMsg(
+        error instanceof Error
+          ? error.message
+          : 'Failed to connect to Gemini Live API'
+      );
+    }
+  };
+
+  // Initialize GeminiLiveService on mount, connecting right away unless the audio check comes first (Requirements 3.1, 3.2, 3.3, 11.1, 11.2)
   useEffect(() => {
     // GLOBAL singleton check - absolutely prevent double connections
     if (globalConnectionLock || globalService) {
@@ -154,102 +482,36 @@ export default function DebateLive({
     globalConnectionLock = true;
     hasConnectedRef.current = true;
 
-    // Get API key from localStorage (Settings) first, then fallback to env
-    const storedApiKey = localStorage.getItem('debate_master_api_key') || '';
-    const envApiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
-    const apiKey = storedApiKey || envApiKey;
+    // Get API key from Settings first, then fallback to env
+    const settings = loadSettings();
+    const apiKey = resolveApiKey(settings);
 
-    if (!apiKey || apiKey === 'your_api_key_here') {
+    if (!apiKey) {
       setErrorMsg('API key not configured. Please go to Settings to add your Gemini API key.');
       return;
     }
 
     // Initialize GeminiLiveService with callbacks
-    const service = new GeminiLiveService(
+    const service: DebateProvider = new GeminiLiveService(
       apiKey,
-      // onTranscript callback - update messages state AND transcript display
+      // onTranscript callback - assemble the deltas into turns, then update messages AND transcript display
       (text: string, isUser: boolean, isFinal: boolean) => {
-        const role = isUser ? 'user' : 'model';
-        
-        // Update messages for analysis
-        setMessages((prevMessages) => {
-          const currentMessages = [...prevMessages];
-
-          const lastMessageIndex = currentMessages.findIndex(
-            (msg, idx) =>
-              msg.role === role &&
-              !msg.isFinal &&
-              idx === currentMessages.length - 1
-          );
-
-          if (lastMessageIndex !== -1 && !isFinal) {
-            const existingMessage = currentMessages[lastMessageIndex];
-            if (existingMessage) {
-              currentMessages[lastMessageIndex] = {
-                ...existingMessage,
-                text,
-                isFinal,
-              };
-            }
-          } else {
-            const newMessage: ChatMessage = {
-              id: `${Date.now()}-${Math.random()}`,
-              role,
-              text,
-              timestamp: Date.now(),
-              isFinal,
-            };
-            currentMessages.push(newMessage);
-          }
-
-          return currentMessages;
-        });
-
-        // Update transcript display (Lumina-style)
-        setCurrentSpeaker(prev => {
-          if (prev !== role) {
-            fullTranscriptRef.current = "";
-            setTranscriptLines([]);
-            return role;
-          }
-          return prev;
-        });
-
-        fullTranscriptRef.current += text;
-
-        // Variable length word wrapping
-        const LINE_LIMITS = [45, 30, 15];
-        const words = fullTranscriptRef.current.split(' ');
-        const allLines: string[] = [];
-        let currentLine = "";
-        let currentLineIndex = 0;
-
-        words.forEach(word => {
-          const limitIndex = currentLineIndex % 3;
-          const currentLimit = LINE_LIMITS[limitIndex] ?? 15;
-
-          if ((currentLine + word).length > currentLimit) {
-            allLines.push(currentLine.trim());
-            currentLine = word + " ";
-            currentLineIndex++;
-          } else {
-            currentLine += word + " ";
-          }
-        });
-        if (currentLine.trim()) {
-          allLines.push(currentLine.trim());
+        const assembler = assemblerRef.current;
+        if (isFinal) {
+          assembler.completeTurn(isUser ? 'user' : 'model');
+        } else {
+          assembler.addFragment(isUser ? 'user' : 'model', text);
         }
-
-        const totalLines = allLines.length;
-        const currentCycle = Math.floor((totalLines - 1) / 3);
-        const startIndex = currentCycle * 3;
-        const visibleLines = allLines.slice(startIndex, startIndex + 3);
-
-        setTranscriptLines(visibleLines);
+        syncTranscript();
       },
       // onStatusChange callback - update connection indicator (Requirement 3.3)
       (isConnected: boolean) => {
         setIsConnected(isConnected);
+        if (isConnected) {
+          connectedAtRef.current ??= Date.now();
+          closeOfflineSpan();
+          setReconnectAttempt(null);
+        }
       },
       // onAudioLevel callback - not used in new UI
       (_level: number) => {
@@ -258,42 +520,43 @@ export default function DebateLive({
       // onError callback - display error messages (Requirement 11.2, 11.3)
       (error: Error) => {
         console.error('Gemini Live Service Error:', error);
+        setReconnectAttempt(null);
         setErrorMsg(error.message);
-      }
+      },
+      settings
     );
 
-    serviceRef.current = service;
-    globalService = service; // Store globally
+    // The AI's cut-off turn is kept as a partial turn
+    service.onInterrupted = () => {
+      assemblerRef.current.interruptTurn();
+      syncTranscript();
+    };
 
-    // Connect to Gemini Live API (Requirement 3.2)
-    const initConnection = async () => {
-      try {
-        await service.connect(topic, style);
-
-        // Get output analyser for visualization
-        const analyser = service.getOutputAnalyser();
-        console.log('📊 Got analyser from service:', analyser);
-        setOutputAnalyser(analyser);
-
-        // Add system message to indicate session start
-        setMessages([{
-          id: `system-${Date.now()}`,
-          role: 'system',
-          text: `Debate session started: ${topic}`,
-          timestamp: Date.now(),
-          isFinal: true,
-        }]);
-      } catch (error) {
-        console.error('Failed to connect:', error);
-        setErrorMsg(
-          error instanceof Error
-            ? error.message
-            : 'Failed to connect to Gemini Live API'
-        );
+    // Dropped connections are retried by the service; the timer pauses meanwhile
+    service.onReconnecting = (attempt: number) => {
+      if (!openOfflineRef.current) {
+        const now = Date.now();
+        openOfflineRef.current = { start: now, end: now };
       }
+      setReconnectAttempt(attempt);
     };
 
-    void initConnection();
+    // Turns are detected locally (VAD or push-to-talk) and shown as a speaking indicator
+    if (hasAudio(service)) {
+      service.onActivityChange = (isSpeaking: boolean) => {
+        setIsUserSpeaking(isSpeaking);
+      };
+    }
+
+    serviceRef.current = service;
+    globalService = service; // Store globally
+    setProvider(service);
+
+    // A provider without live audio has nothing to check; connecting reports that voice is unavailable
+    if (!isCheckingAudio || !hasAudio(service)) {
+      setIsCheckingAudio(false);
+      void connectSession();
+    }
 
     // Cleanup on unmount (Requirement 8.2, 8.3, 8.4)
     return () => {
@@ -324,8 +587,8 @@ export default function DebateLive({
    * Requirements 7.1, 7.2, 7.3, 7.4
    */
   useEffect(() => {
-    // Only start timer when connected
-    if (!isConnected) {
+    // Only start timer when connected - this also pauses it while reconnecting or paused
+    if (!isConnected || isPaused) {
       return;
     }
 
@@ -334,15 +597,16 @@ export default function DebateLive({
       setElapsedSeconds((prev) => {
         const newElapsed = prev + 1;
 
-        // Check if duration reached (Requirement 7.4)
+        // Check if duration reached (Requirement 7.4) - formal formats end with their last phase instead
         const durationSeconds = durationMinutes * 60;
-        if (newElapsed >= durationSeconds) {
+        if (isFreeForm && newElapsed >= durationSeconds) {
           // Auto-stop session
           void handleStop();
         }
 
         return newElapsed;
       });
+      setPhaseElapsed((prev) => prev + 1);
     }, 1000); // Increment every second (Requirement 7.2)
 
     // Clear interval on cleanup
@@ -352,14 +616,100 @@ export default function DebateLive({
         timerIntervalRef.current = null;
       }
     };
-  }, [isConnected, durationMinutes]); // Re-run if connection state or duration changes
+  }, [isConnected, isPaused, durationMinutes, isFreeForm]); // Re-run if connection state, pause or duration changes
+
+  /**
+   * Announce the first phase once connected, and re-announce the current one after a reconnect
+   */
+  useEffect(() => {
+    if (!isConnected || isFreeForm) return;
+
+    if (!phaseStartedRef.current) {
+      phaseStartedRef.current = true;
+      startPhase(0);
+    } else if (currentPhase) {
+      serviceRef.current?.sendText(buildPhaseInstruction(formatDef, currentPhase), false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnected]); // Only on connecting - the phase handlers are recreated every render
+
+  /**
+   * Advance when the current phase's time is up
+   */
+  useEffect(() => {
+    if (currentPhase && phaseElapsed >= currentPhase.durationSeconds) {
+      advancePhase();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phaseElapsed]); // Only on a clock tick - the phase handlers are recreated every render
+
+  /**
+   * Keep the service's turn detection in step with the selected input mode
+   */
+  useEffect(() => {
+    const service = serviceRef.current;
+    if (service && hasAudio(service)) service.setInputMode(inputMode);
+  }, [inputMode]);
+
+  useEffect(() => {
+    const service = serviceRef.current;
+    if (service && hasAudio(service)) service.setTalkPressed(talkPressed);
+  }, [talkPressed]);
+
+  /**
+   * Push-to-talk: hold Space to speak
+   */
+  useEffect(() => {
+    if (isTyped || inputMode !== 'push-to-talk' || !isConnected || isPaused) return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) setTalkPressed(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setTalkPressed(false);
+    };
+    // Releasing Space in another window never fires keyup here
+    const release = () => setTalkPressed(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [isTyped, inputMode, isConnected, isPaused]);
 
 
 
-  // Calculate remaining time for display (Requirement 7.3)
-  const remainingSeconds = Math.max(0, durationMinutes * 60 - elapsedSeconds);
+  // Calculate remaining time for display (Requirement 7.3) - per phase for formal formats
+  const remainingSeconds = currentPhase
+    ? Math.max(0, currentPhase.durationSeconds - phaseElapsed)
+    : Math.max(0, durationMinutes * 60 - elapsedSeconds);
+  const nextPhase = phases[phaseIndex + 1];
 
-  // Calculate remaining time for display (Requirement 7.3)
+  // A reconnecting session keeps its debate UI, with the timer paused
+  const isReconnecting = reconnectAttempt !== null;
+  const inSession = isConnected || isReconnecting || isPaused;
+
+  // Typed turns can't be sent while the connection is down or the mic would be muted
+  const chatDisabledReason = isReconnecting
+    ? 'Reconnecting...'
+    : currentPhase?.speaker === 'none'
+      ? 'Prep time - plan your next argument'
+      : null;
+  const lastTurn = messages[messages.length - 1];
+  const awaitingReply = isTyped && lastTurn?.role === 'user' && currentPhase?.speaker !== 'user';
 
   // Loading screen for analysis generation (Requirements 15.1, 15.2, 15.3, 15.4)
   if (isAnalyzing) {
@@ -404,46 +754,203 @@ export default function DebateLive({
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden flex flex-col items-center justify-center font-sans selection:bg-purple-500/30">
       
-      {/* Voice Visualizer - Full screen background */}
-      <VoiceVisualizerSimple
-        analyser={outputAnalyser}
-        isActive={isConnected}
-      />
+      {/* Voice Visualizer - Full screen background; typed debates show the chat instead */}
+      {isTyped ? (
+        inSession && (
+          <TextChatPanel
+            messages={messages}
+            awaitingReply={awaitingReply}
+            disabledReason={chatDisabledReason}
+            onSend={(text) => serviceRef.current?.sendUserMessage(text) ?? false}
+          />
+        )
+      ) : (
+        <VoiceVisualizerSimple
+          analyser={outputAnalyser}
+          isActive={isConnected}
+        />
+      )}
 
       {/* Hero Text - Fades out when connected */}
       <div 
         className={`absolute top-1/4 text-center z-10 transition-all duration-1000 pointer-events-none ${
-          isConnected ? 'opacity-0 translate-y-[-20px]' : 'opacity-100 translate-y-0'
+          inSession ? 'opacity-0 translate-y-[-20px]' : 'opacity-100 translate-y-0'
         }`}
       >
         <h1 className="text-5xl md:text-8xl font-thin text-white tracking-wider mix-blend-screen" style={{ textShadow: '0 0 40px rgba(255,255,255,0.3)' }}>
           DEBATE
         </h1>
         <p className="mt-4 text-lime-400/60 text-sm md:text-lg uppercase tracking-[0.5em] font-light">
-          {topic}
+          {motion}
+        </p>
+        <p className="mt-3 text-slate-400 text-xs uppercase tracking-[0.3em]">
+          You argue <span className={side === 'pro' ? 'text-lime-400' : 'text-rose-400'}>{SIDE_LABELS[side]}</span>
         </p>
       </div>
 
+      {/* Timer - Top right above the chat for typed debates */}
+      {inSession && isTyped && (
+        <div className="absolute top-6 right-6 z-40 flex items-center gap-2 pl-4 pr-2 py-2 bg-slate-900/70 backdrop-blur-md border border-slate-700/50 rounded-full">
+          <p className={`text-lg font-mono font-bold tracking-wider ${isReconnecting ? 'text-white/40' : 'text-white/90'}`}>
+            {formatTime(remainingSeconds)}
+          </p>
+          {isReconnecting && (
+            <p className="text-[10px] text-amber-400 uppercase tracking-wider animate-pulse">Reconnecting</p>
+          )}
+          <button
+            onClick={pauseDebate}
+            className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10 transition"
+            aria-label="Pause debate"
+          >
+            <Pause className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Timer - Centered in orb */}
-      {isConnected && (
-        <div className="absolute top-[40%] left-1/2 -translate-x-1/2 -translate-y-1/2 z-15 pointer-events-none">
-          <p className="text-4xl md:text-5xl font-mono font-bold text-white/90 tracking-wider" style={{ textShadow: '0 0 20px rgba(255,255,255,0.3)' }}>
+      {inSession && !isTyped && (
+        <div className="absolute top-[40%] left-1/2 -translate-x-1/2 -translate-y-1/2 z-15 pointer-events-none text-center">
+          <p className={`text-4xl md:text-5xl font-mono font-bold tracking-wider transition-opacity ${isReconnecting ? 'text-white/40' : 'text-white/90'}`} style={{ textShadow: '0 0 20px rgba(255,255,255,0.3)' }}>
             {formatTime(remainingSeconds)}
           </p>
+          {isReconnecting && (
+            <p className="mt-3 text-xs text-amber-400 uppercase tracking-[0.3em] animate-pulse">
+              Reconnecting{reconnectAttempt > 1 ? ` (attempt ${reconnectAttempt})` : ''}...
+            </p>
+          )}
+          <button
+            onClick={pauseDebate}
+            className="mt-4 pointer-events-auto inline-flex items-center gap-1.5 px-3 py-1 rounded-full border border-slate-600/60 text-[10px] uppercase tracking-[0.3em] text-slate-400 hover:text-white hover:border-slate-400 transition"
+          >
+            <Pause className="w-3 h-3" />
+            Pause
+          </button>
+        </div>
+      )}
+
+      {/* Paused - covers the debate until it is resumed or ended */}
+      {isPaused && (
+        <div className="absolute inset-0 z-50 bg-void/80 backdrop-blur-sm flex flex-col items-center justify-center gap-5 px-6 text-center animate-fadeIn">
+          <p className="text-xs text-slate-400 uppercase tracking-[0.5em]">Paused</p>
+          <p className="text-5xl font-mono font-bold tracking-wider text-white/90">{formatTime(remainingSeconds)}</p>
+          <p className="text-slate-400 text-sm max-w-xs">
+            {isTyped
+              ? "The clock is stopped and the AI is waiting. Paused time doesn't count towards your session."
+              : "The clock is stopped and your microphone is off. Paused time doesn't count towards your session."}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={resumeDebate}
+              className="flex items-center gap-2 px-6 py-2.5 rounded-full bg-lime-400 text-void text-sm font-bold hover:bg-lime-500 transition"
+              autoFocus
+            >
+              <Play className="w-4 h-4" />
+              Resume
+            </button>
+            <button
+              onClick={handleStop}
+              className="px-6 py-2.5 rounded-full border border-slate-600 text-slate-300 text-sm font-bold hover:border-red-500/50 hover:text-red-400 transition"
+            >
+              End debate
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Current phase - formal formats only */}
+      {inSession && currentPhase && (
+        <div className="absolute top-24 left-6 z-40 max-w-xs px-5 py-4 bg-slate-900/70 backdrop-blur-md border border-slate-700/50 rounded-2xl">
+          <p className="text-[10px] uppercase tracking-[0.3em] text-slate-400">
+            {formatDef.name} · Phase {phaseIndex + 1}/{phases.length} · You: {SIDE_LABELS[side]}
+          </p>
+          <p className="text-white font-semibold mt-1">{currentPhase.name}</p>
+          <p className={`text-xs font-semibold mt-1 ${PHASE_SPEAKER_LABELS[currentPhase.speaker].color}`}>
+            {PHASE_SPEAKER_LABELS[currentPhase.speaker].label}
+          </p>
+          <p className="text-slate-400 text-xs mt-2">{currentPhase.userGuidance}</p>
+          <div className="flex items-center justify-between gap-3 mt-3">
+            <span className="text-slate-500 text-[10px]">
+              {nextPhase ? `Next: ${nextPhase.name}` : 'Final phase'}
+            </span>
+            <button
+              onClick={advancePhase}
+              disabled={!isConnected}
+              className="text-[10px] uppercase tracking-wider text-slate-300 hover:text-white border border-slate-600 hover:border-slate-400 rounded-full px-3 py-1 transition disabled:opacity-40"
+            >
+              {nextPhase ? 'End phase' : 'Finish'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Input mode and speaking indicator */}
+      {inSession && !isTyped && (
+        <div className="absolute bottom-6 left-6 z-40 flex items-center gap-3 px-4 py-3 bg-slate-900/70 backdrop-blur-md border border-slate-700/50 rounded-2xl">
+          <span
+            className={`w-2.5 h-2.5 rounded-full transition-all duration-200 ${
+              isUserSpeaking ? 'bg-lime-400 shadow-[0_0_12px_rgba(163,230,53,0.8)]' : 'bg-slate-600'
+            }`}
+            aria-hidden="true"
+          />
+          <div>
+            <div className="flex gap-1" role="radiogroup" aria-label="Input mode">
+              {(['vad', 'push-to-talk'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  role="radio"
+                  aria-checked={inputMode === mode}
+                  onClick={() => changeInputMode(mode)}
+                  onKeyUp={(e) => e.key === ' ' && e.preventDefault()}
+                  className={`text-[10px] uppercase tracking-wider rounded-full px-2.5 py-0.5 transition ${
+                    inputMode === mode ? 'bg-white/15 text-white' : 'text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {mode === 'vad' ? 'Auto' : 'Push to talk'}
+                </button>
+              ))}
+            </div>
+            {inputMode === 'vad' ? (
+              <p className="text-slate-400 text-[10px] mt-1">
+                {isUserSpeaking ? 'Listening to you...' : 'Start speaking to take your turn'}
+              </p>
+            ) : (
+              <button
+                onPointerDown={() => setTalkPressed(true)}
+                onPointerUp={() => setTalkPressed(false)}
+                onPointerLeave={() => setTalkPressed(false)}
+                disabled={!isConnected}
+                className={`mt-1 text-[10px] transition ${talkPressed ? 'text-lime-400' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {talkPressed ? 'Talking - release Space to finish' : 'Hold Space (or here) to talk'}
+              </button>
+            )}
+          </div>
         </div>
       )}
 
       {/* Transcript Display - Lumina style */}
-      {isConnected && (
+      {inSession && !isTyped && (
         <TranscriptDisplay
           lines={transcriptLines}
           speaker={currentSpeaker}
         />
       )}
 
+      {/* Audio check - before a voice debate connects */}
+      {isCheckingAudio && provider && hasAudio(provider) && (
+        <AudioCheckPanel
+          provider={provider}
+          onStart={() => {
+            setIsCheckingAudio(false);
+            void connectSession();
+          }}
+          onCancel={onBack}
+        />
+      )}
+
       {/* Status text - Bottom Center (only before connection) */}
       <div className={`absolute bottom-8 left-1/2 -translate-x-1/2 z-20 transition-all duration-1000 ${
-        isConnected ? 'opacity-0 translate-y-20 pointer-events-none' : 'opacity-100 translate-y-0'
+        inSession || isCheckingAudio ? 'opacity-0 translate-y-20 pointer-events-none' : 'opacity-100 translate-y-0'
       }`}>
         <p className="text-xs text-slate-400 uppercase tracking-wider">
           Ready to Connect
@@ -451,7 +958,7 @@ export default function DebateLive({
       </div>
 
       {/* Hover-activated Exit Button - Top */}
-      {isConnected && (
+      {inSession && (
         <div 
           className="absolute top-0 left-0 right-0 h-20 z-30 group"
         >
@@ -478,7 +985,7 @@ export default function DebateLive({
       )}
 
       {/* Hover-activated Exit Button - Bottom */}
-      {isConnected && (
+      {inSession && (
         <div 
           className="absolute bottom-0 left-0 right-0 h-20 z-30 group"
         >
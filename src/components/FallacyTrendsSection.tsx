@@ -0,0 +1,85 @@
+/**
+ * FallacyTrendsSection Component
+ *
+ * Counts the logical fallacies tagged in the user's turns and shows, per fallacy,
+ * how it occurred over the most recent analyzed sessions - so repeat habits stand out.
+ */
+
+import type { FallacyStats } from '../utils/statisticsUtils';
+import { getFallacy } from '../utils/fallacies';
+
+interface FallacyTrendsSectionProps {
+  stats: FallacyStats;
+}
+
+/**
+ * Cell shade for the per-session strip
+ */
+function cellClass(count: number): string {
+  if (count === 0) return 'bg-void border border-white/5';
+  if (count === 1) return 'bg-amber-400/40';
+  if (count === 2) return 'bg-amber-400/70';
+  return 'bg-amber-400';
+}
+
+export default function FallacyTrendsSection({ stats }: FallacyTrendsSectionProps) {
+  if (stats.analyzedSessions === 0) {
+    return null;
+  }
+
+  const maxTotal = Math.max(1, ...stats.counts.map((count) => count.total));
+
+  return (
+    <div className="bg-card border border-white/5 rounded-[2rem] p-6 md:p-8 hover:border-white/10 transition-colors duration-300">
+      <h2 className="text-xl md:text-2xl font-bold text-white mb-2">
+        🧩 Recurring Fallacies
+      </h2>
+      <p className="text-sm text-slate-400 mb-6">
+        Across {stats.analyzedSessions} analyzed {stats.analyzedSessions === 1 ? 'session' : 'sessions'}
+      </p>
+
+      {stats.counts.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-4">
+          No fallacies detected so far. Keep it up!
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {stats.counts.map((count) => {
+            const fallacy = getFallacy(count.type);
+            return (
+              <div key={count.type} className="grid grid-cols-1 md:grid-cols-[14rem_1fr_auto] gap-2 md:gap-4 items-center">
+                <div title={fallacy.description}>
+                  <div className="text-white font-semibold text-sm">{fallacy.name}</div>
+                  <div className="text-xs text-slate-500">
+                    in {count.sessions} of {stats.analyzedSessions} sessions
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-2 bg-void rounded-full border border-white/5 overflow-hidden">
+                    <div
+                      className="h-full bg-amber-400 rounded-full transition-all duration-1000"
+                      style={{ width: `${(count.total / maxTotal) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-amber-400 font-bold text-sm w-6 text-right">{count.total}</span>
+                </div>
+
+                {/* Oldest to newest of the recent sessions */}
+                <div className="flex gap-1" aria-label={`${fallacy.name} per recent session`}>
+                  {count.recent.map((occurrences, index) => (
+                    <div
+                      key={index}
+                      className={`w-3 h-3 rounded-sm ${cellClass(occurrences)}`}
+                      title={`${occurrences} in session ${index + 1} of the last ${count.recent.length}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * OpponentBreakdownSection Component
+ *
+ * Compares performance against each AI opponent persona.
+ * Sessions recorded before opponents were saved with the session are not counted.
+ */
+
+import type { OpponentBreakdown } from '../utils/statisticsUtils';
+
+interface OpponentBreakdownSectionProps {
+  breakdown: OpponentBreakdown[];
+}
+
+// Cycled through in breakdown order
+const OPPONENT_STYLES = [
+  { text: 'text-lime-400', border: 'border-lime-400/30', bar: 'bg-lime-400' },
+  { text: 'text-rose-400', border: 'border-rose-400/30', bar: 'bg-rose-400' },
+  { text: 'text-sky-400', border: 'border-sky-400/30', bar: 'bg-sky-400' },
+  { text: 'text-amber-400', border: 'border-amber-400/30', bar: 'bg-amber-400' },
+  { text: 'text-purple-400', border: 'border-purple-400/30', bar: 'bg-purple-400' },
+] as const;
+
+export default function OpponentBreakdownSection({ breakdown }: OpponentBreakdownSectionProps) {
+  if (breakdown.length === 0) {
+    return null;
+  }
+
+  // Only worth calling out once there's more than one scored opponent to compare
+  const scored = breakdown.filter((entry) => entry.averageScore !== null);
+  const toughest = scored.length > 1
+    ? scored.reduce((lowest, entry) => ((entry.averageScore ?? 0) < (lowest.averageScore ?? 0) ? entry : lowest))
+    : null;
+
+  return (
+    <div className="bg-card border border-white/5 rounded-[2rem] p-6 md:p-8 hover:border-white/10 transition-colors duration-300">
+      <h2 className="text-xl md:text-2xl font-bold text-white mb-6">
+        🤺 Performance by Opponent
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {breakdown.map((entry, index) => {
+          const styles = OPPONENT_STYLES[index % OPPONENT_STYLES.length]!;
+          const metrics = [
+            { label: 'Argument strength', value: entry.averageArgumentStrength },
+            { label: 'Persuasion', value: entry.averagePersuasion },
+          ];
+
+          return (
+            <div key={entry.opponentId} className={`border-2 ${styles.border} rounded-2xl p-4 md:p-6`}>
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="min-w-0">
+                  <h3 className={`text-lg font-bold ${styles.text} truncate`}>{entry.name}</h3>
+                  <p className="text-xs md:text-sm text-slate-400">
+                    {entry.sessions} {entry.sessions === 1 ? 'session' : 'sessions'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className={`text-3xl md:text-4xl font-black ${styles.text}`}>
+                    {entry.averageScore ?? '—'}
+                  </div>
+                  <div className="text-xs text-slate-400 font-medium uppercase tracking-wider">Avg score</div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {metrics.map((metric) => (
+                  <div key={metric.label} className="space-y-1">
+                    <div className="flex justify-between text-xs text-slate-400">
+                      <span>{metric.label}</span>
+                      <span>{metric.value ?? '—'}</span>
+                    </div>
+                    <div className="h-2 bg-void rounded-full border border-white/5 overflow-hidden">
+                      <div
+                        className={`h-full ${styles.bar} rounded-full transition-all duration-1000`}
+                        style={{ width: `${metric.value ?? 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {toughest ? (
+        <p className="text-sm text-slate-400 mt-4 text-center">
+          Your toughest opponent so far is <span className="text-white font-semibold">{toughest.name}</span>.
+        </p>
+      ) : (
+        <p className="text-sm text-slate-400 mt-4 text-center">
+          Debate a few different opponents to see who gives you the most trouble.
+        </p>
+      )}
+    </div>
+  );
+}
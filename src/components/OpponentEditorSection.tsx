@@ -0,0 +1,295 @@
+/**
+ * OpponentEditorSection Component
+ *
+ * Settings card for managing AI opponent personas: the built-in ones can be duplicated,
+ * custom ones created, edited and deleted. Changes are saved as soon as an opponent is saved.
+ */
+
+import { useState } from 'react';
+import { Copy, Pencil, Plus, Swords, Trash2, X } from 'lucide-react';
+import type { InterruptionLevel, OpponentPersona } from '../types';
+import { loadCustomOpponents, saveCustomOpponents, validateOpponent } from '../services/opponentService';
+import { BUILT_IN_OPPONENTS, INTERRUPTION_LEVELS, OPPONENT_VOICES, getInterruptionLevel } from '../utils/opponents';
+
+const INPUT_CLASS =
+  'w-full bg-void/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-lime-400 transition';
+
+/**
+ * Starting point for a new opponent: one empty tactic and a balanced interruption level
+ */
+function createBlankOpponent(): OpponentPersona {
+  return {
+    id: `opponent_${Date.now()}`,
+    name: '',
+    description: '',
+    voice: 'Puck',
+    prompt: '',
+    tactics: [''],
+    interruption: 'medium',
+  };
+}
+
+export default function OpponentEditorSection() {
+  const [customOpponents, setCustomOpponents] = useState<OpponentPersona[]>(loadCustomOpponents);
+  const [draft, setDraft] = useState<OpponentPersona | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const persist = (opponents: OpponentPersona[]) => {
+    setCustomOpponents(opponents);
+    saveCustomOpponents(opponents);
+  };
+
+  const startEditing = (opponent: OpponentPersona) => {
+    setDraft(opponent);
+    setIssues([]);
+  };
+
+  const handleDuplicate = (opponent: OpponentPersona) => {
+    startEditing({
+      ...opponent,
+      id: `opponent_${Date.now()}`,
+      name: `${opponent.name} (copy)`,
+      builtIn: false,
+      tactics: [...opponent.tactics],
+    });
+  };
+
+  const handleDelete = (opponent: OpponentPersona) => {
+    if (!window.confirm(`Delete the "${opponent.name}" opponent? Past sessions keep its name.`)) return;
+    persist(customOpponents.filter(o => o.id !== opponent.id));
+    if (draft?.id === opponent.id) setDraft(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    const opponent: OpponentPersona = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      prompt: draft.prompt.trim(),
+      tactics: draft.tactics.map(tactic => tactic.trim()),
+    };
+
+    const problems = validateOpponent(opponent);
+    setIssues(problems);
+    if (problems.length > 0) return;
+
+    const exists = customOpponents.some(o => o.id === opponent.id);
+    persist(exists ? customOpponents.map(o => (o.id === opponent.id ? opponent : o)) : [...customOpponents, opponent]);
+    setDraft(null);
+  };
+
+  const updateDraft = (changes: Partial<OpponentPersona>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateTactic = (index: number, text: string) => {
+    if (!draft) return;
+    updateDraft({ tactics: draft.tactics.map((t, i) => (i === index ? text : t)) });
+  };
+
+  const opponents = [...BUILT_IN_OPPONENTS, ...customOpponents];
+
+  return (
+    <div className="bg-card border border-white/5 rounded-[2rem] p-8 mb-6">
+      <div className="flex items-start gap-3 mb-6">
+        <div className="w-10 h-10 bg-rose-400/10 border border-rose-400/30 rounded-xl flex items-center justify-center flex-shrink-0">
+          <Swords className="w-5 h-5 text-rose-400" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-white text-xl font-bold mb-2">AI Opponents</h2>
+          <p className="text-slate-400 text-sm">
+            Give the AI a character, a voice, the tactics it leans on and how eagerly it cuts in. Pick an opponent on
+            the Dashboard before each debate.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => startEditing(createBlankOpponent())}
+            className="flex items-center gap-2 px-4 py-2 bg-void border border-white/10 text-white text-sm font-bold rounded-xl hover:border-white/30 transition"
+          >
+            <Plus className="w-4 h-4" />
+            New Opponent
+          </button>
+        )}
+      </div>
+
+      {/* Opponent list */}
+      {!draft && (
+        <div className="space-y-3">
+          {opponents.map((opponent) => (
+            <div key={opponent.id} className="p-4 bg-void/30 border border-white/5 rounded-xl flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1 flex-wrap">
+                  <h3 className="text-white font-semibold">{opponent.name}</h3>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-600/20 text-slate-400">
+                    {opponent.voice} voice
+                  </span>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-600/20 text-slate-400">
+                    {getInterruptionLevel(opponent.interruption).label}
+                  </span>
+                  {opponent.builtIn && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-lime-400/20 text-lime-400">built-in</span>
+                  )}
+                </div>
+                {opponent.description && <p className="text-slate-400 text-sm">{opponent.description}</p>}
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleDuplicate(opponent)}
+                  title="Duplicate"
+                  className="p-2 text-slate-400 hover:text-white transition"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                {!opponent.builtIn && (
+                  <>
+                    <button
+                      onClick={() => startEditing(opponent)}
+                      title="Edit"
+                      className="p-2 text-slate-400 hover:text-white transition"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(opponent)}
+                      title="Delete"
+                      className="p-2 text-slate-400 hover:text-red-400 transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_10rem] gap-4">
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Cross-Examiner"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Voice</label>
+              <select
+                value={draft.voice}
+                onChange={(e) => updateDraft({ voice: e.target.value })}
+                className={INPUT_CLASS}
+              >
+                {OPPONENT_VOICES.map((voice) => (
+                  <option key={voice.name} value={voice.name}>{voice.name} ({voice.description})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Interruptions</label>
+              <select
+                value={draft.interruption}
+                onChange={(e) => updateDraft({ interruption: e.target.value as InterruptionLevel })}
+                title={getInterruptionLevel(draft.interruption).instruction}
+                className={INPUT_CLASS}
+              >
+                {INTERRUPTION_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>{level.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder="Shown when picking the opponent"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Character</label>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => updateDraft({ prompt: e.target.value })}
+                rows={3}
+                placeholder="You are a sharp cross-examiner who..."
+                className={`${INPUT_CLASS} resize-y`}
+              />
+              <p className="text-slate-500 text-xs mt-1">
+                Added to the AI's instructions after the motion and sides. Write it to the AI, in the second person.
+              </p>
+            </div>
+          </div>
+
+          {/* Tactics */}
+          <div>
+            <h3 className="text-white font-semibold mb-1">Tactics</h3>
+            <p className="text-slate-500 text-xs mb-3">
+              The moves the opponent leans on, one per line.
+            </p>
+            <div className="space-y-2">
+              {draft.tactics.map((tactic, index) => (
+                <div key={index} className="grid grid-cols-[1fr_auto] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={tactic}
+                    onChange={(e) => updateTactic(index, e.target.value)}
+                    placeholder="e.g. Ask for a source behind every statistic"
+                    className={INPUT_CLASS}
+                  />
+                  <button
+                    onClick={() => updateDraft({ tactics: draft.tactics.filter((_, i) => i !== index) })}
+                    title="Remove tactic"
+                    className="p-2 text-slate-400 hover:text-red-400 transition"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => updateDraft({ tactics: [...draft.tactics, ''] })}
+              className="mt-3 flex items-center gap-2 text-lime-400 text-sm font-bold hover:text-lime-300 transition"
+            >
+              <Plus className="w-4 h-4" />
+              Add tactic
+            </button>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl list-disc list-inside space-y-1">
+              {issues.map((issue) => (
+                <li key={issue} className="text-red-300 text-sm">{issue}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-6 py-3 bg-void border border-white/10 text-white font-bold rounded-xl hover:border-white/30 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-8 py-3 bg-lime-400 text-void font-bold rounded-xl hover:bg-lime-500 transition"
+            >
+              Save Opponent
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -61,7 +61,7 @@ export default function PersonaShowcase({ onBack }: PersonaShowcaseProps) {
         setError(null);
 
         // Load session history from storage
-        const rawSessions = getHistory();
+        const rawSessions = await getHistory();
 
         // Validate and sanitize session history data
         const { sessions, warning } = sanitizeSessionHistory(rawSessions);
@@ -0,0 +1,359 @@
+/**
+ * RubricEditorSection Component
+ *
+ * Settings card for managing scoring rubrics: the built-in ones can be duplicated,
+ * custom ones created, edited and deleted. Changes are saved as soon as a rubric is saved.
+ */
+
+import { useState } from 'react';
+import { ClipboardList, Copy, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { Rubric, RubricCriterion, RubricLeniency, ScoreBand } from '../types';
+import { loadCustomRubrics, saveCustomRubrics, validateRubric } from '../services/rubricService';
+import { BUILT_IN_RUBRICS, LENIENCY_LEVELS, STANDARD_RUBRIC, createCriterionId } from '../utils/rubrics';
+
+const INPUT_CLASS =
+  'w-full bg-void/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-lime-400 transition';
+
+/**
+ * Starting point for a new rubric: one empty criterion and the standard bands
+ */
+function createBlankRubric(): Rubric {
+  return {
+    id: `rubric_${Date.now()}`,
+    name: '',
+    description: '',
+    leniency: 'balanced',
+    criteria: [{ id: '', name: '', description: '', weight: 1 }],
+    bands: STANDARD_RUBRIC.bands.map(band => ({ ...band })),
+  };
+}
+
+export default function RubricEditorSection() {
+  const [customRubrics, setCustomRubrics] = useState<Rubric[]>(loadCustomRubrics);
+  const [draft, setDraft] = useState<Rubric | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const persist = (rubrics: Rubric[]) => {
+    setCustomRubrics(rubrics);
+    saveCustomRubrics(rubrics);
+  };
+
+  const startEditing = (rubric: Rubric) => {
+    setDraft(rubric);
+    setIssues([]);
+  };
+
+  const handleDuplicate = (rubric: Rubric) => {
+    startEditing({
+      ...rubric,
+      id: `rubric_${Date.now()}`,
+      name: `${rubric.name} (copy)`,
+      builtIn: false,
+      criteria: rubric.criteria.map(criterion => ({ ...criterion })),
+      bands: rubric.bands.map(band => ({ ...band })),
+    });
+  };
+
+  const handleDelete = (rubric: Rubric) => {
+    if (!window.confirm(`Delete the "${rubric.name}" rubric? Past sessions keep their scores.`)) return;
+    persist(customRubrics.filter(r => r.id !== rubric.id));
+    if (draft?.id === rubric.id) setDraft(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    // New criteria get a stable key from their name the first time they're saved
+    const takenIds = draft.criteria.map(criterion => criterion.id).filter(Boolean);
+    const criteria = draft.criteria.map(criterion => {
+      const id = criterion.id || createCriterionId(criterion.name, takenIds);
+      takenIds.push(id);
+      return { ...criterion, id, name: criterion.name.trim(), description: criterion.description.trim() };
+    });
+    const rubric: Rubric = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      criteria,
+      bands: [...draft.bands].sort((a, b) => a.min - b.min),
+    };
+
+    const problems = validateRubric(rubric);
+    setIssues(problems);
+    if (problems.length > 0) return;
+
+    const exists = customRubrics.some(r => r.id === rubric.id);
+    persist(exists ? customRubrics.map(r => (r.id === rubric.id ? rubric : r)) : [...customRubrics, rubric]);
+    setDraft(null);
+  };
+
+  const updateDraft = (changes: Partial<Rubric>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    if (!draft) return;
+    updateDraft({ criteria: draft.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  const updateBand = (index: number, changes: Partial<ScoreBand>) => {
+    if (!draft) return;
+    updateDraft({ bands: draft.bands.map((b, i) => (i === index ? { ...b, ...changes } : b)) });
+  };
+
+  const rubrics = [...BUILT_IN_RUBRICS, ...customRubrics];
+
+  return (
+    <div className="bg-card border border-white/5 rounded-[2rem] p-8 mb-6">
+      <div className="flex items-start gap-3 mb-6">
+        <div className="w-10 h-10 bg-amber-400/10 border border-amber-400/30 rounded-xl flex items-center justify-center flex-shrink-0">
+          <ClipboardList className="w-5 h-5 text-amber-400" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-white text-xl font-bold mb-2">Scoring Rubrics</h2>
+          <p className="text-slate-400 text-sm">
+            Define the criteria, weights, score bands and leniency the analysis scores with. Pick a rubric on the
+            Dashboard before each debate.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => startEditing(createBlankRubric())}
+            className="flex items-center gap-2 px-4 py-2 bg-void border border-white/10 text-white text-sm font-bold rounded-xl hover:border-white/30 transition"
+          >
+            <Plus className="w-4 h-4" />
+            New Rubric
+          </button>
+        )}
+      </div>
+
+      {/* Rubric list */}
+      {!draft && (
+        <div className="space-y-3">
+          {rubrics.map((rubric) => (
+            <div key={rubric.id} className="p-4 bg-void/30 border border-white/5 rounded-xl flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <h3 className="text-white font-semibold">{rubric.name}</h3>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-slate-600/20 text-slate-400">
+                    {LENIENCY_LEVELS.find(level => level.value === rubric.leniency)?.label}
+                  </span>
+                  {rubric.builtIn && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-lime-400/20 text-lime-400">built-in</span>
+                  )}
+                </div>
+                {rubric.description && <p className="text-slate-400 text-sm">{rubric.description}</p>}
+                <p className="text-slate-500 text-xs mt-1">
+                  {rubric.criteria.map(criterion => criterion.name).join(' · ')}
+                </p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleDuplicate(rubric)}
+                  title="Duplicate"
+                  className="p-2 text-slate-400 hover:text-white transition"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                {!rubric.builtIn && (
+                  <>
+                    <button
+                      onClick={() => startEditing(rubric)}
+                      title="Edit"
+                      className="p-2 text-slate-400 hover:text-white transition"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rubric)}
+                      title="Delete"
+                      className="p-2 text-slate-400 hover:text-red-400 transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem] gap-4">
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Junior League"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Leniency</label>
+              <select
+                value={draft.leniency}
+                onChange={(e) => updateDraft({ leniency: e.target.value as RubricLeniency })}
+                title={LENIENCY_LEVELS.find(level => level.value === draft.leniency)?.instruction}
+                className={INPUT_CLASS}
+              >
+                {LENIENCY_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>{level.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                placeholder="What this rubric is for"
+                className={INPUT_CLASS}
+              />
+            </div>
+          </div>
+
+          {/* Criteria */}
+          <div>
+            <h3 className="text-white font-semibold mb-1">Criteria</h3>
+            <p className="text-slate-500 text-xs mb-3">
+              Each criterion is scored 0-100; the overall score is their average, weighted by the weights below.
+            </p>
+            <div className="space-y-2">
+              {draft.criteria.map((criterion, index) => (
+                <div key={index} className="grid grid-cols-[1fr_5rem_auto] md:grid-cols-[12rem_1fr_5rem_auto] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={criterion.name}
+                    onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                    placeholder="Criterion"
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="text"
+                    value={criterion.description}
+                    onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                    placeholder="What the judge should look for"
+                    className={`${INPUT_CLASS} col-span-3 md:col-span-1 order-last md:order-none`}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+                    aria-label="Weight"
+                    title="Weight"
+                    className={INPUT_CLASS}
+                  />
+                  <button
+                    onClick={() => updateDraft({ criteria: draft.criteria.filter((_, i) => i !== index) })}
+                    title="Remove criterion"
+                    className="p-2 text-slate-400 hover:text-red-400 transition"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => updateDraft({ criteria: [...draft.criteria, { id: '', name: '', description: '', weight: 1 }] })}
+              className="mt-3 flex items-center gap-2 text-lime-400 text-sm font-bold hover:text-lime-300 transition"
+            >
+              <Plus className="w-4 h-4" />
+              Add criterion
+            </button>
+          </div>
+
+          {/* Score bands */}
+          <div>
+            <h3 className="text-white font-semibold mb-1">Score Bands</h3>
+            <p className="text-slate-500 text-xs mb-3">
+              Bands tell the analysis what each range means. Together they must cover 0-100 without gaps.
+            </p>
+            <div className="space-y-2">
+              {draft.bands.map((band, index) => (
+                <div key={index} className="grid grid-cols-[4rem_4rem_1fr_auto] md:grid-cols-[4rem_4rem_10rem_1fr_auto] gap-2 items-center">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={band.min}
+                    onChange={(e) => updateBand(index, { min: Number(e.target.value) })}
+                    aria-label="From"
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={band.max}
+                    onChange={(e) => updateBand(index, { max: Number(e.target.value) })}
+                    aria-label="To"
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="text"
+                    value={band.label}
+                    onChange={(e) => updateBand(index, { label: e.target.value })}
+                    placeholder="Label"
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="text"
+                    value={band.description}
+                    onChange={(e) => updateBand(index, { description: e.target.value })}
+                    placeholder="What a score in this band means"
+                    className={`${INPUT_CLASS} col-span-4 md:col-span-1 order-last md:order-none`}
+                  />
+                  <button
+                    onClick={() => updateDraft({ bands: draft.bands.filter((_, i) => i !== index) })}
+                    title="Remove band"
+                    className="p-2 text-slate-400 hover:text-red-400 transition"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => updateDraft({ bands: [...draft.bands, { min: 0, max: 100, label: '', description: '' }] })}
+              className="mt-3 flex items-center gap-2 text-lime-400 text-sm font-bold hover:text-lime-300 transition"
+            >
+              <Plus className="w-4 h-4" />
+              Add band
+            </button>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl list-disc list-inside space-y-1">
+              {issues.map((issue) => (
+                <li key={issue} className="text-red-300 text-sm">{issue}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-6 py-3 bg-void border border-white/10 text-white font-bold rounded-xl hover:border-white/30 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-8 py-3 bg-lime-400 text-void font-bold rounded-xl hover:bg-lime-500 transition"
+            >
+              Save Rubric
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
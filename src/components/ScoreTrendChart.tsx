@@ -7,20 +7,26 @@ interface ScoreTrendChartProps {
 }
 
 export default function ScoreTrendChart({ sessions }: ScoreTrendChartProps) {
+  const chartData = transformSessionsToScoreData(sessions);
+  const unscored = sessions.length - chartData.length;
+
   // Handle insufficient data case
-  if (sessions.length < 2) {
+  if (chartData.length < 2) {
     return (
       <div className="flex items-center justify-center h-48 md:h-64 text-slate-400">
         <div className="text-center px-4">
           <p className="text-base md:text-lg font-medium">Not enough data yet</p>
-          <p className="text-xs md:text-sm mt-2">Complete at least 2 sessions to see your score trend</p>
+          <p className="text-xs md:text-sm mt-2">Complete at least 2 scored sessions to see your score trend</p>
+          {unscored > 0 && (
+            <p className="text-xs mt-1 text-slate-500">
+              {unscored} {unscored === 1 ? 'session has' : 'sessions have'} no score because the analysis didn't finish
+            </p>
+          )}
         </div>
       </div>
     );
   }
 
-  const chartData = transformSessionsToScoreData(sessions);
-
   return (
     <div className="w-full h-48 md:h-64 lg:h-72">
       <ResponsiveContainer width="100%" height="100%">
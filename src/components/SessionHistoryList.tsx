@@ -1,15 +1,17 @@
 import { useState, useMemo } from 'react';
-import { SessionHistoryItem } from '../types';
+import type { SessionHistoryItem } from '../types';
 import SessionListItem from './SessionListItem';
 import { History, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface SessionHistoryListProps {
   sessions: SessionHistoryItem[];
+  onOpenSession?: (session: SessionHistoryItem) => void;
+  onSessionUpdated?: (session: SessionHistoryItem) => void;
 }
 
 const ITEMS_PER_PAGE = 10;
 
-export default function SessionHistoryList({ sessions }: SessionHistoryListProps) {
+export default function SessionHistoryList({ sessions, onOpenSession, onSessionUpdated }: SessionHistoryListProps) {
   const [currentPage, setCurrentPage] = useState(1);
 
   // Sort sessions by date descending (most recent first)
@@ -70,7 +72,7 @@ export default function SessionHistoryList({ sessions }: SessionHistoryListProps
       {/* Session List */}
       <div className="space-y-3">
         {paginatedSessions.map((session) => (
-          <SessionListItem key={session.id} session={session} />
+          <SessionListItem key={session.id} session={session} onOpen={onOpenSession} onUpdated={onSessionUpdated} />
         ))}
       </div>
 
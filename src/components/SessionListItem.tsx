@@ -1,14 +1,48 @@
 import { useState } from 'react';
-import { SessionHistoryItem } from '../types';
-import { ChevronDown, ChevronUp, Calendar, Clock, Trophy } from 'lucide-react';
+import { DebateFormat, type SessionHistoryItem } from '../types';
+import { ChevronDown, ChevronUp, Calendar, Clock, Trophy, ListOrdered, AlertTriangle, Hourglass, RotateCw, Keyboard, Swords } from 'lucide-react';
+import SessionTranscriptView from './SessionTranscriptView';
+import { getSessionAnalysis } from '../services/storageService';
+import { canReanalyze, reanalyzeSession } from '../services/analysisService';
+import { getDebateFormat } from '../utils/debateFormats';
+import { SIDE_LABELS } from '../utils/motionUtils';
+import { calculatePausedSeconds } from '../utils/statisticsUtils';
 
 interface SessionListItemProps {
   session: SessionHistoryItem;
   rank?: number;
+  onOpen?: (session: SessionHistoryItem) => void;
+  onUpdated?: (session: SessionHistoryItem) => void;
 }
 
-export default function SessionListItem({ session, rank }: SessionListItemProps) {
+export default function SessionListItem({ session, rank, onOpen, onUpdated }: SessionListItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [reanalyzeError, setReanalyzeError] = useState<string | null>(null);
+
+  const handleReanalyze = async () => {
+    setIsReanalyzing(true);
+    setReanalyzeError(null);
+    try {
+      onUpdated?.(await reanalyzeSession(session));
+    } catch (error) {
+      setReanalyzeError(error instanceof Error ? error.message : 'Could not re-run the analysis');
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  // Sessions saved with a full analysis open their summary; older ones just expand
+  const canOpen = !!onOpen && getSessionAnalysis(session) !== null;
+
+  const handleClick = () => {
+    if (canOpen) {
+      onOpen?.(session);
+    } else {
+      setIsExpanded(!isExpanded);
+    }
+  };
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -55,7 +89,7 @@ export default function SessionListItem({ session, rank }: SessionListItemProps)
       className={`bg-card rounded-2xl p-3 md:p-4 transition-all duration-200 hover:bg-card/80 hover:scale-[1.01] cursor-pointer border ${
         rank ? 'border-2 border-lime-400/30' : 'border-white/5 hover:border-white/10'
       }`}
-      onClick={() => setIsExpanded(!isExpanded)}
+      onClick={handleClick}
     >
       {/* Main Content */}
       <div className="flex items-start justify-between gap-3 md:gap-4">
@@ -80,26 +114,84 @@ export default function SessionListItem({ session, rank }: SessionListItemProps)
               <Clock className="w-3 h-3" />
               <span>{formatDuration(session.durationSeconds)}</span>
             </div>
+            {session.format && session.format !== DebateFormat.FREE_FORM && (
+              <div className="flex items-center gap-1">
+                <ListOrdered className="w-3 h-3" />
+                <span>{getDebateFormat(session.format).name}</span>
+              </div>
+            )}
+            {session.side && (
+              <span
+                className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider ${
+                  session.side === 'pro' ? 'bg-lime-400/10 text-lime-400' : 'bg-rose-400/10 text-rose-400'
+                }`}
+                title={session.motion}
+              >
+                {SIDE_LABELS[session.side]}
+              </span>
+            )}
+            {session.input === 'text' && (
+              <div className="flex items-center gap-1" title="Typed debate - no speech metrics">
+                <Keyboard className="w-3 h-3" />
+                <span>Typed</span>
+              </div>
+            )}
+            {session.opponentName && (
+              <div className="flex items-center gap-1" title="AI opponent">
+                <Swords className="w-3 h-3" />
+                <span>vs {session.opponentName}</span>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Score Badge */}
         <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
-          <div
-            className={`flex items-center gap-1 px-2 md:px-3 py-1 md:py-1.5 rounded-full ${getScoreBgColor(
-              session.score
-            )}`}
-          >
-            <Trophy className={`w-3 h-3 ${getScoreColor(session.score)}`} />
-            <span className={`text-xs md:text-sm font-bold ${getScoreColor(session.score)}`}>
-              {session.score}
-            </span>
-          </div>
-          {isExpanded ? (
-            <ChevronUp className="w-4 h-4 text-slate-400" />
+          {session.analysisStatus ? (
+            <div
+              className={`flex items-center gap-1 px-2 md:px-3 py-1 md:py-1.5 rounded-full ${
+                session.analysisStatus === 'failed' ? 'bg-red-400/10 text-red-400' : 'bg-amber-400/10 text-amber-400'
+              }`}
+              title={session.analysisError}
+            >
+              {session.analysisStatus === 'failed' ? <AlertTriangle className="w-3 h-3" /> : <Hourglass className="w-3 h-3" />}
+              <span className="text-xs md:text-sm font-bold">
+                {session.analysisStatus === 'failed' ? 'Not analyzed' : 'Pending'}
+              </span>
+            </div>
+          ) : session.score !== undefined ? (
+            <div
+              className={`flex items-center gap-1 px-2 md:px-3 py-1 md:py-1.5 rounded-full ${getScoreBgColor(
+                session.score
+              )}`}
+            >
+              <Trophy className={`w-3 h-3 ${getScoreColor(session.score)}`} />
+              <span className={`text-xs md:text-sm font-bold ${getScoreColor(session.score)}`}>
+                {session.score}
+              </span>
+            </div>
           ) : (
-            <ChevronDown className="w-4 h-4 text-slate-400" />
+            <div
+              className="flex items-center gap-1 px-2 md:px-3 py-1 md:py-1.5 rounded-full bg-slate-400/10 text-slate-400"
+              title="This session was saved without an analysis, so it has no score"
+            >
+              <span className="text-xs md:text-sm font-bold">Not scored</span>
+            </div>
           )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsExpanded(!isExpanded);
+            }}
+            className="p-1 rounded-lg hover:bg-white/5 transition"
+            aria-label={isExpanded ? 'Collapse session details' : 'Expand session details'}
+          >
+            {isExpanded ? (
+              <ChevronUp className="w-4 h-4 text-slate-400" />
+            ) : (
+              <ChevronDown className="w-4 h-4 text-slate-400" />
+            )}
+          </button>
         </div>
       </div>
 
@@ -118,12 +210,80 @@ export default function SessionListItem({ session, rank }: SessionListItemProps)
             <div>
               <p className="text-slate-400 text-xs uppercase tracking-wider mb-1">Duration</p>
               <p className="text-white text-xs md:text-sm">{formatDuration(session.durationSeconds)}</p>
+              {session.pauses && session.pauses.length > 0 && (
+                <p className="text-slate-500 text-xs mt-0.5">
+                  + {formatDuration(calculatePausedSeconds(session.pauses))} paused ({session.pauses.length}×)
+                </p>
+              )}
             </div>
             <div>
               <p className="text-slate-400 text-xs uppercase tracking-wider mb-1">Performance</p>
-              <p className={`font-bold text-xs md:text-sm ${getScoreColor(session.score)}`}>{session.score}/100</p>
+              {session.score === undefined ? (
+                <p className="text-slate-400 text-xs md:text-sm">
+                  {session.analysisStatus ? 'Not analyzed yet' : 'Not scored'}
+                </p>
+              ) : (
+                <p className={`font-bold text-xs md:text-sm ${getScoreColor(session.score)}`}>{session.score}/100</p>
+              )}
             </div>
           </div>
+
+          {/* Analysis that failed or never finished - click handlers stop propagation so the card stays expanded */}
+          {session.analysisStatus && (
+            <div
+              className="mt-3 md:mt-4 p-3 bg-void/50 border border-white/5 rounded-xl"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <p className="text-slate-300 text-xs md:text-sm">
+                {session.analysisStatus === 'failed'
+                  ? `The analysis of this session failed${session.analysisError ? `: ${session.analysisError}` : '.'}`
+                  : "The analysis of this session didn't finish."}
+              </p>
+              {canReanalyze(session) ? (
+                <button
+                  onClick={handleReanalyze}
+                  disabled={isReanalyzing}
+                  className="mt-2 flex items-center gap-1.5 text-xs font-bold text-lime-400 hover:text-lime-300 transition disabled:opacity-50"
+                >
+                  <RotateCw className={`w-3 h-3 ${isReanalyzing ? 'animate-spin' : ''}`} />
+                  {isReanalyzing ? 'Analyzing...' : 'Re-run analysis'}
+                </button>
+              ) : (
+                <p className="text-slate-500 text-xs mt-1">No transcript was stored, so it can't be analyzed again.</p>
+              )}
+              {reanalyzeError && <p className="text-red-400 text-xs mt-2">{reanalyzeError}</p>}
+            </div>
+          )}
+
+          {/* Phases as they were run */}
+          {session.phases && session.phases.length > 0 && (
+            <div className="mt-3 md:mt-4">
+              <p className="text-slate-400 text-xs uppercase tracking-wider mb-2">Phases</p>
+              <ol className="space-y-1">
+                {session.phases.map((phase, index) => (
+                  <li key={`${phase.phaseId}-${index}`} className="flex justify-between gap-3 text-xs">
+                    <span className="text-slate-300 truncate">{index + 1}. {phase.name}</span>
+                    <span className="text-slate-500 font-mono flex-shrink-0">
+                      {formatDuration(phase.actualSeconds)} / {formatDuration(phase.plannedSeconds)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Transcript - click handlers stop propagation so the card stays expanded */}
+          {session.transcriptId && (
+            <div className="mt-3 md:mt-4" onClick={(e) => e.stopPropagation()}>
+              <button
+                onClick={() => setShowTranscript(!showTranscript)}
+                className="text-xs font-medium text-lime-400 hover:text-lime-300 transition mb-3"
+              >
+                {showTranscript ? 'Hide transcript' : 'Read transcript'}
+              </button>
+              {showTranscript && <SessionTranscriptView transcriptId={session.transcriptId} turnAnalysis={session.turnAnalysis} />}
+            </div>
+          )}
         </div>
       )}
     </div>
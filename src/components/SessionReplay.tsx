@@ -0,0 +1,240 @@
+/**
+ * SessionReplay Component
+ *
+ * Plays back a session recording with the stored transcript highlighted in sync.
+ * Supports seeking, playback speed and jumping straight to a speaker turn.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Headphones, Pause, Play } from 'lucide-react';
+import type { SessionRecording, SessionTranscript } from '../types';
+import { getRecording, getTranscript } from '../services/storageService';
+import { buildReplayTimeline, findActiveIndex, formatReplayTime } from '../utils/replayUtils';
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+interface SessionReplayProps {
+  recordingId: string;
+  transcriptId?: string;
+}
+
+export default function SessionReplay({ recordingId, transcriptId }: SessionReplayProps) {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [transcript, setTranscript] = useState<SessionTranscript | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const turnRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    void Promise.all([
+      getRecording(recordingId),
+      transcriptId ? getTranscript(transcriptId) : Promise.resolve(null),
+    ]).then(([loadedRecording, loadedTranscript]) => {
+      if (cancelled) return;
+      setRecording(loadedRecording);
+      setTranscript(loadedTranscript);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId, transcriptId]);
+
+  // The <audio> element reads the stored Blob through an object URL
+  useEffect(() => {
+    if (!recording) return;
+    const url = URL.createObjectURL(recording.audio);
+    setAudioUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setAudioUrl(null);
+    };
+  }, [recording]);
+
+  // timeupdate only fires a few times a second - follow playback per frame for smooth highlighting
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate, audioUrl]);
+
+  const duration = recording?.durationSeconds ?? 0;
+  const timeline = useMemo(
+    () => (recording && transcript ? buildReplayTimeline(transcript.turns, recording.startedAt, duration) : []),
+    [recording, transcript, duration]
+  );
+  const activeTurn = findActiveIndex(timeline, currentTime);
+
+  // Keep the turn being spoken in view
+  useEffect(() => {
+    const turn = timeline[activeTurn];
+    if (!isPlaying || !turn) return;
+    turnRefs.current.get(turn.index)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeTurn, isPlaying, timeline]);
+
+  const seek = (time: number) => {
+    const clamped = Math.min(duration, Math.max(0, time));
+    if (audioRef.current) audioRef.current.currentTime = clamped;
+    setCurrentTime(clamped);
+  };
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      void audio.play().catch((error) => console.error('Replay failed to start:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const jumpToTurn = (start: number) => {
+    seek(start);
+    void audioRef.current?.play().catch((error) => console.error('Replay failed to start:', error));
+  };
+
+  if (loading) {
+    return <p className="text-slate-500 text-xs italic">Loading recording...</p>;
+  }
+
+  if (!recording) {
+    return <p className="text-slate-500 text-xs italic">Recording not available for this session.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          preload="auto"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+        />
+      )}
+
+      {/* Transport */}
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={togglePlay}
+          className="w-12 h-12 rounded-full bg-lime-400 text-void flex items-center justify-center hover:bg-lime-500 transition flex-shrink-0"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5 ml-0.5" />}
+        </button>
+
+        <div className="flex-1 min-w-[12rem] flex items-center gap-3">
+          <span className="text-slate-400 text-xs font-mono w-10 text-right">{formatReplayTime(currentTime)}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={Math.min(currentTime, duration)}
+            onChange={(event) => seek(Number(event.target.value))}
+            className="flex-1 accent-lime-400"
+            aria-label="Seek"
+          />
+          <span className="text-slate-400 text-xs font-mono w-10">{formatReplayTime(duration)}</span>
+        </div>
+
+        <div className="flex items-center gap-1 bg-void rounded-full p-1 border border-white/5">
+          {PLAYBACK_RATES.map((rate) => (
+            <button
+              key={rate}
+              onClick={() => setPlaybackRate(rate)}
+              className={`px-2.5 py-1 rounded-full text-xs font-bold transition ${
+                playbackRate === rate ? 'bg-lime-400 text-void' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {rate}×
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Transcript in sync */}
+      {timeline.length === 0 ? (
+        <p className="text-slate-500 text-xs italic">No transcript was saved with this recording.</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto scrollbar-thin pr-2">
+          {timeline.map((turn, position) => {
+            const isUser = turn.role === 'user';
+            const isActive = position === activeTurn;
+            return (
+              <div
+                key={turn.index}
+                ref={(element) => {
+                  if (element) turnRefs.current.set(turn.index, element);
+                  else turnRefs.current.delete(turn.index);
+                }}
+                className={`rounded-xl p-3 border transition ${
+                  isUser ? 'bg-lime-400/5 border-lime-400/20' : 'bg-purple-400/5 border-purple-400/20'
+                } ${isActive ? 'ring-1 ring-white/30' : 'opacity-80'}`}
+              >
+                <button
+                  onClick={() => jumpToTurn(turn.start)}
+                  className="w-full flex justify-between items-center mb-1 group"
+                  title="Play from this turn"
+                >
+                  <span
+                    className={`text-[10px] uppercase tracking-[0.2em] font-semibold ${
+                      isUser ? 'text-lime-400' : 'text-purple-400'
+                    }`}
+                  >
+                    {isUser ? 'You' : 'AI'}
+                  </span>
+                  <span className="flex items-center gap-1 text-slate-500 text-[10px] font-mono group-hover:text-white transition">
+                    <Play className="w-3 h-3" />
+                    {formatReplayTime(turn.start)}
+                  </span>
+                </button>
+                <p className="text-sm leading-relaxed">
+                  {turn.words.map((word, wordIndex) => {
+                    const spoken = currentTime >= word.end;
+                    const current = isActive && currentTime >= word.start && !spoken;
+                    return (
+                      <span
+                        key={wordIndex}
+                        className={`rounded px-0.5 transition-colors ${
+                          current
+                            ? isUser ? 'bg-lime-400/30 text-white' : 'bg-purple-400/30 text-white'
+                            : spoken ? 'text-white' : 'text-slate-400'
+                        }`}
+                      >
+                        {word.text}{' '}
+                      </span>
+                    );
+                  })}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-slate-500 text-[10px] uppercase tracking-wider">
+        <Headphones className="w-3 h-3" />
+        <span>Recorded locally on this device</span>
+      </div>
+    </div>
+  );
+}
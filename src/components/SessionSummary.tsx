@@ -2,8 +2,13 @@
  * SessionSummary component - Displays post-debate analysis and performance metrics
  */
 
-import { DebateAnalysis } from '../types';
+import type { DebateAnalysis, SessionHistoryItem } from '../types';
 import ConfidenceLevelCard from './ConfidenceLevelCard';
+import SessionReplay from './SessionReplay';
+import TurnTimeline from './TurnTimeline';
+import SpeechMetricsCard from './SpeechMetricsCard';
+import { getRubrics } from '../services/rubricService';
+import { getScoreBand } from '../utils/rubrics';
 
 /**
  * Props for SessionSummary component
@@ -11,6 +16,9 @@ import ConfidenceLevelCard from './ConfidenceLevelCard';
 interface SessionSummaryProps {
   analysis: DebateAnalysis;
   onBack: () => void;
+  session?: SessionHistoryItem; // set when reopening a past session from history
+  savedSession?: SessionHistoryItem; // stored item for this analysis: the past session, or the one just saved
+  backLabel?: string;
 }
 
 /**
@@ -45,12 +53,43 @@ function MetricBar({ label, score, color = 'bg-lime-400' }: MetricBarProps) {
 /**
  * SessionSummary component - Displays comprehensive debate analysis
  */
-export default function SessionSummary({ analysis, onBack }: SessionSummaryProps) {
+export default function SessionSummary({
+  analysis,
+  onBack,
+  session,
+  savedSession,
+  backLabel = 'Return to Dashboard',
+}: SessionSummaryProps) {
+  // Sessions scored with a rubric show its criteria; older ones show the fixed skill bars
+  const criterionScores = analysis.criterionScores ?? [];
+  const totalWeight = criterionScores.reduce((sum, entry) => sum + entry.weight, 0);
+  const rubric = getRubrics().find(r => r.id === analysis.rubricId);
+  const band = rubric ? getScoreBand(rubric.bands, analysis.score) : undefined;
+
   return (
     <div className="w-full h-full overflow-y-auto p-4 md:p-8 scrollbar-thin">
       {/* Grid layout for analysis display */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-7xl mx-auto">
 
+        {/* Past session header */}
+        {session && (
+          <div className="md:col-span-3 flex flex-wrap items-end justify-between gap-2">
+            <div>
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Past Session</span>
+              <h2 className="text-white text-2xl font-bold">{session.topic}</h2>
+            </div>
+            <span className="text-slate-400 text-sm">
+              {new Date(session.date).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </span>
+          </div>
+        )}
+
         {/* Large Score Card - Requirements 10.2 */}
         <div className="relative bg-lime-400 rounded-[2.5rem] p-8 overflow-hidden">
           {/* Decorative circular elements */}
@@ -68,6 +107,11 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
                 {analysis.confidenceLevel}
               </span>
             </div>
+            {band && (
+              <p className="text-void/80 text-sm font-medium mt-3" title={band.description}>
+                {band.label} on the {rubric?.name} rubric
+              </p>
+            )}
 
             {/* Additional decorative dot pattern */}
             <div
@@ -153,20 +197,38 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
           </div>
         </div>
 
-        {/* Linguistics Card - Requirements 10.4 */}
-        <div className="bg-card border border-white/5 rounded-[2rem] p-8">
-          <h3 className="text-white text-xl font-bold mb-6">Linguistics</h3>
-          <MetricBar label="Vocabulary" score={analysis.vocabularyScore} color="bg-lime-400" />
-          <MetricBar label="Clarity" score={analysis.clarityScore} color="bg-lime-400" />
-        </div>
+        {/* Rubric Criteria Card, or the fixed skill cards for sessions scored before rubrics */}
+        {criterionScores.length > 0 ? (
+          <div className="bg-card border border-white/5 rounded-[2rem] p-8 md:col-span-2">
+            <h3 className="text-white text-xl font-bold mb-1">{analysis.rubricName ?? 'Rubric'} Criteria</h3>
+            <p className="text-slate-400 text-sm mb-6">Overall score is the weighted average of these criteria</p>
+            {criterionScores.map((entry) => (
+              <MetricBar
+                key={entry.criterionId}
+                label={`${entry.name} · ${totalWeight > 0 ? Math.round((entry.weight / totalWeight) * 100) : 0}%`}
+                score={entry.score}
+                color="bg-lime-400"
+              />
+            ))}
+          </div>
+        ) : (
+          <>
+            {/* Linguistics Card - Requirements 10.4 */}
+            <div className="bg-card border border-white/5 rounded-[2rem] p-8">
+              <h3 className="text-white text-xl font-bold mb-6">Linguistics</h3>
+              <MetricBar label="Vocabulary" score={analysis.vocabularyScore} color="bg-lime-400" />
+              <MetricBar label="Clarity" score={analysis.clarityScore} color="bg-lime-400" />
+            </div>
 
-        {/* Strategy Card - Requirements 10.4 */}
-        <div className="bg-card border border-white/5 rounded-[2rem] p-8">
-          <h3 className="text-white text-xl font-bold mb-6">Strategy</h3>
-          <MetricBar label="Argument Strength" score={analysis.argumentStrength} color="bg-emerald-500" />
-          <MetricBar label="Persuasion" score={analysis.persuasionScore} color="bg-emerald-500" />
-          <MetricBar label="Adaptability" score={analysis.strategicAdaptability} color="bg-emerald-500" />
-        </div>
+            {/* Strategy Card - Requirements 10.4 */}
+            <div className="bg-card border border-white/5 rounded-[2rem] p-8">
+              <h3 className="text-white text-xl font-bold mb-6">Strategy</h3>
+              <MetricBar label="Argument Strength" score={analysis.argumentStrength} color="bg-emerald-500" />
+              <MetricBar label="Persuasion" score={analysis.persuasionScore} color="bg-emerald-500" />
+              <MetricBar label="Adaptability" score={analysis.strategicAdaptability} color="bg-emerald-500" />
+            </div>
+          </>
+        )}
 
         {/* Strengths Card - Requirements 10.5 */}
         <div className="bg-card border border-white/5 rounded-[2rem] p-8">
@@ -196,8 +258,44 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
           </ul>
         </div>
 
+        {/* Weaknesses Card */}
+        <div className="bg-card border border-white/5 rounded-[2rem] p-8">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 bg-red-400/10 border border-red-400/30 rounded-xl flex items-center justify-center">
+              <svg className="w-5 h-5 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <h3 className="text-white text-xl font-bold">Areas to Improve</h3>
+          </div>
+          <ul className="space-y-3">
+            {analysis?.weaknesses && analysis.weaknesses.length > 0 ? (
+              analysis.weaknesses.map((weakness, index) => (
+                <li key={index} className="flex items-start gap-3">
+                  <span className="w-1.5 h-1.5 rounded-full bg-red-400 flex-shrink-0 mt-2" />
+                  <span className="text-slate-300 text-sm leading-relaxed">{weakness}</span>
+                </li>
+              ))
+            ) : (
+              <li className="text-slate-400 text-sm italic">No weaknesses identified</li>
+            )}
+          </ul>
+        </div>
+
+        {/* Emotional State Card */}
+        <div className="bg-card border border-white/5 rounded-[2rem] p-8">
+          <h3 className="text-white text-xl font-bold mb-6">Emotional State</h3>
+          <div className="flex items-center justify-center">
+            <div className="px-6 py-3 bg-indigo-400/10 border-2 border-indigo-400/30 rounded-2xl">
+              <span className="text-indigo-400 text-2xl font-bold uppercase tracking-wider">
+                {analysis.emotionalState || 'Unknown'}
+              </span>
+            </div>
+          </div>
+        </div>
+
         {/* Suggestions Card - Requirements 10.6 */}
-        <div className="bg-card border border-white/5 rounded-[2rem] p-8 md:col-span-2">
+        <div className="bg-card border border-white/5 rounded-[2rem] p-8 md:col-span-3">
           <div className="flex items-center gap-3 mb-6">
             <div className="w-10 h-10 bg-amber-400/10 border border-amber-400/30 rounded-xl flex items-center justify-center">
               <svg className="w-5 h-5 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -218,13 +316,37 @@ export default function SessionSummary({ analysis, onBack }: SessionSummaryProps
           </ul>
         </div>
 
+        {/* Delivery Metrics */}
+        {savedSession?.speechMetrics && (
+          <div className="bg-card border border-white/5 rounded-[2rem] p-8 md:col-span-3">
+            <h3 className="text-white text-xl font-bold mb-6">Delivery</h3>
+            <SpeechMetricsCard metrics={savedSession.speechMetrics} />
+          </div>
+        )}
+
+        {/* Turn-by-turn Timeline */}
+        {analysis.turnAnalysis && analysis.turnAnalysis.length > 0 && (
+          <div className="bg-card border border-white/5 rounded-[2rem] p-8 md:col-span-3">
+            <h3 className="text-white text-xl font-bold mb-2">Turn by Turn</h3>
+            <TurnTimeline turns={analysis.turnAnalysis} />
+          </div>
+        )}
+
+        {/* Replay Card */}
+        {savedSession?.recordingId && (
+          <div className="bg-card border border-white/5 rounded-[2rem] p-8 md:col-span-3">
+            <h3 className="text-white text-xl font-bold mb-6">Listen Back</h3>
+            <SessionReplay recordingId={savedSession.recordingId} transcriptId={savedSession.transcriptId} />
+          </div>
+        )}
+
         {/* Return to Dashboard Button - Requirements 10.7 */}
         <div className="md:col-span-3 flex justify-center">
           <button
             onClick={onBack}
             className="px-8 py-4 bg-lime-400 text-void font-bold rounded-xl hover:bg-lime-500 transition shadow-lg shadow-lime-400/10"
           >
-            Return to Dashboard
+            {backLabel}
           </button>
         </div>
 
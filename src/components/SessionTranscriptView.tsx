@@ -0,0 +1,121 @@
+/**
+ * SessionTranscriptView Component
+ *
+ * Shows the stored transcript of a past session, grouped into speaker turns.
+ * User turns are tagged with the fallacies found by the analysis, with the quoted words highlighted.
+ */
+
+import { useEffect, useState } from 'react';
+import { MessageSquare } from 'lucide-react';
+import type { DetectedFallacy, SessionTranscript, TurnAnalysis } from '../types';
+import { getTranscript } from '../services/storageService';
+import { getTurnText } from '../utils/transcriptUtils';
+import { getFallacy, splitByFallacyQuotes } from '../utils/fallacies';
+
+interface SessionTranscriptViewProps {
+  transcriptId: string;
+  turnAnalysis?: TurnAnalysis[];
+}
+
+export default function SessionTranscriptView({ transcriptId, turnAnalysis = [] }: SessionTranscriptViewProps) {
+  const [transcript, setTranscript] = useState<SessionTranscript | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    void getTranscript(transcriptId).then((loaded) => {
+      if (cancelled) return;
+      setTranscript(loaded);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transcriptId]);
+
+  const formatOffset = (timestamp: number, start: number) => {
+    const seconds = Math.max(0, Math.floor((timestamp - start) / 1000));
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  if (loading) {
+    return <p className="text-slate-500 text-xs italic">Loading transcript...</p>;
+  }
+
+  if (!transcript || transcript.turns.length === 0) {
+    return (
+      <p className="text-slate-500 text-xs italic">Transcript not available for this session.</p>
+    );
+  }
+
+  const sessionStart = transcript.turns[0]?.startTime ?? 0;
+  const fallaciesByTurn = new Map<number, DetectedFallacy[]>(
+    turnAnalysis.map(analysis => [analysis.turnIndex, analysis.fallacies])
+  );
+
+  return (
+    <div className="space-y-3 max-h-80 overflow-y-auto scrollbar-thin pr-2">
+      <div className="flex items-center gap-2 text-slate-400 text-xs uppercase tracking-wider">
+        <MessageSquare className="w-3 h-3" />
+        <span>Transcript ({transcript.turns.length} turns)</span>
+      </div>
+      {transcript.turns.map((turn) => {
+        const fallacies = turn.role === 'user' ? fallaciesByTurn.get(turn.index) ?? [] : [];
+        return (
+          <div
+            key={turn.index}
+            className={`rounded-xl p-3 border ${
+              turn.role === 'user'
+                ? 'bg-lime-400/5 border-lime-400/20'
+                : 'bg-purple-400/5 border-purple-400/20'
+            }`}
+          >
+            <div className="flex justify-between items-center mb-1">
+              <span
+                className={`text-[10px] uppercase tracking-[0.2em] font-semibold ${
+                  turn.role === 'user' ? 'text-lime-400' : 'text-purple-400'
+                }`}
+              >
+                {turn.role === 'user' ? 'You' : 'AI'}
+              </span>
+              <span className="text-slate-500 text-[10px] font-mono">
+                {formatOffset(turn.startTime, sessionStart)}
+              </span>
+            </div>
+            <p className="text-slate-300 text-sm leading-relaxed">
+              {splitByFallacyQuotes(getTurnText(turn), fallacies).map((segment, index) =>
+                segment.fallacy ? (
+                  <mark
+                    key={index}
+                    className="bg-amber-400/20 text-amber-200 rounded px-0.5"
+                    title={`${getFallacy(segment.fallacy.type).name}: ${segment.fallacy.explanation}`}
+                  >
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </p>
+            {fallacies.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-2">
+                {fallacies.map((fallacy, index) => (
+                  <span
+                    key={index}
+                    className="px-2 py-0.5 rounded-full bg-amber-400/10 border border-amber-400/30 text-amber-400 text-[10px] font-semibold"
+                    title={fallacy.explanation}
+                  >
+                    {getFallacy(fallacy.type).name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
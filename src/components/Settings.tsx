@@ -2,7 +2,19 @@
  * Settings component - Allows users to configure API key and model selection
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  AVAILABLE_MODELS,
+  CAPTURE_CHUNK_MS_RANGE,
+  DEFAULT_SETTINGS,
+  SUPPORTED_API_VERSIONS,
+  loadSettings,
+  saveSettings,
+  validateSettings,
+} from '../services/settingsService';
+import DataTransferSection from './DataTransferSection';
+import RubricEditorSection from './RubricEditorSection';
+import OpponentEditorSection from './OpponentEditorSection';
 
 /**
  * Props for Settings component
@@ -11,89 +23,48 @@ interface SettingsProps {
   onBack: () => void;
 }
 
-/**
- * Model configuration interface
- */
-interface ModelConfig {
-  id: string;
-  name: string;
-  description: string;
-  supportsLiveAPI: boolean;
-  category: 'latest' | 'stable' | 'experimental';
-}
-
-/**
- * Available Gemini models
- */
-const AVAILABLE_MODELS: ModelConfig[] = [
-  // Models with Live API support (for real-time debate)
-  {
-    id: 'gemini-2.0-flash-exp',
-    name: 'Gemini 2.0 Flash (Experimental)',
-    description: 'Latest experimental version with Live API support. Fast and efficient for real-time conversations.',
-    supportsLiveAPI: true,
-    category: 'experimental',
-  },
-  {
-    id: 'gemini-2.0-flash',
-    name: 'Gemini 2.0 Flash',
-    description: 'Stable version with Live API support. Recommended for production use.',
-    supportsLiveAPI: true,
-    category: 'stable',
-  },
-  // Models for analysis only (no Live API)
-  {
-    id: 'gemini-3-pro-preview',
-    name: 'Gemini 3 Pro (Preview)',
-    description: 'Most advanced model for analysis. Best for detailed feedback and insights.',
-    supportsLiveAPI: false,
-    category: 'latest',
-  },
-  {
-    id: 'gemini-2.5-pro',
-    name: 'Gemini 2.5 Pro',
-    description: 'Advanced thinking model for complex analysis and reasoning.',
-    supportsLiveAPI: false,
-    category: 'stable',
-  },
-  {
-    id: 'gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    description: 'Fast and intelligent model for quick analysis.',
-    supportsLiveAPI: false,
-    category: 'stable',
-  },
-];
-
 /**
  * Settings component
  */
 export default function Settings({ onBack }: SettingsProps) {
   const [apiKey, setApiKey] = useState<string>('');
-  const [liveModel, setLiveModel] = useState<string>('gemini-2.0-flash-exp');
-  const [analysisModel, setAnalysisModel] = useState<string>('gemini-2.5-flash');
+  const [liveModel, setLiveModel] = useState<string>(DEFAULT_SETTINGS.liveModel);
+  const [analysisModel, setAnalysisModel] = useState<string>(DEFAULT_SETTINGS.analysisModel);
+  const [apiVersion, setApiVersion] = useState<string>(DEFAULT_SETTINGS.apiVersion);
+  const [host, setHost] = useState<string>(DEFAULT_SETTINGS.host);
+  const [captureChunkMs, setCaptureChunkMs] = useState<number>(DEFAULT_SETTINGS.captureChunkMs);
   const [showApiKey, setShowApiKey] = useState<boolean>(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  // Bumped by an import so the sections that keep stored lists in state read them again
+  const [importCount, setImportCount] = useState<number>(0);
+
+  const applySavedSettings = () => {
+    const saved = loadSettings();
+
+    setApiKey(saved.apiKey);
+    setLiveModel(saved.liveModel);
+    setAnalysisModel(saved.analysisModel);
+    setApiVersion(saved.apiVersion);
+    setHost(saved.host);
+    setCaptureChunkMs(saved.captureChunkMs);
+  };
 
   // Load settings on mount
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('debate_master_api_key') || '';
-    const savedLiveModel = localStorage.getItem('debate_master_live_model') || 'gemini-2.0-flash-exp';
-    const savedAnalysisModel = localStorage.getItem('debate_master_analysis_model') || 'gemini-2.5-flash';
-
-    setApiKey(savedApiKey);
-    setLiveModel(savedLiveModel);
-    setAnalysisModel(savedAnalysisModel);
+    applySavedSettings();
   }, []);
 
+  // Validate the current selection so problems show up here rather than mid-debate
+  const issues = useMemo(
+    () => validateSettings({ apiKey, liveModel, analysisModel, apiVersion, host, captureChunkMs }),
+    [apiKey, liveModel, analysisModel, apiVersion, host, captureChunkMs]
+  );
+
   // Handle save settings
   const handleSave = () => {
     setSaveStatus('saving');
 
-    // Save to localStorage
-    localStorage.setItem('debate_master_api_key', apiKey);
-    localStorage.setItem('debate_master_live_model', liveModel);
-    localStorage.setItem('debate_master_analysis_model', analysisModel);
+    saveSettings({ apiKey, liveModel, analysisModel, apiVersion, host: host.trim(), captureChunkMs });
 
     // Show saved status
     setTimeout(() => {
@@ -307,6 +278,89 @@ export default function Settings({ onBack }: SettingsProps) {
           </div>
         </div>
 
+        {/* Connection Section */}
+        <div className="bg-card border border-white/5 rounded-[2rem] p-8 mb-6">
+          <div className="flex items-start gap-3 mb-6">
+            <div className="w-10 h-10 bg-amber-400/10 border border-amber-400/30 rounded-xl flex items-center justify-center flex-shrink-0">
+              <svg className="w-5 h-5 text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+              </svg>
+            </div>
+            <div className="flex-1">
+              <h2 className="text-white text-xl font-bold mb-2">Connection</h2>
+              <p className="text-slate-400 text-sm">
+                Live API endpoint used for real-time debates. Leave the defaults unless you are pointing at a different server.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">API Version</label>
+              <select
+                value={apiVersion}
+                onChange={(e) => setApiVersion(e.target.value)}
+                className="w-full bg-void/50 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-lime-400 transition font-mono text-sm"
+              >
+                {SUPPORTED_API_VERSIONS.map((version) => (
+                  <option key={version} value={version}>{version}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Host</label>
+              <input
+                type="text"
+                value={host}
+                onChange={(e) => setHost(e.target.value)}
+                placeholder={DEFAULT_SETTINGS.host}
+                className="w-full bg-void/50 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-lime-400 transition font-mono text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-slate-400 text-xs font-medium mb-1 block">Audio Chunk (ms)</label>
+              <input
+                type="number"
+                min={CAPTURE_CHUNK_MS_RANGE.min}
+                max={CAPTURE_CHUNK_MS_RANGE.max}
+                step={10}
+                value={captureChunkMs}
+                onChange={(e) => setCaptureChunkMs(Number(e.target.value))}
+                className="w-full bg-void/50 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-lime-400 transition font-mono text-sm"
+              />
+            </div>
+            <p className="md:col-span-2 self-end text-slate-500 text-xs pb-3">
+              Microphone audio sent per message. Smaller chunks react faster; larger ones send fewer messages.
+            </p>
+          </div>
+        </div>
+
+        {/* Scoring Rubrics Section */}
+        <RubricEditorSection key={importCount} />
+
+        {/* AI Opponents Section */}
+        <OpponentEditorSection key={importCount} />
+
+        {/* Export / Import Section */}
+        <DataTransferSection
+          onImported={(summary) => {
+            if (summary.settingsImported) applySavedSettings();
+            setImportCount((count) => count + 1);
+          }}
+        />
+
+        {/* Validation Issues */}
+        {issues.length > 0 && (
+          <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl">
+            <p className="text-red-400 font-semibold text-sm mb-2">These settings can't be used for a debate:</p>
+            <ul className="list-disc list-inside space-y-1">
+              {issues.map((issue) => (
+                <li key={`${issue.field}-${issue.message}`} className="text-red-300 text-sm">{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Save Button */}
         <div className="flex items-center justify-between gap-4">
           <button
@@ -317,9 +371,9 @@ export default function Settings({ onBack }: SettingsProps) {
           </button>
           <button
             onClick={handleSave}
-            disabled={!apiKey.trim() || saveStatus === 'saving'}
+            disabled={!apiKey.trim() || issues.length > 0 || saveStatus === 'saving'}
             className={`px-8 py-3 font-bold rounded-xl transition ${
-              !apiKey.trim() || saveStatus === 'saving'
+              !apiKey.trim() || issues.length > 0 || saveStatus === 'saving'
                 ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
                 : saveStatus === 'saved'
                 ? 'bg-emerald-500 text-white'
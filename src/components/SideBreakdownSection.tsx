@@ -0,0 +1,91 @@
+/**
+ * SideBreakdownSection Component
+ *
+ * Compares performance when arguing Pro versus Con.
+ * Sessions recorded before side selection existed are not counted.
+ */
+
+import type { SideBreakdown } from '../utils/statisticsUtils';
+import { SIDE_LABELS } from '../utils/motionUtils';
+
+interface SideBreakdownSectionProps {
+  breakdown: SideBreakdown[];
+}
+
+const SIDE_STYLES = {
+  pro: { text: 'text-lime-400', border: 'border-lime-400/30', bar: 'bg-lime-400' },
+  con: { text: 'text-rose-400', border: 'border-rose-400/30', bar: 'bg-rose-400' },
+} as const;
+
+export default function SideBreakdownSection({ breakdown }: SideBreakdownSectionProps) {
+  const totalSided = breakdown.reduce((sum, entry) => sum + entry.sessions, 0);
+  if (totalSided === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card border border-white/5 rounded-[2rem] p-6 md:p-8 hover:border-white/10 transition-colors duration-300">
+      <h2 className="text-xl md:text-2xl font-bold text-white mb-6">
+        ⚖️ Performance by Side
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {breakdown.map((entry) => {
+          const styles = SIDE_STYLES[entry.side];
+          const metrics = [
+            { label: 'Argument strength', value: entry.averageArgumentStrength },
+            { label: 'Persuasion', value: entry.averagePersuasion },
+          ];
+
+          return (
+            <div key={entry.side} className={`border-2 ${styles.border} rounded-2xl p-4 md:p-6`}>
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h3 className={`text-lg font-bold ${styles.text}`}>{SIDE_LABELS[entry.side]}</h3>
+                  <p className="text-xs md:text-sm text-slate-400">
+                    {entry.sessions} {entry.sessions === 1 ? 'session' : 'sessions'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className={`text-3xl md:text-4xl font-black ${styles.text}`}>
+                    {entry.averageScore ?? '—'}
+                  </div>
+                  <div className="text-xs text-slate-400 font-medium uppercase tracking-wider">Avg score</div>
+                </div>
+              </div>
+
+              {entry.sessions === 0 ? (
+                <p className="text-sm text-slate-500">
+                  No debates on this side yet. Pick {SIDE_LABELS[entry.side]} on the dashboard to compare.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {metrics.map((metric) => (
+                    <div key={metric.label} className="space-y-1">
+                      <div className="flex justify-between text-xs text-slate-400">
+                        <span>{metric.label}</span>
+                        <span>{metric.value ?? '—'}</span>
+                      </div>
+                      <div className="h-2 bg-void rounded-full border border-white/5 overflow-hidden">
+                        <div
+                          className={`h-full ${styles.bar} rounded-full transition-all duration-1000`}
+                          style={{ width: `${metric.value ?? 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {totalSided < 4 && (
+        <p className="text-sm text-slate-400 mt-4 text-center">
+          Debate both sides a few times for a fair comparison.
+        </p>
+      )}
+    </div>
+  );
+}
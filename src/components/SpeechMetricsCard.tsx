@@ -0,0 +1,73 @@
+/**
+ * SpeechMetricsCard Component
+ *
+ * Shows the locally computed delivery metrics of a session: speaking rate, filler words,
+ * longest pause, talk-time split, interruptions and vocabulary richness.
+ */
+
+import type { SpeechMetrics } from '../types';
+
+interface SpeechMetricsCardProps {
+  metrics: SpeechMetrics;
+}
+
+interface MetricTileProps {
+  label: string;
+  value: string;
+  hint: string;
+}
+
+function MetricTile({ label, value, hint }: MetricTileProps) {
+  return (
+    <div className="bg-void border border-white/5 rounded-2xl p-4">
+      <div className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-2">{label}</div>
+      <div className="text-white text-2xl font-black">{value}</div>
+      <div className="text-slate-500 text-xs mt-1">{hint}</div>
+    </div>
+  );
+}
+
+export default function SpeechMetricsCard({ metrics }: SpeechMetricsCardProps) {
+  const userShare = metrics.talkRatio === null ? null : Math.round(metrics.talkRatio * 100);
+  const topFillers = metrics.topFillers.map(entry => `"${entry.filler}" ×${entry.count}`).join(', ');
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <MetricTile
+          label="Speaking Rate"
+          value={metrics.wordsPerMinute === null ? '—' : `${metrics.wordsPerMinute} wpm`}
+          hint={`${metrics.userWords} words in ${metrics.userSpeakingSeconds}s · 130-160 is conversational`}
+        />
+        <MetricTile
+          label="Filler Words"
+          value={metrics.fillersPer100Words === null ? '—' : `${metrics.fillersPer100Words} / 100`}
+          hint={topFillers || 'No fillers detected'}
+        />
+        <MetricTile
+          label="Longest Pause"
+          value={metrics.longestPauseSeconds === null ? '—' : `${metrics.longestPauseSeconds}s`}
+          hint="Silence inside one of your turns"
+        />
+        <MetricTile
+          label="Talk Time"
+          value={userShare === null ? '—' : `${userShare}% you`}
+          hint={`You ${metrics.userSpeakingSeconds}s · AI ${metrics.modelSpeakingSeconds}s`}
+        />
+        <MetricTile
+          label="Interruptions"
+          value={`${metrics.interruptions}`}
+          hint="Times you spoke over the AI"
+        />
+        <MetricTile
+          label="Vocabulary Richness"
+          value={metrics.typeTokenRatio === null ? '—' : `${Math.round(metrics.typeTokenRatio * 100)}%`}
+          hint="Distinct words out of all words you used"
+        />
+      </div>
+      <p className="text-slate-500 text-xs mt-4">
+        Measured on this device from the transcript and microphone activity, not by the AI.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SessionHistoryItem } from '../types';
+import { type SpeechChartDataPoint, transformSessionsToSpeechData } from '../utils/chartUtils';
+
+interface SpeechMetricsChartProps {
+  sessions: SessionHistoryItem[];
+}
+
+type SpeechChartKey = Exclude<keyof SpeechChartDataPoint, 'date' | 'topic' | 'dateValue'>;
+
+const METRICS: { key: SpeechChartKey; label: string; unit: string; color: string }[] = [
+  { key: 'wordsPerMinute', label: 'Speaking rate', unit: 'wpm', color: '#a3e635' },
+  { key: 'fillersPer100Words', label: 'Fillers', unit: 'per 100 words', color: '#fbbf24' },
+  { key: 'talkSharePercent', label: 'Talk share', unit: '% of talk time', color: '#38bdf8' },
+  { key: 'vocabularyRichnessPercent', label: 'Vocabulary richness', unit: '% distinct words', color: '#c084fc' },
+  { key: 'interruptions', label: 'Interruptions', unit: 'per session', color: '#f87171' },
+];
+
+/**
+ * Delivery metrics over time, one metric at a time
+ */
+export default function SpeechMetricsChart({ sessions }: SpeechMetricsChartProps) {
+  const [selected, setSelected] = useState<SpeechChartKey>('wordsPerMinute');
+  const chartData = transformSessionsToSpeechData(sessions);
+  const metric = METRICS.find(m => m.key === selected) ?? METRICS[0]!;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {METRICS.map(m => (
+          <button
+            key={m.key}
+            onClick={() => setSelected(m.key)}
+            className={`px-3 py-1.5 rounded-xl text-xs md:text-sm font-medium transition-all duration-300 ${
+              selected === m.key
+                ? 'bg-lime-400 text-void'
+                : 'bg-void text-slate-400 hover:text-white border border-white/10'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {chartData.length < 2 ? (
+        <div className="flex items-center justify-center h-48 md:h-64 text-slate-400">
+          <div className="text-center px-4">
+            <p className="text-base md:text-lg font-medium">Not enough data yet</p>
+            <p className="text-xs md:text-sm mt-2">Complete at least 2 voice sessions to see your delivery trend</p>
+          </div>
+        </div>
+      ) : (
+        <div className="w-full h-48 md:h-64 lg:h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={chartData}
+              margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.3} />
+              <XAxis
+                dataKey="date"
+                stroke="#94a3b8"
+                style={{ fontSize: '10px' }}
+                tick={{ fontSize: 10 }}
+              />
+              <YAxis
+                stroke="#94a3b8"
+                style={{ fontSize: '10px' }}
+                tick={{ fontSize: 10 }}
+                allowDecimals={selected === 'fillersPer100Words'}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1e1e21',
+                  border: '1px solid #334155',
+                  borderRadius: '0.5rem',
+                  color: '#ffffff'
+                }}
+                labelStyle={{ color: metric.color }}
+                formatter={(value: number, _name: string, props: any) => {
+                  return [
+                    <span key="value">
+                      {metric.label}: <span className="font-bold" style={{ color: metric.color }}>{value}</span> {metric.unit}
+                    </span>,
+                    <span key="topic" className="block text-sm text-slate-400 mt-1">
+                      {props.payload.topic}
+                    </span>
+                  ];
+                }}
+                labelFormatter={(label) => `Date: ${label}`}
+              />
+              <Line
+                type="monotone"
+                dataKey={selected}
+                stroke={metric.color}
+                strokeWidth={2}
+                dot={{ fill: metric.color, r: 4 }}
+                activeDot={{ r: 6 }}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
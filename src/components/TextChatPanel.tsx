@@ -0,0 +1,100 @@
+/**
+ * TextChatPanel Component
+ *
+ * Chat view for typed debates, shown in place of the voice visualizer: the assembled
+ * turns as bubbles and a box to type the next argument in.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Send } from 'lucide-react';
+import type { ChatMessage } from '../types';
+
+interface TextChatPanelProps {
+  messages: ChatMessage[];
+  /** The user's last message hasn't been answered yet */
+  awaitingReply: boolean;
+  /** Why typing is unavailable right now, e.g. during prep time; null when it is */
+  disabledReason: string | null;
+  /** Sends a typed turn; returns false when it couldn't be sent */
+  onSend: (text: string) => boolean;
+}
+
+export default function TextChatPanel({ messages, awaitingReply, disabledReason, onSend }: TextChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const turns = messages.filter(message => message.role !== 'system');
+
+  // Keep the latest turn in view as replies stream in
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [turns.length, turns[turns.length - 1]?.text, awaitingReply]);
+
+  const send = () => {
+    if (!draft.trim() || disabledReason) return;
+    if (onSend(draft)) setDraft('');
+  };
+
+  return (
+    <div className="absolute inset-x-0 top-24 bottom-24 z-20 flex flex-col px-4">
+      <div className="w-full max-w-2xl mx-auto flex-1 min-h-0 flex flex-col">
+        {/* Conversation */}
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-custom space-y-3 pr-1" aria-live="polite">
+          {turns.length === 0 && !awaitingReply && (
+            <p className="text-slate-500 text-sm text-center mt-12">Type your opening argument to start the debate.</p>
+          )}
+          {turns.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] px-4 py-3 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap ${
+                  message.role === 'user'
+                    ? 'bg-lime-400 text-void rounded-br-md'
+                    : 'bg-slate-900/80 border border-slate-700/50 text-slate-100 rounded-bl-md'
+                }`}
+              >
+                {message.text}
+                {message.interrupted && <span className="text-slate-500"> …</span>}
+              </div>
+            </div>
+          ))}
+          {awaitingReply && (
+            <div className="flex justify-start">
+              <div className="px-4 py-3 rounded-2xl rounded-bl-md bg-slate-900/80 border border-slate-700/50 text-slate-400 text-sm animate-pulse">
+                Thinking...
+              </div>
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+
+        {/* Composer - Enter sends, Shift+Enter starts a new line */}
+        <div className="mt-4 flex items-end gap-2 p-2 bg-slate-900/80 backdrop-blur-md border border-slate-700/50 rounded-2xl focus-within:border-lime-400/50 transition">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                send();
+              }
+            }}
+            rows={2}
+            placeholder={disabledReason ?? 'Type your argument...'}
+            disabled={!!disabledReason}
+            aria-label="Your argument"
+            autoFocus
+            className="flex-1 resize-none bg-transparent px-2 py-1.5 text-sm text-white placeholder-slate-500 focus:outline-none disabled:opacity-50"
+          />
+          <button
+            onClick={send}
+            disabled={!draft.trim() || !!disabledReason}
+            className="p-2.5 rounded-xl bg-lime-400 text-void hover:bg-lime-500 transition disabled:bg-slate-700 disabled:text-slate-500"
+            aria-label="Send argument"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,10 @@
  * Shows topic, score, and date for each top performer.
  */
 
-import { SessionHistoryItem } from '../types';
+import type { ScoredSession } from '../utils/statisticsUtils';
 
 interface TopPerformersSectionProps {
-  sessions: SessionHistoryItem[];
+  sessions: ScoredSession[];
 }
 
 export default function TopPerformersSection({ sessions }: TopPerformersSectionProps) {
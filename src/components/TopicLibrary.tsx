@@ -0,0 +1,281 @@
+/**
+ * TopicLibrary Component
+ *
+ * Dialog for picking a debate topic: the built-in library filtered by search, category and
+ * difficulty, the user's favourite and recent topics, a random "Surprise me" pick and
+ * AI-generated motions. Topics already debated are marked and skipped by default.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { BookOpen, Check, Dices, Loader2, Search, Sparkles, Star, X } from 'lucide-react';
+import type { LibraryTopic, SessionHistoryItem, TopicCategory, TopicDifficulty } from '../types';
+import { generateMotion, loadFavoriteTopics, loadRecentTopics, toggleFavoriteTopic } from '../services/topicService';
+import {
+  TOPIC_CATEGORIES,
+  TOPIC_DIFFICULTIES,
+  TOPIC_LIBRARY,
+  filterTopics,
+  getDebatedTopics,
+  isTopicDebated,
+  normalizeTopic,
+  pickSurpriseTopic,
+} from '../utils/topicLibrary';
+
+type LibraryTab = 'library' | 'favorites' | 'recent';
+
+const TABS: { value: LibraryTab; label: string }[] = [
+  { value: 'library', label: 'Library' },
+  { value: 'favorites', label: 'Favourites' },
+  { value: 'recent', label: 'Recent' },
+];
+
+const DIFFICULTY_COLORS: Record<TopicDifficulty, string> = {
+  beginner: 'bg-emerald-400/10 text-emerald-400',
+  intermediate: 'bg-amber-400/10 text-amber-400',
+  advanced: 'bg-red-400/10 text-red-400',
+};
+
+interface TopicLibraryProps {
+  history: SessionHistoryItem[];
+  onSelect: (topic: string) => void;
+  onClose: () => void;
+}
+
+export default function TopicLibrary({ history, onSelect, onClose }: TopicLibraryProps) {
+  const [tab, setTab] = useState<LibraryTab>('library');
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<TopicCategory | undefined>(undefined);
+  const [difficulty, setDifficulty] = useState<TopicDifficulty | undefined>(undefined);
+  const [hideDebated, setHideDebated] = useState(true);
+  const [favorites, setFavorites] = useState<string[]>(loadFavoriteTopics);
+  const [recent] = useState<string[]>(loadRecentTopics);
+  const [generated, setGenerated] = useState<string[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+
+  const debated = useMemo(() => getDebatedTopics(history), [history]);
+  const favoriteKeys = useMemo(() => new Set(favorites.map(normalizeTopic)), [favorites]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const matching = filterTopics(TOPIC_LIBRARY, { query, category, difficulty });
+  const libraryTopics = hideDebated ? matching.filter(topic => !isTopicDebated(topic.topic, debated)) : matching;
+  const hiddenCount = matching.length - libraryTopics.length;
+
+  // Favourites and recents are free text, so they're only searched, not filtered by category
+  const searchText = (topics: string[]) => {
+    const words = normalizeTopic(query).split(' ').filter(Boolean);
+    return topics.filter(topic => words.every(word => normalizeTopic(topic).includes(word)));
+  };
+
+  const handleSurprise = () => {
+    const pick = pickSurpriseTopic(filterTopics(TOPIC_LIBRARY, { category, difficulty }), debated);
+    if (pick) onSelect(pick.topic);
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setGenerateError(null);
+    try {
+      const avoid = [...history.map(session => session.topic), ...generated];
+      const topic = await generateMotion(category, difficulty, avoid);
+      setGenerated(current => [topic, ...current]);
+    } catch (error) {
+      setGenerateError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const renderTopicRow = (topic: string, meta?: LibraryTopic) => {
+    const isFavorite = favoriteKeys.has(normalizeTopic(topic));
+    const wasDebated = isTopicDebated(topic, debated);
+    return (
+      <div key={meta?.id ?? topic} className="flex items-center gap-2 p-3 bg-void/30 border border-white/5 rounded-xl hover:border-lime-400/30 transition">
+        <button onClick={() => onSelect(topic)} className="flex-1 min-w-0 text-left">
+          <p className="text-white text-sm font-medium">{topic}</p>
+          <div className="flex flex-wrap items-center gap-1.5 mt-1">
+            {meta && (
+              <>
+                <span className="text-[10px] px-2 py-0.5 rounded-full bg-slate-600/20 text-slate-400">
+                  {TOPIC_CATEGORIES.find(c => c.value === meta.category)?.label}
+                </span>
+                <span className={`text-[10px] px-2 py-0.5 rounded-full ${DIFFICULTY_COLORS[meta.difficulty]}`}>
+                  {TOPIC_DIFFICULTIES.find(d => d.value === meta.difficulty)?.label}
+                </span>
+              </>
+            )}
+            {wasDebated && (
+              <span className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-500/10 text-indigo-300 flex items-center gap-1">
+                <Check className="w-3 h-3" />
+                Debated
+              </span>
+            )}
+          </div>
+        </button>
+        <button
+          onClick={() => setFavorites(toggleFavoriteTopic(topic))}
+          className="p-2 rounded-lg hover:bg-white/5 transition flex-shrink-0"
+          aria-label={isFavorite ? `Remove "${topic}" from favourites` : `Add "${topic}" to favourites`}
+          aria-pressed={isFavorite}
+        >
+          <Star className={`w-4 h-4 ${isFavorite ? 'text-amber-400 fill-amber-400' : 'text-slate-500'}`} />
+        </button>
+      </div>
+    );
+  };
+
+  const renderFreeTextList = (topics: string[], emptyMessage: string) => {
+    const shown = searchText(topics);
+    if (shown.length === 0) {
+      return <p className="text-slate-500 text-sm text-center py-8">{topics.length === 0 ? emptyMessage : 'No topics match your search'}</p>;
+    }
+    return shown.map(topic =>
+      renderTopicRow(topic, TOPIC_LIBRARY.find(item => normalizeTopic(item.topic) === normalizeTopic(topic)))
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-void/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="topic-library-title"
+        className="bg-card border border-white/10 rounded-[2rem] p-6 w-full max-w-2xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start gap-3 mb-4">
+          <div className="w-10 h-10 bg-lime-400/10 border border-lime-400/30 rounded-xl flex items-center justify-center flex-shrink-0">
+            <BookOpen className="w-5 h-5 text-lime-400" />
+          </div>
+          <div className="flex-1">
+            <h2 id="topic-library-title" className="text-white text-xl font-bold">Topic Library</h2>
+            <p className="text-slate-400 text-sm">Pick a motion, let chance decide, or have one written for you.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/5 transition" aria-label="Close topic library">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {/* Search and filters */}
+        <div className="relative mb-3">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search topics..."
+            autoFocus
+            className="w-full bg-void/50 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-lime-400 transition"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <select
+            value={category ?? ''}
+            onChange={(e) => setCategory((e.target.value || undefined) as TopicCategory | undefined)}
+            aria-label="Category"
+            className="bg-void/50 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-400 transition"
+          >
+            <option value="">All categories</option>
+            {TOPIC_CATEGORIES.map(c => (
+              <option key={c.value} value={c.value}>{c.label}</option>
+            ))}
+          </select>
+          <select
+            value={difficulty ?? ''}
+            onChange={(e) => setDifficulty((e.target.value || undefined) as TopicDifficulty | undefined)}
+            aria-label="Difficulty"
+            className="bg-void/50 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-400 transition"
+          >
+            <option value="">Any difficulty</option>
+            {TOPIC_DIFFICULTIES.map(d => (
+              <option key={d.value} value={d.value} title={d.description}>{d.label}</option>
+            ))}
+          </select>
+          <div className="flex-1" />
+          <button
+            onClick={handleSurprise}
+            className="flex items-center gap-1.5 px-3 py-1 bg-void border border-white/10 text-white text-xs font-bold rounded-lg hover:border-white/30 transition"
+            title="Pick a random library topic you haven't debated yet"
+          >
+            <Dices className="w-3.5 h-3.5" />
+            Surprise me
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center gap-1.5 px-3 py-1 bg-lime-400 text-void text-xs font-bold rounded-lg hover:bg-lime-500 transition disabled:opacity-60 disabled:cursor-wait"
+            title="Have the AI write a new motion in the chosen category and difficulty"
+          >
+            {isGenerating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+            Generate
+          </button>
+        </div>
+
+        {/* AI-generated motions */}
+        {generateError && (
+          <div className="p-3 mb-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs">{generateError}</div>
+        )}
+        {generated.length > 0 && (
+          <div className="space-y-2 mb-3">
+            <p className="text-slate-400 text-xs font-medium uppercase tracking-wider">Generated for you</p>
+            {generated.map(topic => renderTopicRow(topic))}
+          </div>
+        )}
+
+        {/* Tabs */}
+        <div className="flex gap-4 mb-3 border-b border-white/10" role="tablist">
+          {TABS.map(t => (
+            <button
+              key={t.value}
+              role="tab"
+              aria-selected={tab === t.value}
+              onClick={() => setTab(t.value)}
+              className={`text-sm pb-2 border-b-2 transition ${
+                tab === t.value ? 'text-white font-bold border-lime-400' : 'text-slate-400 font-medium border-transparent hover:text-slate-200'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Topic list */}
+        <div className="space-y-2 overflow-y-auto scrollbar-custom pr-1 flex-1 min-h-0">
+          {tab === 'library' && (
+            <>
+              {libraryTopics.length === 0 ? (
+                <p className="text-slate-500 text-sm text-center py-8">No topics match these filters</p>
+              ) : (
+                libraryTopics.map(topic => renderTopicRow(topic.topic, topic))
+              )}
+              {(hiddenCount > 0 || !hideDebated) && (
+                <button
+                  onClick={() => setHideDebated(!hideDebated)}
+                  className="w-full text-xs text-slate-400 hover:text-white transition py-2"
+                >
+                  {hideDebated
+                    ? `Show ${hiddenCount} ${hiddenCount === 1 ? 'topic' : 'topics'} you've already debated`
+                    : "Hide topics you've already debated"}
+                </button>
+              )}
+            </>
+          )}
+          {tab === 'favorites' && renderFreeTextList(favorites, 'Star a topic to keep it here')}
+          {tab === 'recent' && renderFreeTextList(recent, 'Topics you start a debate on will show up here')}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * TurnTimeline Component
+ *
+ * Shows the per-turn analysis of a session as a vertical timeline: the claim made in
+ * each user turn, how well it was backed up, how directly it answered the AI and any
+ * fallacies spotted.
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import type { EvidenceQuality, Responsiveness, TurnAnalysis } from '../types';
+import { getFallacy } from '../utils/fallacies';
+
+const EVIDENCE_STYLES: Record<EvidenceQuality, { dot: string; badge: string }> = {
+  None: { dot: 'bg-red-400', badge: 'bg-red-400/10 border-red-400/30 text-red-400' },
+  Weak: { dot: 'bg-amber-400', badge: 'bg-amber-400/10 border-amber-400/30 text-amber-400' },
+  Moderate: { dot: 'bg-lime-400', badge: 'bg-lime-400/10 border-lime-400/30 text-lime-400' },
+  Strong: { dot: 'bg-emerald-400', badge: 'bg-emerald-400/10 border-emerald-400/30 text-emerald-400' },
+};
+
+const RESPONSIVENESS_STYLES: Record<Responsiveness, string> = {
+  Ignored: 'bg-red-400/10 border-red-400/30 text-red-400',
+  Partial: 'bg-amber-400/10 border-amber-400/30 text-amber-400',
+  Direct: 'bg-sky-400/10 border-sky-400/30 text-sky-400',
+};
+
+interface TurnTimelineProps {
+  turns: TurnAnalysis[];
+}
+
+export default function TurnTimeline({ turns }: TurnTimelineProps) {
+  const supported = turns.filter(t => t.evidenceQuality === 'Moderate' || t.evidenceQuality === 'Strong').length;
+  const direct = turns.filter(t => t.responsiveness === 'Direct').length;
+
+  return (
+    <div>
+      <p className="text-slate-400 text-sm mb-6">
+        {supported} of {turns.length} turns backed by solid evidence · {direct} answered the AI directly
+      </p>
+
+      <ol className="relative border-l border-white/10 ml-2 space-y-6">
+        {turns.map((turn, position) => (
+          <li key={`${turn.turnIndex}-${position}`} className="pl-6 relative">
+            <span
+              className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${EVIDENCE_STYLES[turn.evidenceQuality].dot}`}
+            />
+            <span className="text-slate-500 text-[10px] uppercase tracking-[0.2em] font-semibold">
+              Your turn {position + 1}
+            </span>
+            <p className="text-white font-medium leading-relaxed mt-1">{turn.claim}</p>
+
+            <div className="flex flex-wrap gap-2 mt-3">
+              <span className={`px-2.5 py-1 rounded-full border text-xs font-bold ${EVIDENCE_STYLES[turn.evidenceQuality].badge}`}>
+                Evidence: {turn.evidenceQuality}
+              </span>
+              <span className={`px-2.5 py-1 rounded-full border text-xs font-bold ${RESPONSIVENESS_STYLES[turn.responsiveness]}`}>
+                Response: {turn.responsiveness}
+              </span>
+            </div>
+
+            <ul className="mt-3 space-y-1 text-slate-400 text-sm">
+              {turn.evidenceNote && <li>{turn.evidenceNote}</li>}
+              {turn.responsivenessNote && <li>{turn.responsivenessNote}</li>}
+            </ul>
+
+            {turn.fallacies.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {turn.fallacies.map((fallacy, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+                    <span className="text-slate-300">
+                      <span className="text-amber-400 font-semibold">{getFallacy(fallacy.type).name}</span>
+                      {fallacy.quote && <span className="text-slate-400 italic"> “{fallacy.quote}”</span>}
+                      {' — '}{fallacy.explanation}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Analysis service for running a session's analysis after the debate has ended,
+ * from the transcript stored with it - used when the first attempt failed or never finished
+ */
+
+import type { ChatMessage, SessionHistoryItem } from '../types';
+import { GeminiLiveService } from './geminiLiveService';
+import { loadSettings, resolveApiKey } from './settingsService';
+import { getRubric } from './rubricService';
+import { completeSessionAnalysis, getTranscript, markSessionAnalysis } from './storageService';
+
+/**
+ * Whether a session is missing its analysis and has what's needed to run it again
+ */
+export function canReanalyze(session: SessionHistoryItem): boolean {
+  return !!session.analysisStatus && !!session.transcriptId;
+}
+
+/**
+ * Runs the analysis of a saved session again from its stored transcript
+ * @param session - Session whose analysis is pending or failed
+ * @returns The updated history item: analyzed, or marked failed with the reason
+ * @throws If the session or its transcript can no longer be found
+ */
+export async function reanalyzeSession(session: SessionHistoryItem): Promise<SessionHistoryItem> {
+  const transcript = session.transcriptId ? await getTranscript(session.transcriptId) : null;
+  if (!transcript) {
+    throw new Error('The transcript of this session is no longer stored');
+  }
+
+  const settings = loadSettings();
+  const apiKey = resolveApiKey(settings);
+  if (!apiKey) {
+    throw new Error('API key not configured. Please go to Settings to add your Gemini API key.');
+  }
+
+  await markSessionAnalysis(session.id, 'pending');
+
+  // Only the analysis is used, so the live callbacks have nothing to do
+  const noop = () => {};
+  const provider = new GeminiLiveService(apiKey, noop, noop, noop, noop, settings);
+  const messages: ChatMessage[] = transcript.turns.flatMap(turn => turn.messages);
+
+  let updated: SessionHistoryItem | null;
+  try {
+    const analysis = await provider.analyze(messages, session.topic, {
+      side: session.side,
+      rubric: getRubric(session.rubricId),
+      input: session.input,
+    });
+    updated = analysis
+      ? await completeSessionAnalysis(session.id, analysis)
+      : await markSessionAnalysis(session.id, 'failed', 'Not enough of your speech in the transcript to analyze');
+  } catch (error) {
+    console.error('Re-running analysis failed:', error);
+    updated = await markSessionAnalysis(
+      session.id,
+      'failed',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (!updated) {
+    throw new Error('This session is no longer in your history');
+  }
+  return updated;
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OpponentPersona, Rubric, SessionHistoryItem } from '../types';
+import { COACH_OPPONENT } from '../utils/opponents';
+import { STANDARD_RUBRIC } from '../utils/rubrics';
+import { ARCHIVE_FORMAT, exportArchive, importArchive, parseArchive } from './archiveService';
+import { getOpponent, loadCustomOpponents, saveCustomOpponents } from './opponentService';
+import { getRubric, loadCustomRubrics, saveCustomRubrics } from './rubricService';
+import { addRecentTopic, loadFavoriteTopics, loadRecentTopics, toggleFavoriteTopic } from './topicService';
+import { InMemorySessionRepository } from './sessionRepository';
+import { setRepository } from './storageService';
+import { createLocalStorage } from '../test/localStorage';
+
+function makeRubric(id: string, name: string): Rubric {
+  return { ...STANDARD_RUBRIC, id, name, builtIn: false };
+}
+
+function makeOpponent(id: string, name: string): OpponentPersona {
+  return { ...COACH_OPPONENT, id, name, builtIn: false };
+}
+
+const SESSION: SessionHistoryItem = {
+  id: 's1',
+  date: '2026-01-01T10:00:00.000Z',
+  topic: 'Remote work',
+  durationSeconds: 300,
+  score: 70,
+  rubricId: 'rubric-strict',
+};
+
+/**
+ * Exports from one browser and parses the file as another would
+ */
+async function exportAndParse() {
+  const parsed = parseArchive(JSON.stringify(await exportArchive()));
+  expect(parsed.errors).toEqual([]);
+  return parsed;
+}
+
+describe('archive', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createLocalStorage());
+    setRepository(new InMemorySessionRepository());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('custom rubrics', () => {
+    it('brings the rubric an imported session was scored with', async () => {
+      const repo = new InMemorySessionRepository();
+      setRepository(repo);
+      await repo.putSession(SESSION);
+      saveCustomRubrics([makeRubric('rubric-strict', 'Strict')]);
+      const { archive } = await exportAndParse();
+
+      // Another browser
+      vi.stubGlobal('localStorage', createLocalStorage());
+      setRepository(new InMemorySessionRepository());
+      const summary = await importArchive(archive!, 'merge');
+
+      expect(summary.rubrics).toBe(1);
+      expect(getRubric(SESSION.rubricId).name).toBe('Strict');
+    });
+
+    it('keeps a local rubric with the same id when merging', async () => {
+      saveCustomRubrics([makeRubric('rubric-strict', 'Imported'), makeRubric('rubric-new', 'New')]);
+      const { archive } = await exportAndParse();
+      saveCustomRubrics([makeRubric('rubric-strict', 'Local')]);
+
+      const summary = await importArchive(archive!, 'merge');
+
+      expect(summary.rubrics).toBe(1);
+      expect(loadCustomRubrics().map(r => r.name)).toEqual(['Local', 'New']);
+    });
+
+    it('overwrites a local rubric with the same id when replacing', async () => {
+      saveCustomRubrics([makeRubric('rubric-strict', 'Imported')]);
+      const { archive } = await exportAndParse();
+      saveCustomRubrics([makeRubric('rubric-strict', 'Local'), makeRubric('rubric-other', 'Other')]);
+
+      const summary = await importArchive(archive!, 'replace');
+
+      expect(summary.rubrics).toBe(1);
+      expect(loadCustomRubrics().map(r => r.name)).toEqual(['Imported', 'Other']);
+    });
+
+    it('skips invalid rubrics with a warning', () => {
+      const file = {
+        format: ARCHIVE_FORMAT,
+        version: 2,
+        history: [],
+        rubrics: [makeRubric('ok', 'Fine'), { ...makeRubric('bad', 'No criteria'), criteria: [] }, 'nonsense'],
+      };
+
+      const { archive, warnings } = parseArchive(JSON.stringify(file));
+
+      expect(archive?.rubrics.map(r => r.id)).toEqual(['ok']);
+      expect(warnings).toContain('2 invalid rubric(s) will be skipped');
+    });
+
+    it('reads version 1 archives, which have no rubrics, opponents or topics', () => {
+      const { archive, errors, warnings } = parseArchive(
+        JSON.stringify({ format: ARCHIVE_FORMAT, version: 1, history: [SESSION] })
+      );
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([]);
+      expect(archive?.rubrics).toEqual([]);
+      expect(archive?.opponents).toEqual([]);
+      expect(archive?.topics).toEqual({ favorites: [], recent: [] });
+    });
+  });
+
+  describe('custom opponents', () => {
+    it('brings the opponent an imported session was debated against', async () => {
+      saveCustomOpponents([makeOpponent('opponent-lawyer', 'Lawyer')]);
+      const { archive } = await exportAndParse();
+
+      // Another browser
+      vi.stubGlobal('localStorage', createLocalStorage());
+      const summary = await importArchive(archive!, 'merge');
+
+      expect(summary.opponents).toBe(1);
+      expect(getOpponent('opponent-lawyer').name).toBe('Lawyer');
+    });
+
+    it('keeps a local opponent with the same id when merging and overwrites it when replacing', async () => {
+      saveCustomOpponents([makeOpponent('opponent-lawyer', 'Imported')]);
+      const { archive } = await exportAndParse();
+      saveCustomOpponents([makeOpponent('opponent-lawyer', 'Local')]);
+
+      expect((await importArchive(archive!, 'merge')).opponents).toBe(0);
+      expect(loadCustomOpponents().map(o => o.name)).toEqual(['Local']);
+
+      expect((await importArchive(archive!, 'replace')).opponents).toBe(1);
+      expect(loadCustomOpponents().map(o => o.name)).toEqual(['Imported']);
+    });
+
+    it('skips invalid opponents with a warning', () => {
+      const file = {
+        format: ARCHIVE_FORMAT,
+        version: 2,
+        history: [],
+        opponents: [makeOpponent('ok', 'Fine'), { ...makeOpponent('bad', 'Mumbles'), voice: 'Nobody' }],
+      };
+
+      const { archive, warnings } = parseArchive(JSON.stringify(file));
+
+      expect(archive?.opponents.map(o => o.id)).toEqual(['ok']);
+      expect(warnings).toContain('1 invalid opponent(s) will be skipped');
+    });
+  });
+
+  describe('saved topics', () => {
+    it('adds imported favourites to the local ones without duplicates', async () => {
+      toggleFavoriteTopic('Remote work');
+      toggleFavoriteTopic('Nuclear power');
+      const { archive } = await exportAndParse();
+
+      vi.stubGlobal('localStorage', createLocalStorage());
+      toggleFavoriteTopic('remote work ');
+      const summary = await importArchive(archive!, 'merge');
+
+      expect(summary.topics).toBe(1);
+      expect(loadFavoriteTopics()).toEqual(['remote work', 'Nuclear power']);
+    });
+
+    it('puts imported recent topics first when replacing, keeping the most recent ones', async () => {
+      for (let i = 0; i < 10; i++) addRecentTopic(`Imported ${i}`);
+      const { archive } = await exportAndParse();
+
+      vi.stubGlobal('localStorage', createLocalStorage());
+      addRecentTopic('Local');
+      const summary = await importArchive(archive!, 'replace');
+
+      expect(summary.topics).toBe(10);
+      expect(loadRecentTopics()).toHaveLength(10);
+      expect(loadRecentTopics()[0]).toBe('Imported 9');
+      expect(loadRecentTopics()).not.toContain('Local');
+    });
+  });
+});
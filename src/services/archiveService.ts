@@ -0,0 +1,403 @@
+/**
+ * Archive service for exporting and importing all user data as a single versioned JSON file
+ */
+
+import type {
+  AppSettings,
+  OpponentPersona,
+  Rubric,
+  SessionHistoryItem,
+  SessionTranscript,
+  UserPersona,
+  UserStats,
+} from '../types';
+import {
+  validateSessionHistoryItem,
+  validateSessionTranscript,
+  validateUserPersona,
+  validateUserStats,
+} from '../utils/personaValidation';
+import { awardBadges, getRepository, getSessionPoints, getStats } from './storageService';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, validateSettings } from './settingsService';
+import { isValidCustomRubric, loadCustomRubrics, saveCustomRubrics } from './rubricService';
+import { isValidCustomOpponent, loadCustomOpponents, saveCustomOpponents } from './opponentService';
+import { importTopics, loadFavoriteTopics, loadRecentTopics } from './topicService';
+
+export const ARCHIVE_FORMAT = 'debatemaster-archive';
+// v2: custom rubrics and opponents, favourite and recent topics
+export const ARCHIVE_VERSION = 2;
+
+/**
+ * Settings as stored in an archive; the API key is only present when explicitly included
+ */
+export type ArchivedSettings = Omit<AppSettings, 'apiKey'> & { apiKey?: string };
+
+/**
+ * Everything the app stores locally, in one file: sessions, the rubrics they were scored with
+ * and the opponents they were debated against, saved topics, the persona and the settings.
+ * Left out are session recordings (see exportArchive) and choices that only matter on this
+ * device, such as audio devices
+ */
+export interface DataArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string
+  stats: UserStats;
+  history: SessionHistoryItem[];
+  transcripts: SessionTranscript[];
+  persona: UserPersona | null;
+  settings: ArchivedSettings | null; // null when an imported archive's settings were invalid
+  rubrics: Rubric[]; // custom rubrics, so imported sessions are re-scored with the one they used
+  opponents: OpponentPersona[]; // custom opponents, so imported sessions keep theirs in Activity
+  topics: { favorites: string[]; recent: string[] };
+}
+
+/**
+ * How sessions, custom rubrics and custom opponents that already exist locally (same id) are handled on import
+ * - merge: keep the local copy, only add ones that are new
+ * - replace: overwrite the local copy with the imported one (also applies imported settings)
+ * Saved topics are always combined; replace lists the imported ones first
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ParsedArchive {
+  archive: DataArchive | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportSummary {
+  added: number;
+  replaced: number;
+  skipped: number;
+  transcripts: number;
+  rubrics: number;
+  opponents: number;
+  topics: number;
+  personaImported: boolean;
+  settingsImported: boolean;
+}
+
+/**
+ * Collects everything stored locally into an archive.
+ * Session recordings are left out - they are binary audio and would bloat the JSON file
+ * @param options.includeApiKey - Include the stored API key (excluded by default)
+ */
+export async function exportArchive(
+  options: { includeApiKey?: boolean } = {}
+): Promise<DataArchive> {
+  const repo = getRepository();
+  const [stats, history, transcripts, persona] = await Promise.all([
+    getStats(),
+    repo.getAllSessions(),
+    repo.getAllTranscripts(),
+    repo.getPersona(),
+  ]);
+
+  const { apiKey, ...settings } = loadSettings();
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    stats,
+    // Recordings aren't exported, so imported sessions mustn't point at one
+    history: history.map(withoutRecording),
+    transcripts,
+    persona,
+    settings: options.includeApiKey && apiKey ? { ...settings, apiKey } : settings,
+    rubrics: loadCustomRubrics(),
+    opponents: loadCustomOpponents(),
+    topics: { favorites: loadFavoriteTopics(), recent: loadRecentTopics() },
+  };
+}
+
+function withoutRecording(session: SessionHistoryItem): SessionHistoryItem {
+  const copy = { ...session };
+  delete copy.recordingId;
+  return copy;
+}
+
+/**
+ * Offers the archive to the user as a JSON file download
+ */
+export function downloadArchive(archive: DataArchive): void {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `debatemaster-${archive.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parses and validates an archive file.
+ * Invalid sessions and transcripts are dropped with a warning; a malformed file is an error
+ * @param json - Raw file contents
+ */
+export function parseArchive(json: string): ParsedArchive {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { archive: null, errors: ['File is not valid JSON'], warnings };
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return { archive: null, errors: ['File does not contain an archive'], warnings };
+  }
+
+  const data = raw as Partial<DataArchive>;
+
+  if (data.format !== ARCHIVE_FORMAT) {
+    errors.push('File is not a DebateMaster archive');
+  } else if (typeof data.version !== 'number' || data.version > ARCHIVE_VERSION) {
+    errors.push(`Unsupported archive version: ${String(data.version)}`);
+  }
+
+  if (!Array.isArray(data.history)) {
+    errors.push('Archive has no session history');
+  }
+
+  if (errors.length > 0) {
+    return { archive: null, errors, warnings };
+  }
+
+  const history = (data.history ?? []).filter(validateSessionHistoryItem);
+  const droppedSessions = (data.history ?? []).length - history.length;
+  if (droppedSessions > 0) {
+    warnings.push(`${droppedSessions} invalid session(s) will be skipped`);
+  }
+
+  const rawTranscripts = Array.isArray(data.transcripts) ? data.transcripts : [];
+  const transcripts = rawTranscripts.filter(validateSessionTranscript);
+  if (rawTranscripts.length > transcripts.length) {
+    warnings.push(`${rawTranscripts.length - transcripts.length} invalid transcript(s) will be skipped`);
+  }
+
+  let persona: UserPersona | null = null;
+  if (data.persona) {
+    if (validateUserPersona(data.persona)) {
+      persona = data.persona;
+    } else {
+      warnings.push('Persona data is invalid and will be skipped');
+    }
+  }
+
+  let stats: UserStats = { totalSessions: 0, totalMinutes: 0, points: 0, badges: [] };
+  const rawStats: unknown = data.stats;
+  if (validateUserStats(rawStats)) {
+    stats = rawStats;
+  } else if (rawStats !== undefined) {
+    warnings.push('Statistics are invalid and will be recalculated');
+  }
+
+  const settings = parseSettings(data.settings);
+  if (data.settings !== undefined && !settings) {
+    warnings.push('Settings are invalid and will be skipped');
+  }
+
+  // Version 1 archives have no rubrics, opponents or topics
+  const rawRubrics: unknown[] = Array.isArray(data.rubrics) ? data.rubrics : [];
+  const rubrics = rawRubrics.filter(isValidCustomRubric).map(rubric => ({ ...rubric, builtIn: false }));
+  if (rawRubrics.length > rubrics.length) {
+    warnings.push(`${rawRubrics.length - rubrics.length} invalid rubric(s) will be skipped`);
+  }
+
+  const rawOpponents: unknown[] = Array.isArray(data.opponents) ? data.opponents : [];
+  const opponents = rawOpponents.filter(isValidCustomOpponent).map(opponent => ({ ...opponent, builtIn: false }));
+  if (rawOpponents.length > opponents.length) {
+    warnings.push(`${rawOpponents.length - opponents.length} invalid opponent(s) will be skipped`);
+  }
+
+  const rawTopics: Partial<Record<keyof DataArchive['topics'], unknown>> =
+    data.topics && typeof data.topics === 'object' ? data.topics : {};
+  const topics = { favorites: toTopicList(rawTopics.favorites), recent: toTopicList(rawTopics.recent) };
+
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: data.version ?? ARCHIVE_VERSION,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      stats,
+      history,
+      transcripts,
+      persona,
+      settings,
+      rubrics,
+      opponents,
+      topics,
+    },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Writes a parsed archive into local storage
+ * @param archive - Archive returned by parseArchive
+ * @param mode - Conflict handling for sessions that already exist locally
+ * @returns Counts of what was imported
+ */
+export async function importArchive(archive: DataArchive, mode: ImportMode): Promise<ImportSummary> {
+  const repo = getRepository();
+  const [stats, existing, localPersona] = await Promise.all([
+    getStats(),
+    repo.getAllSessions(),
+    repo.getPersona(),
+  ]);
+
+  const existingById = new Map(existing.map((session) => [session.id, session]));
+  const importedSessionIds = new Set<string>();
+  const updatedStats: UserStats = { ...stats, badges: [...stats.badges] };
+  const summary: ImportSummary = {
+    added: 0,
+    replaced: 0,
+    skipped: 0,
+    transcripts: 0,
+    rubrics: 0,
+    opponents: 0,
+    topics: 0,
+    personaImported: false,
+    settingsImported: false,
+  };
+
+  for (const session of archive.history) {
+    const local = existingById.get(session.id);
+
+    if (local && mode === 'merge') {
+      summary.skipped++;
+      continue;
+    }
+
+    await repo.putSession(session);
+    importedSessionIds.add(session.id);
+
+    if (local) {
+      // Swap the local session's contribution for the imported one
+      updatedStats.totalMinutes +=
+        Math.floor(session.durationSeconds / 60) - Math.floor(local.durationSeconds / 60);
+      updatedStats.points += getSessionPoints(session.durationSeconds) - getSessionPoints(local.durationSeconds);
+      summary.replaced++;
+    } else {
+      updatedStats.totalSessions++;
+      updatedStats.totalMinutes += Math.floor(session.durationSeconds / 60);
+      updatedStats.points += getSessionPoints(session.durationSeconds);
+      summary.added++;
+    }
+  }
+
+  // Only bring in transcripts belonging to sessions that were written
+  for (const transcript of archive.transcripts) {
+    if (importedSessionIds.has(transcript.sessionId)) {
+      await repo.putTranscript(transcript);
+      summary.transcripts++;
+    }
+  }
+
+  for (const badge of archive.stats.badges) {
+    if (!updatedStats.badges.includes(badge)) {
+      updatedStats.badges.push(badge);
+    }
+  }
+  await repo.putStats(awardBadges(updatedStats));
+
+  const rubrics = mergeById(loadCustomRubrics(), archive.rubrics, mode);
+  if (rubrics.written > 0) {
+    saveCustomRubrics(rubrics.merged);
+    summary.rubrics = rubrics.written;
+  }
+
+  const opponents = mergeById(loadCustomOpponents(), archive.opponents, mode);
+  if (opponents.written > 0) {
+    saveCustomOpponents(opponents.merged);
+    summary.opponents = opponents.written;
+  }
+
+  summary.topics = importTopics(archive.topics.favorites, archive.topics.recent, mode === 'replace');
+
+  if (archive.persona && (!localPersona || mode === 'replace')) {
+    await repo.putPersona(archive.persona);
+    summary.personaImported = true;
+  }
+
+  // Settings are a single record, so they follow the persona rule: merge keeps local ones.
+  // Settings that would break every Live connection are never written
+  if (mode === 'replace' && archive.settings) {
+    const current = loadSettings();
+    const imported: AppSettings = { ...archive.settings, apiKey: archive.settings.apiKey || current.apiKey };
+    if (validateSettings(imported).length === 0) {
+      saveSettings(imported);
+      summary.settingsImported = true;
+    }
+  }
+
+  return summary;
+}
+
+function toTopicList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((topic): topic is string => typeof topic === 'string') : [];
+}
+
+/**
+ * Combines imported records with local ones by id, following the import mode for ids both have
+ * @returns The combined records, local order first, and how many imported ones were written
+ */
+function mergeById<T extends { id: string }>(local: T[], imported: T[], mode: ImportMode): { merged: T[]; written: number } {
+  const merged = [...local];
+  let written = 0;
+
+  for (const record of imported) {
+    const index = merged.findIndex(existing => existing.id === record.id);
+    if (index === -1) {
+      merged.push(record);
+      written++;
+    } else if (mode === 'replace') {
+      merged[index] = record;
+      written++;
+    }
+  }
+
+  return { merged, written };
+}
+
+/**
+ * Checks that an archived value has the settings fields that have no default
+ */
+function hasSettingsFields(
+  value: unknown
+): value is Pick<AppSettings, 'liveModel' | 'analysisModel' | 'apiVersion' | 'host'> & Partial<AppSettings> {
+  if (!value || typeof value !== 'object') return false;
+  const s = value as Partial<AppSettings>;
+  return (
+    typeof s.liveModel === 'string' &&
+    typeof s.analysisModel === 'string' &&
+    typeof s.apiVersion === 'string' &&
+    typeof s.host === 'string'
+  );
+}
+
+function parseSettings(value: unknown): ArchivedSettings | null {
+  if (!hasSettingsFields(value)) {
+    return null;
+  }
+
+  const settings: ArchivedSettings = {
+    liveModel: value.liveModel,
+    analysisModel: value.analysisModel,
+    apiVersion: value.apiVersion,
+    host: value.host,
+    // Archives written before the setting existed get the default
+    captureChunkMs: typeof value.captureChunkMs === 'number' ? value.captureChunkMs : DEFAULT_SETTINGS.captureChunkMs,
+    ...(typeof value.apiKey === 'string' && value.apiKey ? { apiKey: value.apiKey } : {}),
+  };
+
+  // Unknown models, API versions or hosts (hand-edited or outdated archives) are skipped
+  return validateSettings({ ...settings, apiKey: settings.apiKey ?? '' }).length === 0 ? settings : null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Audio device service for listing microphones and speakers and remembering the ones
+ * picked in the pre-session audio check
+ */
+
+import type { AudioDevices } from '../types';
+
+// Storage keys as constants
+const AUDIO_DEVICE_KEYS = {
+  DEVICES: 'debate_master_audio_devices',
+} as const;
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/**
+ * The devices picked last time; empty when the system defaults are used
+ */
+export function loadAudioDevices(): AudioDevices {
+  try {
+    const data = localStorage.getItem(AUDIO_DEVICE_KEYS.DEVICES);
+    if (!data) return {};
+
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed !== 'object' || parsed === null) return {};
+    const { inputDeviceId, outputDeviceId } = parsed as Record<string, unknown>;
+    return {
+      ...(typeof inputDeviceId === 'string' && inputDeviceId && { inputDeviceId }),
+      ...(typeof outputDeviceId === 'string' && outputDeviceId && { outputDeviceId }),
+    };
+  } catch (error) {
+    console.error('Error reading audio devices from localStorage:', error);
+    return {};
+  }
+}
+
+export function saveAudioDevices(devices: AudioDevices): void {
+  try {
+    localStorage.setItem(AUDIO_DEVICE_KEYS.DEVICES, JSON.stringify(devices));
+  } catch (error) {
+    console.error('Error saving audio devices to localStorage:', error);
+  }
+}
+
+/**
+ * Microphones and speakers the browser can use. Labels are only filled in once the page
+ * has microphone permission, so list the devices after opening the microphone
+ */
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return { inputs: [], outputs: [] };
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(device => device.kind === 'audioinput'),
+    outputs: devices.filter(device => device.kind === 'audiooutput'),
+  };
+}
+
+/**
+ * Whether the browser can send Web Audio output to a chosen speaker (AudioContext.setSinkId)
+ */
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
@@ -0,0 +1,216 @@
+/**
+ * DebateProvider - the contract between the live debate UI and an AI backend.
+ *
+ * GeminiLiveService is the Gemini Live implementation. Other backends (a text-only
+ * model, a scripted demo opponent, a self-hosted OpenAI-compatible realtime endpoint)
+ * plug in by implementing the core DebateProvider interface, plus AudioCapability if
+ * they stream live audio.
+ */
+
+import type { AudioDevices, ChatMessage, DebateAnalysis, DebateFormat, DebateInput, DebateSide, InputMode, OpponentPersona, RecordedAudio, Rubric, SettingsIssue, SpeechActivityLog, TopicCategory, TopicDifficulty } from '../types';
+
+/**
+ * Event callback types
+ */
+export type TranscriptCallback = (text: string, isUser: boolean, isFinal: boolean) => void;
+export type StatusChangeCallback = (isConnected: boolean) => void;
+export type AudioLevelCallback = (level: number) => void;
+export type ModelAudioCallback = (base64Pcm: string) => void;
+export type ErrorCallback = (error: Error) => void;
+export type ReconnectingCallback = (attempt: number, delayMs: number) => void;
+export type ActivityCallback = (isSpeaking: boolean) => void;
+export type InterruptedCallback = () => void;
+
+/**
+ * How the debate is framed for the AI
+ */
+export interface ConnectOptions {
+  format?: DebateFormat; // formal format whose phase outline is given to the AI (defaults to free form)
+  side?: DebateSide; // side the user argues; the AI takes the other one (defaults to pro)
+  motion?: string; // formal motion (defaults to the topic framed with frameMotion)
+  input?: DebateInput; // text needs no microphone; the user types with sendUserMessage (defaults to voice)
+  aiVoice?: boolean; // text input only: speak the AI's replies as well as writing them (defaults to false)
+  devices?: AudioDevices; // microphone and speaker to use (defaults to the ones given to prepareAudio, else the system's)
+}
+
+/**
+ * How the finished debate is judged
+ */
+export interface AnalysisOptions {
+  side?: DebateSide; // side the user argued, so the analysis can judge them against it
+  rubric?: Rubric; // criteria, bands and leniency to score with (defaults to the standard rubric)
+  input?: DebateInput; // whether the user spoke or typed, so delivery is judged accordingly (defaults to voice)
+}
+
+/**
+ * What kind of motion to generate
+ */
+export interface MotionOptions {
+  category?: TopicCategory;
+  difficulty?: TopicDifficulty;
+  avoid?: string[]; // topics the user has already debated or been offered
+}
+
+/**
+ * What every provider implements: open a session, exchange turns, get the transcript back
+ * through onTranscript, and analyze the finished debate. Text-only and scripted providers
+ * need nothing more; live audio is the optional AudioCapability
+ */
+export interface DebateProvider {
+  /**
+   * Transcript fragments for either speaker; isFinal with empty text marks a finished model turn
+   */
+  onTranscript: TranscriptCallback;
+  onStatusChange: StatusChangeCallback;
+  onError: ErrorCallback;
+  /**
+   * The connection dropped and the provider is retrying
+   */
+  onReconnecting: ReconnectingCallback;
+  /**
+   * The user cut the AI off; its current turn ends unfinished
+   */
+  onInterrupted: InterruptedCallback;
+
+  /**
+   * Opens the session. Voice input (the default) needs a provider with AudioCapability
+   * @param opponent - Persona the AI debates as: its character, voice, tactics and interruption level
+   */
+  connect(topic: string, opponent: OpponentPersona, options?: ConnectOptions): Promise<void>;
+
+  /**
+   * Ends the session and releases whatever it holds (for audio providers, the microphone and output)
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Sends a text message into the conversation, e.g. a phase announcement
+   * @param expectResponse - Whether the AI should answer right away
+   */
+  sendText(text: string, expectResponse: boolean): void;
+
+  /**
+   * Sends a turn the user typed (text input). It comes back through onTranscript as a
+   * finished user turn, and the AI answers it
+   * @returns false when it couldn't be sent: disconnected, reconnecting, paused or input muted
+   */
+  sendUserMessage(text: string): boolean;
+
+  /**
+   * Stops (or resumes) taking the user's input - microphone audio or typed turns - without
+   * ending the session, e.g. during prep time
+   */
+  setInputMuted(muted: boolean): void;
+
+  /**
+   * Pauses the debate without ending it: the user's input is no longer taken and whatever
+   * the AI says meanwhile is dropped. The session is kept open, or rebuilt on resume if it
+   * closed during the pause
+   */
+  pause(): void;
+
+  /**
+   * Picks a paused debate up again; the AI is told it was paused
+   */
+  resume(): void;
+
+  /**
+   * Generates the post-debate analysis, scored with the rubric in the options.
+   * Failed requests and malformed responses are retried with backoff
+   * @returns null when the user didn't participate enough to be analyzed
+   * @throws when every attempt failed
+   */
+  analyze(transcript: ChatMessage[], topic: string, options?: AnalysisOptions): Promise<DebateAnalysis | null>;
+
+  /**
+   * Problems that would stop the provider from connecting
+   */
+  getSettingsIssues(): SettingsIssue[];
+
+  getConnectionStatus(): boolean;
+}
+
+/**
+ * Live audio: microphone capture with turn detection, spoken replies, device selection
+ * and the session recording. Only providers that stream audio implement it
+ */
+export interface AudioCapability {
+  /**
+   * Microphone level (roughly 0-50) for meters
+   */
+  onAudioLevel: AudioLevelCallback;
+  /**
+   * Model speech as base64 PCM16 mono at OUTPUT_SAMPLE_RATE, emitted as it arrives
+   */
+  onModelAudio: ModelAudioCallback;
+  /**
+   * A user turn started or ended (detected by VAD or push-to-talk)
+   */
+  onActivityChange: ActivityCallback;
+
+  /**
+   * Opens the microphone and audio output ahead of connect(), for the pre-session audio check.
+   * Call again to switch devices; connect() keeps using them
+   * @throws when the microphone can't be opened
+   */
+  prepareAudio(devices?: AudioDevices): Promise<void>;
+
+  /**
+   * Plays a short tone through the AI's audio output, after prepareAudio()
+   */
+  playTestTone(): void;
+
+  /**
+   * Sends a chunk of user audio (base64 PCM16 mono at INPUT_SAMPLE_RATE)
+   */
+  sendAudio(base64Pcm: string): void;
+
+  /**
+   * Switches between voice activity detection and push-to-talk (VAD by default)
+   */
+  setInputMode(mode: InputMode): void;
+
+  /**
+   * Push-to-talk key state; opens the user's turn while held. Ignored in VAD mode
+   */
+  setTalkPressed(pressed: boolean): void;
+
+  /**
+   * Stops recording the session and returns the user's and the AI's audio mixed together.
+   * Call before disconnect()
+   * @returns null when nothing was recorded
+   */
+  finishRecording(): Promise<RecordedAudio | null>;
+
+  /**
+   * When the user and the AI were audibly speaking so far this session (epoch ms).
+   * Call before disconnect()
+   */
+  getSpeechActivity(): SpeechActivityLog;
+
+  /**
+   * Analyser nodes for visualization; null until the audio has been set up
+   */
+  getOutputAnalyser(): AnalyserNode | null;
+  getInputAnalyser(): AnalyserNode | null;
+}
+
+export type AudioDebateProvider = DebateProvider & AudioCapability;
+
+/**
+ * Writing new debate topics for the topic library
+ */
+export interface MotionGenerator {
+  /**
+   * Writes a new debate topic to argue, unlike any in options.avoid
+   * @throws when the request fails or returns no usable topic
+   */
+  generateMotion(options?: MotionOptions): Promise<string>;
+}
+
+/**
+ * Whether the provider streams live audio, so voice debates and the audio check can use it
+ */
+export function hasAudio(provider: DebateProvider): provider is AudioDebateProvider {
+  return 'prepareAudio' in provider && 'finishRecording' in provider;
+}
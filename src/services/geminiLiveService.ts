@@ -1,34 +1,115 @@
 import { GoogleGenAI } from '@google/genai';
-import { type ChatMessage, type DebateAnalysis, DebateStyle } from '../types';
-import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, decode, decodeAudioData } from '../utils/audioUtils';
+import { type AppSettings, type AudioDevices, type ChatMessage, type DebateAnalysis, type DebateInput, type DebateSide, type InputMode, type OpponentPersona, type RecordedAudio, type SettingsIssue, type SpeechActivityLog, DebateFormat } from '../types';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, decode, decodeAudioData, encodeBase64 } from '../utils/audioUtils';
+import { buildLiveUrl, loadSettings, validateSettings } from './settingsService';
+import { buildFormatInstruction, getDebateFormat } from '../utils/debateFormats';
+import { SIDE_LABELS, frameMotion, getOpposingSide } from '../utils/motionUtils';
+import { VAD_PRE_ROLL_MS, VoiceActivityDetector } from '../utils/voiceActivity';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import { SpeechActivityTracker } from '../utils/speechMetrics';
+import { MIN_ANALYSIS_WORDS, buildTranscriptTurns, countUserWords, getTurnText } from '../utils/transcriptUtils';
+import { COACH_OPPONENT, buildOpponentInstruction, getInterruptionLevel } from '../utils/opponents';
+import { STANDARD_RUBRIC, buildCriterionScoresSchema, buildRubricGuide, scoreAnalysis } from '../utils/rubrics';
+import {
+  CONFIDENCE_LEVELS,
+  EVIDENCE_QUALITIES,
+  PROFICIENCY_LEVELS,
+  RESPONSIVENESS_LEVELS,
+  parseAnalysisResponse,
+} from '../utils/analysisValidation';
+import { FALLACY_TYPES, buildFallacyGuide } from '../utils/fallacies';
+import { TOPIC_CATEGORIES, TOPIC_DIFFICULTIES, isTopicDebated, normalizeTopic } from '../utils/topicLibrary';
+import { appendTranscriptText } from '../utils/transcriptAssembler';
+import type {
+  ActivityCallback,
+  AnalysisOptions,
+  AudioCapability,
+  AudioLevelCallback,
+  ConnectOptions,
+  DebateProvider,
+  ErrorCallback,
+  InterruptedCallback,
+  ModelAudioCallback,
+  MotionGenerator,
+  MotionOptions,
+  ReconnectingCallback,
+  StatusChangeCallback,
+  TranscriptCallback,
+} from './debateProvider';
 
 /**
- * Callback function types for service events
+ * Reconnection tuning - delays double per attempt up to the cap
  */
-type TranscriptCallback = (text: string, isUser: boolean, isFinal: boolean) => void;
-type StatusChangeCallback = (isConnected: boolean) => void;
-type AudioLevelCallback = (level: number) => void;
-type ErrorCallback = (error: Error) => void;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// A connection has to stay up this long before the attempt count starts over, so a server
+// that accepts and then drops every connection still runs out of attempts
+const STABLE_CONNECTION_MS = 30000;
 
-// Constants for Gemini Live API
-const HOST = "generativelanguage.googleapis.com";
-const API_VERSION = "v1alpha";
-const MODEL = "models/gemini-2.0-flash-exp";
+/**
+ * Analysis retry tuning - delays double per attempt
+ */
+const MAX_ANALYSIS_ATTEMPTS = 3;
+const ANALYSIS_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Motion generation - attempts before giving up on getting a topic that isn't a repeat,
+ * and how many of the topics to avoid are listed in the prompt
+ */
+const MAX_MOTION_ATTEMPTS = 3;
+const MAX_AVOIDED_TOPICS = 30;
+
+// Appended to the system instruction when the user types instead of speaking
+const TEXT_INPUT_INSTRUCTION = `
+
+The user is typing their side of the debate in a chat rather than speaking. Keep each reply to a short paragraph or two so the exchange stays quick.`;
+
+// Tone played by the audio check's speaker test
+const TEST_TONE_HZ = 440;
+const TEST_TONE_SECONDS = 1;
+
+// AudioContext.setSinkId (choosing the output device) isn't in the DOM typings yet
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+// Capture worklet served from public/; it resamples, converts to Int16 and batches off the main thread
+const CAPTURE_WORKLET_URL = `${import.meta.env.BASE_URL}audio-processor.js`;
+const CAPTURE_WORKLET_NAME = 'audio-processor';
+
+// Mic audio kept while reconnecting; older chunks are dropped past this
+const MAX_BUFFERED_AUDIO_SECONDS = 30;
+
+// How much of the conversation is replayed into the system instruction on resume
+const RESUME_TURN_LIMIT = 12;
+const RESUME_TURN_MAX_CHARS = 400;
+
+// Told to the AI when a paused debate picks up again
+const PAUSE_RESUMED_NOTE = 'The debate was paused for a moment and has now resumed. Continue from where it left off.';
+const PAUSE_CUT_REPLY_NOTE = 'The debate was paused while you were answering, so the user did not hear the rest of your reply. It has now resumed: finish your point briefly.';
+
+/**
+ * Message posted by the capture worklet (public/audio-processor.js)
+ */
+interface CaptureChunk {
+  pcm: ArrayBuffer; // Int16 PCM mono at INPUT_SAMPLE_RATE
+  level: number; // RMS of the chunk, 0-1
+}
 
 /**
  * GeminiLiveService class
  * 
- * Handles real-time audio streaming, transcription, and debate analysis
- * using Google's Gemini Live API via raw WebSockets.
+ * DebateProvider implementation that handles real-time audio streaming, transcription,
+ * and debate analysis using Google's Gemini Live API via raw WebSockets. It has every
+ * optional capability: live audio and motion generation.
  */
-export class GeminiLiveService {
+export class GeminiLiveService implements DebateProvider, AudioCapability, MotionGenerator {
   private ai: GoogleGenAI;
   private ws: WebSocket | null = null;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private inputSource: MediaStreamAudioSourceNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private processor: AudioWorkletNode | null = null;
   private outputNode: GainNode | null = null;
   private outputAnalyser: AnalyserNode | null = null;
   private inputAnalyser: AnalyserNode | null = null;
@@ -40,21 +121,64 @@ export class GeminiLiveService {
   private isConnecting: boolean = false;
   private isDisconnecting: boolean = false;
   private apiKey: string;
+  private settings: AppSettings;
+
+  // Session and reconnection state
+  private topic: string = '';
+  private opponent: OpponentPersona = COACH_OPPONENT;
+  private format: DebateFormat = DebateFormat.FREE_FORM;
+  private side: DebateSide = 'pro';
+  private motion: string = '';
+  private input: DebateInput = 'voice';
+  private aiVoice: boolean = false;
+  private devices: AudioDevices = {};
+  // Bumped by disconnect() so a microphone that finishes opening afterwards is released
+  private audioGeneration: number = 0;
+  private inputMuted: boolean = false;
+  private paused: boolean = false;
+  private replyCutByPause: boolean = false;
+  private rebuildOnResume: boolean = false;
+  // Turn detection - the Live API's own detection is disabled and turns are signalled explicitly
+  private inputMode: InputMode = 'vad';
+  private vad: VoiceActivityDetector;
+  private talkPressed: boolean = false;
+  private userActive: boolean = false;
+  private preRoll: string[] = [];
+  private preRollChunks: number;
+  private sessionStarted: boolean = false;
+  private isReconnecting: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: number | null = null;
+  private stableTimer: number | null = null;
+  private bufferedAudio: string[] = [];
+  private maxBufferedChunks: number;
+  private recorder: SessionRecorder = new SessionRecorder();
+  private speechActivity: SpeechActivityTracker = new SpeechActivityTracker();
+  private transcriptLog: { role: 'user' | 'model'; text: string; closed: boolean }[] = [];
 
   // Callback properties
   public onTranscript: TranscriptCallback;
   public onStatusChange: StatusChangeCallback;
   public onAudioLevel: AudioLevelCallback;
   public onError: ErrorCallback;
+  public onModelAudio: ModelAudioCallback = () => {};
+  public onReconnecting: ReconnectingCallback = () => {};
+  public onActivityChange: ActivityCallback = () => {};
+  public onInterrupted: InterruptedCallback = () => {};
 
   constructor(
     apiKey: string,
     onTranscript: TranscriptCallback,
     onStatusChange: StatusChangeCallback,
     onAudioLevel: AudioLevelCallback,
-    onError: ErrorCallback
+    onError: ErrorCallback,
+    settings: AppSettings = loadSettings()
   ) {
     this.apiKey = apiKey;
+    this.settings = settings;
+    this.maxBufferedChunks = Math.ceil((MAX_BUFFERED_AUDIO_SECONDS * 1000) / settings.captureChunkMs);
+    this.vad = new VoiceActivityDetector({ chunkMs: settings.captureChunkMs });
+    this.preRollChunks = Math.ceil(VAD_PRE_ROLL_MS / settings.captureChunkMs);
     this.ai = new GoogleGenAI({ apiKey });
     this.onTranscript = onTranscript;
     this.onStatusChange = onStatusChange;
@@ -76,191 +200,595 @@ export class GeminiLiveService {
     return this.inputAnalyser;
   }
 
-  async connect(topic: string, style: DebateStyle) {
+  /**
+   * Get problems with the settings this service was constructed with
+   */
+  getSettingsIssues(): SettingsIssue[] {
+    return validateSettings(this.settings);
+  }
+
+  async connect(topic: string, opponent: OpponentPersona, options: ConnectOptions = {}) {
     // Prevent multiple simultaneous connections
     if (this.isConnected || this.isConnecting || this.isDisconnecting) {
       console.log('⚠️ Connection already in progress or active, skipping...');
       return;
     }
+
+    // Refuse to start a session with settings that would fail partway through
+    const issues = this.getSettingsIssues();
+    if (issues.length > 0) {
+      throw new Error(`Invalid settings: ${issues.map(i => i.message).join('; ')}`);
+    }
     
     this.isConnecting = true;
+    this.input = options.input ?? 'voice';
+    this.aiVoice = this.input === 'text' && !!options.aiVoice;
+    this.devices = options.devices ?? this.devices;
 
-    if (!navigator.mediaDevices?.getUserMedia) {
+    // Typed debates don't touch the microphone, so they work where it's unavailable
+    if (this.input === 'voice' && !navigator.mediaDevices?.getUserMedia) {
       this.isConnecting = false;
-      throw new Error("Microphone access not supported");
+      throw new Error("Microphone access not supported - switch to a typed debate on the Dashboard");
     }
 
     try {
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          sampleRate: INPUT_SAMPLE_RATE,
-          echoCancellation: true,
-          autoGainControl: true,
-          noiseSuppression: true,
-        }
-      });
+      // Reuses the microphone and output opened by the audio check, if there was one
+      if (this.input === 'voice') {
+        await this.prepareAudio(this.devices);
+      } else if (this.speaksReplies() && !this.outputAudioContext) {
+        this.setupOutputAudio();
+        await this.applyOutputDevice();
+      }
 
-      // Initialize Audio Contexts
-      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: INPUT_SAMPLE_RATE });
-      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
-
-      // Create analyser for output (AI) visualization
-      this.outputAnalyser = this.outputAudioContext.createAnalyser();
-      this.outputAnalyser.fftSize = 2048; // High resolution for liquid visualizer
-      this.outputAnalyser.smoothingTimeConstant = 0.7; // Slightly more responsive
-      console.log('🎛️ Created output analyser:', {
-        fftSize: this.outputAnalyser.fftSize,
-        frequencyBinCount: this.outputAnalyser.frequencyBinCount,
-        smoothing: this.outputAnalyser.smoothingTimeConstant
+      this.topic = topic;
+      this.opponent = opponent;
+      // The opponent's interruption level sets how long a pause ends the user's turn
+      this.vad = new VoiceActivityDetector({
+        chunkMs: this.settings.captureChunkMs,
+        hangoverMs: getInterruptionLevel(opponent.interruption).hangoverMs,
       });
+      this.format = options.format ?? DebateFormat.FREE_FORM;
+      this.side = options.side ?? 'pro';
+      this.motion = options.motion || frameMotion(topic);
+      this.openSocket();
 
-      // Create analyser for input (user) visualization
-      this.inputAnalyser = this.inputAudioContext.createAnalyser();
-      this.inputAnalyser.fftSize = 2048;
-      this.inputAnalyser.smoothingTimeConstant = 0.7;
-      console.log('🎛️ Created input analyser:', {
-        fftSize: this.inputAnalyser.fftSize,
-        frequencyBinCount: this.inputAnalyser.frequencyBinCount,
-        smoothing: this.inputAnalyser.smoothingTimeConstant
-      });
+    } catch (e) {
+      console.error("Connection initialization failed", e);
+      this.isConnecting = false;
+      this.onError(e instanceof Error ? e : new Error("Failed to initialize connection"));
+    }
+  }
+
+  async prepareAudio(devices: AudioDevices = {}): Promise<void> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Microphone access not supported - switch to a typed debate on the Dashboard");
+    }
 
-      // Create gain node and connect: source -> analyser -> gain -> destination
-      this.outputNode = this.outputAudioContext.createGain();
-      this.outputAnalyser.connect(this.outputNode);
-      this.outputNode.connect(this.outputAudioContext.destination);
-      console.log('🔗 Output audio chain connected: source -> analyser -> gain -> destination');
+    // Switching microphones releases the previous one
+    if (this.mediaStream && devices.inputDeviceId !== this.devices.inputDeviceId) {
+      this.releaseMicrophone();
+    }
+    this.devices = devices;
+
+    if (!this.mediaStream) {
+      const generation = this.audioGeneration;
+      const stream = await this.openMicrophone(devices.inputDeviceId);
+      if (generation !== this.audioGeneration) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.mediaStream = stream;
+    }
+
+    // Initialize Audio Contexts - input runs at the device rate and the capture worklet resamples
+    if (!this.inputAudioContext) {
+      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.setupInputAnalyser(this.inputAudioContext);
+    }
+    // The analyser is fed straight away so the audio check can meter the microphone before the session starts
+    if (!this.inputSource) {
+      this.inputSource = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
+      if (this.inputAnalyser) this.inputSource.connect(this.inputAnalyser);
+    }
+    if (!this.outputAudioContext) {
+      this.setupOutputAudio();
+    }
+    await this.applyOutputDevice();
 
-      // Construct WebSocket URI
-      const uri = `wss://${HOST}/ws/google.ai.generativelanguage.${API_VERSION}.GenerativeService.BidiGenerateContent?key=${this.apiKey}`;
+    // Contexts created after the click that started the debate may begin suspended
+    void this.inputAudioContext.resume();
+  }
 
-      this.ws = new WebSocket(uri);
+  playTestTone(): void {
+    const context = this.outputAudioContext;
+    if (!context || !this.outputAnalyser) return;
+    void context.resume();
+
+    // A short sine with soft edges, through the same analyser and gain the AI's voice uses
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    const start = context.currentTime;
+    oscillator.frequency.value = TEST_TONE_HZ;
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(0.3, start + 0.05);
+    envelope.gain.setValueAtTime(0.3, start + TEST_TONE_SECONDS - 0.05);
+    envelope.gain.linearRampToValueAtTime(0, start + TEST_TONE_SECONDS);
+    oscillator.connect(envelope);
+    envelope.connect(this.outputAnalyser);
+    oscillator.start(start);
+    oscillator.stop(start + TEST_TONE_SECONDS);
+    oscillator.onended = () => envelope.disconnect();
+  }
 
-      this.ws.onopen = () => {
-        // RACE CONDITION FIX: Check if we were disconnected while connecting
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN || this.isDisconnecting) {
-          console.log("⚠️ Connection opened but service was disconnected/closed");
-          return;
+  /**
+   * Opens the chosen microphone, falling back to the default one when it has been unplugged
+   */
+  private async openMicrophone(deviceId?: string): Promise<MediaStream> {
+    const constraints: MediaTrackConstraints = {
+      channelCount: 1,
+      sampleRate: INPUT_SAMPLE_RATE,
+      echoCancellation: true,
+      autoGainControl: true,
+      noiseSuppression: true,
+    };
+    if (deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({ audio: { ...constraints, deviceId: { exact: deviceId } } });
+      } catch (e) {
+        if (!(e instanceof DOMException) || !['OverconstrainedError', 'NotFoundError'].includes(e.name)) throw e;
+        console.warn('🎙️ Chosen microphone unavailable, using the default one');
+        this.devices = { ...this.devices, inputDeviceId: undefined };
+      }
+    }
+    return navigator.mediaDevices.getUserMedia({ audio: constraints });
+  }
+
+  /**
+   * Sends the output to the chosen speaker where the browser supports it
+   */
+  private async applyOutputDevice() {
+    const context = this.outputAudioContext as SinkAudioContext | null;
+    if (!context?.setSinkId) return;
+    try {
+      await context.setSinkId(this.devices.outputDeviceId ?? '');
+    } catch (e) {
+      console.error("Could not switch audio output, using the default one", e);
+    }
+  }
+
+  /**
+   * Stops the microphone and detaches it from the input chain
+   */
+  private releaseMicrophone() {
+    if (this.inputSource) {
+      try {
+        this.inputSource.disconnect();
+      } catch (e) {
+        console.error("Error disconnecting input source:", e);
+      }
+      this.inputSource = null;
+    }
+
+    // Stop all media tracks to release microphone
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => {
+        try {
+          track.stop();
+        } catch (e) {
+          console.error("Error stopping media track:", e);
         }
+      });
+      this.mediaStream = null;
+    }
+  }
+
+  /**
+   * Whether the AI answers with speech (always when the user speaks, optionally when they type)
+   */
+  private speaksReplies(): boolean {
+    return this.input === 'voice' || this.aiVoice;
+  }
+
+  /**
+   * Creates the analyser the user visualization reads from the microphone
+   */
+  private setupInputAnalyser(context: AudioContext) {
+    this.inputAnalyser = context.createAnalyser();
+    this.inputAnalyser.fftSize = 2048;
+    this.inputAnalyser.smoothingTimeConstant = 0.7;
+    console.log('🎛️ Created input analyser:', {
+      fftSize: this.inputAnalyser.fftSize,
+      frequencyBinCount: this.inputAnalyser.frequencyBinCount,
+      smoothing: this.inputAnalyser.smoothingTimeConstant
+    });
+  }
 
-        console.log("✅ Connected to Gemini");
-        this.isConnected = true;
-        this.isConnecting = false;
-        this.onStatusChange(true);
-
-        // Generate System Instruction
-        const systemInstruction = this.generateSystemInstruction(topic, style);
-        const voiceName = style === DebateStyle.AGGRESSIVE ? 'Fenrir' : 'Puck';
-
-        // Send Setup Message with transcription enabled
-        const setupMessage = {
-          setup: {
-            model: MODEL,
-            generation_config: {
-              response_modalities: ["AUDIO"],
-              speech_config: {
-                voice_config: {
-                  prebuilt_voice_config: {
-                    voice_name: voiceName
+  /**
+   * Creates the output audio chain the AI's speech plays through
+   */
+  private setupOutputAudio() {
+    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+
+    // Create analyser for output (AI) visualization
+    this.outputAnalyser = this.outputAudioContext.createAnalyser();
+    this.outputAnalyser.fftSize = 2048; // High resolution for liquid visualizer
+    this.outputAnalyser.smoothingTimeConstant = 0.7; // Slightly more responsive
+    console.log('🎛️ Created output analyser:', {
+      fftSize: this.outputAnalyser.fftSize,
+      frequencyBinCount: this.outputAnalyser.frequencyBinCount,
+      smoothing: this.outputAnalyser.smoothingTimeConstant
+    });
+
+    // Create gain node and connect: source -> analyser -> gain -> destination
+    this.outputNode = this.outputAudioContext.createGain();
+    this.outputAnalyser.connect(this.outputNode);
+    this.outputNode.connect(this.outputAudioContext.destination);
+    console.log('🔗 Output audio chain connected: source -> analyser -> gain -> destination');
+  }
+
+  /**
+   * Opens the Live WebSocket and sends the setup message.
+   * Used for the first connection and for every reconnection attempt
+   * @param resumeContext - Condensed conversation appended to the system instruction on resume
+   */
+  private openSocket(resumeContext: string = '') {
+    const ws = new WebSocket(buildLiveUrl(this.settings, this.apiKey));
+    this.ws = ws;
+
+    ws.onopen = () => {
+      // RACE CONDITION FIX: Check if we were disconnected while connecting
+      if (this.ws !== ws || ws.readyState !== WebSocket.OPEN || this.isDisconnecting) {
+        console.log("⚠️ Connection opened but service was disconnected/closed");
+        return;
+      }
+
+      const resumed = this.sessionStarted;
+      console.log(resumed ? "✅ Reconnected to Gemini" : "✅ Connected to Gemini");
+      this.isConnected = true;
+      this.isConnecting = false;
+      this.isReconnecting = false;
+      this.clearStableTimer();
+      this.stableTimer = window.setTimeout(() => {
+        this.stableTimer = null;
+        this.reconnectAttempt = 0;
+      }, STABLE_CONNECTION_MS);
+      this.sessionStarted = true;
+      this.onStatusChange(true);
+
+      // Generate System Instruction
+      const systemInstruction =
+        this.generateSystemInstruction(this.topic) +
+        buildFormatInstruction(getDebateFormat(this.format), this.side) +
+        (this.input === 'text' ? TEXT_INPUT_INSTRUCTION : '') +
+        resumeContext;
+      const voiceName = this.opponent.voice;
+
+      // Send Setup Message with transcription enabled
+      // Typed debates without AI voice get written replies; spoken replies are transcribed
+      const setupMessage = {
+        setup: {
+          model: `models/${this.settings.liveModel}`,
+          generation_config: this.speaksReplies()
+            ? {
+                response_modalities: ["AUDIO"],
+                speech_config: {
+                  voice_config: {
+                    prebuilt_voice_config: {
+                      voice_name: voiceName
+                    }
                   }
                 }
               }
-            },
-            system_instruction: {
-              parts: [{ text: systemInstruction }]
-            },
-            // Enable transcription for both input and output
+            : { response_modalities: ["TEXT"] },
+          system_instruction: {
+            parts: [{ text: systemInstruction }]
+          },
+          ...(this.speaksReplies() && { output_audio_transcription: {} }),
+          ...(this.input === 'voice' && {
             input_audio_transcription: {},
-            output_audio_transcription: {}
-          }
-        };
-
-        this.ws?.send(JSON.stringify(setupMessage));
-        if (this.mediaStream) {
-          this.handleOpen(this.mediaStream);
+            // User turns are marked with activity_start / activity_end from local VAD or push-to-talk
+            realtime_input_config: {
+              automatic_activity_detection: { disabled: true }
+            }
+          })
         }
       };
 
-      this.ws.onmessage = async (event) => {
-        try {
-          const response = JSON.parse(await event.data.text());
-          this.handleMessage(response);
-        } catch (e) {
-          console.error("Error parsing message", e);
+      ws.send(JSON.stringify(setupMessage));
+
+      if (resumed) {
+        // Capture kept running through the gap - send what the user said meanwhile
+        this.flushBufferedAudio();
+      } else {
+        // Spoken replies are recorded for replay, whether the user speaks or types
+        if (this.speaksReplies() && this.outputAudioContext && this.outputNode) {
+          this.recorder.start(this.outputAudioContext, this.outputNode, this.mediaStream);
         }
-      };
+        if (this.mediaStream) this.handleOpen(this.mediaStream);
+      }
+    };
 
-      this.ws.onclose = (event) => {
-        console.log(`❌ Disconnected: ${event.code} - ${event.reason}`);
-        this.handleClose();
-      };
+    ws.onmessage = async (event) => {
+      try {
+        const response = JSON.parse(await event.data.text());
+        this.handleMessage(response);
+      } catch (e) {
+        console.error("Error parsing message", e);
+      }
+    };
 
-      this.ws.onerror = (error) => {
-        console.error("WebSocket Error:", error);
-        this.handleClose();
-        this.onError(new Error("WebSocket connection failed"));
-      };
+    ws.onclose = (event) => {
+      console.log(`❌ Disconnected: ${event.code} - ${event.reason}`);
+      if (this.ws !== ws) return;
+      this.handleClose();
+    };
 
-    } catch (e) {
-      console.error("Connection initialization failed", e);
-      this.isConnecting = false;
-      this.onError(e instanceof Error ? e : new Error("Failed to initialize connection"));
-    }
+    ws.onerror = (error) => {
+      console.error("WebSocket Error:", error);
+      // Once a session is running, onclose follows and drives reconnection
+      if (this.ws !== ws || this.sessionStarted) return;
+      this.handleClose();
+      this.onError(new Error("WebSocket connection failed"));
+    };
   }
 
   private handleOpen = async (stream: MediaStream) => {
     // Setup Audio Input Processing
     if (!this.inputAudioContext) return;
+    const context = this.inputAudioContext;
 
-    this.inputSource = this.inputAudioContext.createMediaStreamSource(stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(512, 1, 1);
+    try {
+      await context.audioWorklet.addModule(CAPTURE_WORKLET_URL);
+    } catch (e) {
+      console.error("Failed to load capture worklet", e);
+      this.onError(new Error("Microphone capture could not start"));
+      return;
+    }
 
-    // Connect input audio chain: source -> analyser -> processor -> destination
+    // Disconnected while the worklet module was loading
+    if (this.inputAudioContext !== context || this.isDisconnecting) return;
+
+    // The audio check may already have attached the microphone to the analyser
+    this.inputSource ??= context.createMediaStreamSource(stream);
+    this.processor = new AudioWorkletNode(context, CAPTURE_WORKLET_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: {
+        targetSampleRate: INPUT_SAMPLE_RATE,
+        chunkMs: this.settings.captureChunkMs,
+      },
+    });
+    this.processor.port.onmessage = this.handleCaptureChunk;
+
+    // Connect input audio chain: source -> analyser -> worklet -> destination
     if (this.inputAnalyser) {
       this.inputSource.connect(this.inputAnalyser);
       this.inputAnalyser.connect(this.processor);
-      console.log('🔗 Input audio chain: source -> analyser -> processor -> destination');
+      console.log('🔗 Input audio chain: source -> analyser -> worklet -> destination');
     } else {
       this.inputSource.connect(this.processor);
     }
 
-    this.processor.onaudioprocess = (e) => {
-      // Guard: Do not process or send if not connected or socket is not open
-      if (!this.isConnected || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    // The worklet outputs silence; connecting it keeps it in the rendering graph
+    this.processor.connect(context.destination);
+  };
+
+  /**
+   * Receives one batched Int16 chunk from the capture worklet and streams it.
+   * This is the only per-chunk work left on the main thread; see audioUtils.bench.ts for its cost
+   */
+  private handleCaptureChunk = (event: MessageEvent<CaptureChunk>) => {
+    // Guard: Do not process while paused, or unless live or waiting to reconnect
+    if (this.paused || (!this.isConnected && !this.isReconnecting)) return;
+
+    const { level } = event.data;
+    this.onAudioLevel(level * 50);
 
-      const inputData = e.inputBuffer.getChannelData(0);
+    const chunk = encodeBase64(event.data.pcm);
+    const vadSpeaking = this.vad.update(level);
+    const speaking = !this.inputMuted && (this.inputMode === 'vad' ? vadSpeaking : this.talkPressed);
 
-      // Simple volume meter
-      let sum = 0;
-      for (let i = 0; i < inputData.length; i++) {
-        const sample = inputData[i] ?? 0;
-        sum += sample * sample;
+    if (speaking) {
+      if (!this.userActive) this.startActivity();
+      this.sendAudio(chunk);
+    } else {
+      if (this.userActive) this.endActivity();
+      this.preRoll.push(chunk);
+      if (this.preRoll.length > this.preRollChunks) this.preRoll.shift();
+    }
+  };
+
+  /**
+   * Send a chunk of user audio; held back while reconnecting and replayed once resumed
+   */
+  sendAudio(base64Pcm: string) {
+    if (this.inputMuted) return;
+
+    if (this.isConnected && this.ws?.readyState === WebSocket.OPEN) {
+      this.sendAudioChunk(base64Pcm);
+    } else if (this.isReconnecting) {
+      this.bufferAudioChunk(base64Pcm);
+    }
+  }
+
+  /**
+   * Send a text turn into the live conversation
+   */
+  sendText(text: string, expectResponse: boolean) {
+    if (!this.isConnected || this.ws?.readyState !== WebSocket.OPEN) return;
+
+    const msg = {
+      client_content: {
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turn_complete: expectResponse
       }
-      const rms = Math.sqrt(sum / inputData.length);
-      this.onAudioLevel(rms * 50);
-
-      // Convert Float32 (Browser) -> Int16 PCM (Gemini)
-      const pcm16 = this.floatTo16BitPCM(inputData);
-
-      // Convert to Base64
-      const base64Data = this.arrayBufferToBase64(pcm16);
-
-      // Send Realtime Input
-      const msg = {
-        realtime_input: {
-          media_chunks: [{
-            mime_type: "audio/pcm",
-            data: base64Data
-          }]
-        }
-      };
+    };
+
+    this.ws.send(JSON.stringify(msg));
+  }
+
+  sendUserMessage(text: string): boolean {
+    const message = text.trim();
+    if (!message || this.inputMuted || this.paused || !this.isConnected || this.ws?.readyState !== WebSocket.OPEN) return false;
+
+    this.recordTranscript('user', message);
+    const last = this.transcriptLog[this.transcriptLog.length - 1];
+    if (last) last.closed = true;
+    this.onTranscript(message, true, false);
+    this.onTranscript('', true, true);
+
+    this.sendText(message, true);
+    return true;
+  }
+
+  setInputMuted(muted: boolean) {
+    this.inputMuted = muted;
+    if (muted && this.userActive) this.endActivity();
+  }
+
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    if (this.userActive) this.endActivity();
+    this.talkPressed = false;
+    // The recording keeps running so replay stays in step with the transcript, without the room
+    this.recorder.setMicrophoneMuted(true);
+
+    // Whatever the AI was saying is cut off here, and the rest of it is dropped until resume
+    const last = this.transcriptLog[this.transcriptLog.length - 1];
+    this.replyCutByPause = this.sources.size > 0 || (last?.role === 'model' && !last.closed);
+    this.stopAllAudio();
+    if (this.replyCutByPause) {
+      if (last?.role === 'model') last.closed = true;
+      this.onInterrupted();
+    }
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.vad.reset();
+    this.recorder.setMicrophoneMuted(false);
+
+    // The session closed during the pause; the new one is seeded with the debate so far
+    if (this.rebuildOnResume) {
+      this.rebuildOnResume = false;
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.sendText(this.replyCutByPause ? PAUSE_CUT_REPLY_NOTE : PAUSE_RESUMED_NOTE, this.replyCutByPause);
+    this.replyCutByPause = false;
+  }
+
+  setInputMode(mode: InputMode) {
+    if (mode === this.inputMode) return;
+    if (this.userActive) this.endActivity();
+    this.inputMode = mode;
+    this.talkPressed = false;
+    this.vad.reset();
+  }
+
+  setTalkPressed(pressed: boolean) {
+    this.talkPressed = pressed;
+  }
+
+  /**
+   * Opens a user turn and sends the audio captured just before it was detected
+   */
+  private startActivity() {
+    this.userActive = true;
+    this.sendActivitySignal('activity_start');
+    const preRoll = this.preRoll;
+    this.preRoll = [];
+    preRoll.forEach(chunk => this.sendAudio(chunk));
+    this.speechActivity.userStarted();
+    this.onActivityChange(true);
+  }
+
+  private endActivity() {
+    this.userActive = false;
+    this.sendActivitySignal('activity_end');
+    this.speechActivity.userStopped();
+    this.onActivityChange(false);
+  }
+
+  /**
+   * Sends activity_start / activity_end. While reconnecting nothing is sent;
+   * flushBufferedAudio wraps the replayed audio in its own signals
+   */
+  private sendActivitySignal(signal: 'activity_start' | 'activity_end') {
+    if (!this.isConnected || this.ws?.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify({ realtime_input: { [signal]: {} } }));
+  }
 
-      this.ws?.send(JSON.stringify(msg));
+  private sendAudioChunk(base64Data: string) {
+    // Send Realtime Input
+    const msg = {
+      realtime_input: {
+        media_chunks: [{
+          mime_type: "audio/pcm",
+          data: base64Data
+        }]
+      }
     };
 
-    // Connect processor to destination (source->analyser->processor is already connected above)
-    this.processor.connect(this.inputAudioContext.destination);
-  };
+    this.ws?.send(JSON.stringify(msg));
+  }
+
+  private bufferAudioChunk(base64Data: string) {
+    this.bufferedAudio.push(base64Data);
+    if (this.bufferedAudio.length > this.maxBufferedChunks) {
+      this.bufferedAudio.shift();
+    }
+  }
+
+  private flushBufferedAudio() {
+    if (this.bufferedAudio.length > 0) {
+      console.log(`🔁 Replaying ${this.bufferedAudio.length} buffered audio chunks`);
+    }
+    const chunks = this.bufferedAudio;
+    this.bufferedAudio = [];
+
+    // The new session has no open turn: reopen it for the replayed audio or the ongoing one
+    if (chunks.length > 0 || this.userActive) this.sendActivitySignal('activity_start');
+    chunks.forEach(chunk => this.sendAudioChunk(chunk));
+    if (chunks.length > 0 && !this.userActive) this.sendActivitySignal('activity_end');
+  }
+
+  /**
+   * Keeps a running log of the conversation so a reconnected session can be re-seeded
+   */
+  private recordTranscript(role: 'user' | 'model', text: string) {
+    const last = this.transcriptLog[this.transcriptLog.length - 1];
+    if (last && last.role === role && !last.closed) {
+      last.text = appendTranscriptText(last.text, text);
+    } else {
+      this.transcriptLog.push({ role, text, closed: false });
+    }
+  }
+
+  private buildResumeContext(): string {
+    const turns = this.transcriptLog
+      .filter(turn => turn.text.trim().length > 0)
+      .slice(-RESUME_TURN_LIMIT);
+
+    if (turns.length === 0) return '';
+
+    const lines = turns.map(turn => {
+      const text = turn.text.trim();
+      const condensed = text.length > RESUME_TURN_MAX_CHARS ? `${text.slice(0, RESUME_TURN_MAX_CHARS)}...` : text;
+      return `${turn.role === 'user' ? 'USER' : 'YOU'}: ${condensed}`;
+    });
+
+    return `
+
+The connection was briefly interrupted. This is the debate so far (most recent last):
+${lines.join('\n')}
+
+Continue the debate from where it left off. Do not greet the user again or restart the topic.`;
+  }
 
   private handleMessage = async (response: any) => {
     // Ignore messages if we're disconnected or disconnecting
@@ -269,21 +797,26 @@ export class GeminiLiveService {
       return;
     }
 
-    // 1. Handle Audio Output
-    if (response.serverContent?.modelTurn?.parts) {
+    // 1. Handle Audio Output, or the written reply when the AI doesn't speak - dropped while paused
+    if (response.serverContent?.modelTurn?.parts && !this.paused) {
       const parts = response.serverContent.modelTurn.parts;
       for (const part of parts) {
         if (part.inlineData && part.inlineData.mimeType.startsWith("audio/")) {
           const base64Audio = part.inlineData.data;
+          this.onModelAudio(base64Audio);
           this.playAudioChunk(base64Audio);
+        } else if (typeof part.text === 'string' && !this.speaksReplies()) {
+          this.recordTranscript('model', part.text);
+          this.onTranscript(part.text, false, false);
         }
       }
     }
 
     // 2. Handle Transcription - Output (Model speaking)
-    if (response.serverContent?.outputTranscription?.text) {
+    if (response.serverContent?.outputTranscription?.text && !this.paused) {
       const text = response.serverContent.outputTranscription.text;
       console.log('🤖 Model transcription:', text);
+      this.recordTranscript('model', text);
       this.onTranscript(text, false, false); // isUser=false, isFinal=false
     }
 
@@ -291,17 +824,23 @@ export class GeminiLiveService {
     if (response.serverContent?.inputTranscription?.text) {
       const text = response.serverContent.inputTranscription.text;
       console.log('👤 User transcription:', text);
+      this.recordTranscript('user', text);
       this.onTranscript(text, true, false); // isUser=true, isFinal=false
     }
 
     // 4. Handle Interruption
     if (response.serverContent?.interrupted) {
-      console.log("Model interrupted user");
+      console.log("User interrupted model");
       this.stopAllAudio();
+      const last = this.transcriptLog[this.transcriptLog.length - 1];
+      if (last?.role === 'model') last.closed = true;
+      this.onInterrupted();
     }
 
     // 5. Turn Complete
     if (response.serverContent?.turnComplete) {
+      const last = this.transcriptLog[this.transcriptLog.length - 1];
+      if (last) last.closed = true;
       this.onTranscript("", false, true); // Signal turn complete
     }
   };
@@ -311,8 +850,9 @@ export class GeminiLiveService {
     if (!this.isConnected || this.isDisconnecting || !this.outputAudioContext || !this.outputNode) return;
 
     try {
+      const pcm = decode(base64Audio);
       const audioBuffer = await decodeAudioData(
-        decode(base64Audio),
+        pcm,
         this.outputAudioContext,
         OUTPUT_SAMPLE_RATE,
         1
@@ -339,6 +879,8 @@ export class GeminiLiveService {
       });
 
       source.start(this.nextStartTime);
+      const playsAt = Date.now() + (this.nextStartTime - this.outputAudioContext.currentTime) * 1000;
+      this.speechActivity.modelScheduled(playsAt, playsAt + audioBuffer.duration * 1000);
       this.nextStartTime += audioBuffer.duration;
       this.sources.add(source);
     } catch (e) {
@@ -358,172 +900,253 @@ export class GeminiLiveService {
     });
     this.sources.clear();
     this.nextStartTime = 0;
+    this.speechActivity.modelStopped();
+  }
+
+  /**
+   * When the user and the AI were speaking this session, for local speech metrics
+   */
+  getSpeechActivity(): SpeechActivityLog {
+    return this.speechActivity.snapshot();
+  }
+
+  /**
+   * Stops recording and returns the mixed microphone and model audio.
+   * Call before disconnect(), which discards anything not yet collected
+   */
+  finishRecording(): Promise<RecordedAudio | null> {
+    return this.recorder.finish();
   }
 
   private handleClose = () => {
+    this.clearStableTimer();
     this.isConnected = false;
     this.isConnecting = false;
+    this.ws = null;
     this.onStatusChange(false);
 
+    // Stop all audio playback
+    this.stopAllAudio();
+
+    // A dropped session is resumed; capture keeps running into the gap buffer
+    if (this.sessionStarted && !this.isDisconnecting) {
+      // Nothing needs the session while paused, so it is only rebuilt on resume
+      if (this.paused) {
+        this.rebuildOnResume = true;
+        return;
+      }
+      this.scheduleReconnect();
+      return;
+    }
+
     // Stop audio processing
     if (this.processor) {
       this.processor.disconnect();
-      this.processor.onaudioprocess = null;
+      this.processor.port.onmessage = null;
     }
     if (this.inputSource) {
       this.inputSource.disconnect();
     }
-
-    // Stop all audio playback
-    this.stopAllAudio();
-
-    // Don't close WebSocket here - it's already closing
-    // Just clear the reference
-    if (this.ws) {
-      this.ws = null;
-    }
   }
 
-  // Helper functions
-  private floatTo16BitPCM(input: Float32Array) {
-    const output = new Int16Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      const sample = input[i] ?? 0;
-      const s = Math.max(-1, Math.min(1, sample));
-      output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  private clearStableTimer() {
+    if (this.stableTimer !== null) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
     }
-    return output.buffer;
   }
 
-  private arrayBufferToBase64(buffer: ArrayBuffer) {
-    let binary = "";
-    const bytes = new Uint8Array(buffer);
-    for (let i = 0; i < bytes.byteLength; i++) {
-      const byte = bytes[i] ?? 0;
-      binary += String.fromCharCode(byte);
+  private scheduleReconnect() {
+    if (this.reconnectTimer !== null) return;
+
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`❌ Giving up after ${MAX_RECONNECT_ATTEMPTS} reconnection attempts`);
+      this.isReconnecting = false;
+      this.onError(new Error("Connection lost. Could not reconnect to Gemini."));
+      void this.disconnect();
+      return;
     }
-    return window.btoa(binary);
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempt++;
+    this.isReconnecting = true;
+    console.log(`🔄 Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS})`);
+    this.onReconnecting(this.reconnectAttempt, delay);
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isDisconnecting || !this.isReconnecting) return;
+      this.isConnecting = true;
+      this.openSocket(this.buildResumeContext());
+    }, delay);
   }
 
-  async analyzeDebate(transcript: ChatMessage[], topic: string): Promise<DebateAnalysis | null> {
+  async analyze(transcript: ChatMessage[], topic: string, options: AnalysisOptions = {}): Promise<DebateAnalysis | null> {
+    const { side, rubric = STANDARD_RUBRIC, input = 'voice' } = options;
+
     // Validate user participation (AC1, AC3, AC6)
-    console.log('📊 Analyzing debate with transcript:', transcript);
-    const userMessages = transcript.filter(m => m.role === 'user');
-    console.log('👤 User messages found:', userMessages.length, userMessages);
-    
-    // Check if user spoke at all
-    if (userMessages.length === 0) {
-      console.log('⚠️ No user participation detected - no user messages');
-      return null;
-    }
-    
-    // Check if user spoke enough (minimum 5 words - reduced threshold)
-    const totalWords = userMessages.reduce((count, msg) => {
-      const words = msg.text.trim().split(/\s+/).filter(w => w.length > 0);
-      return count + words.length;
-    }, 0);
-    
+    const totalWords = countUserWords(transcript);
     console.log(`📝 Total user words: ${totalWords}`);
-    
-    if (totalWords < 5) {
-      console.log(`⚠️ Insufficient user participation detected - only ${totalWords} words (minimum 5 required)`);
+
+    if (totalWords < MIN_ANALYSIS_WORDS) {
+      console.log(`⚠️ Insufficient user participation detected - only ${totalWords} words (minimum ${MIN_ANALYSIS_WORDS} required)`);
       return null;
     }
 
-    const conversation = transcript
-      .filter(m => m.role !== 'system')
-      .map(m => `${m.role.toUpperCase()}: ${m.text}`)
+    // Numbered turns, so the per-turn breakdown can point back at them
+    const conversation = buildTranscriptTurns(transcript)
+      .map(turn => `[Turn ${turn.index}] ${turn.role.toUpperCase()}: ${getTurnText(turn)}`)
       .join('\n');
 
-    const prompt = `You are a fair and constructive debate coach analyzing the following debate transcript on the topic "${topic}".
+    const prompt = `You are a fair and constructive debate coach analyzing the following debate transcript on the topic "${topic}".${side ? `
+The USER argued the ${SIDE_LABELS[side]} side (${side === 'pro' ? 'for' : 'against'} the motion); judge how well they defended that side.` : ''}${input === 'text' ? `
+The USER typed their turns in a chat instead of speaking. Judge clarity and delivery on the writing, and don't comment on pronunciation, pace or other aspects of speech.` : ''}
 
 TRANSCRIPT:
 ${conversation}
 
 Generate a detailed JSON analysis of the USER'S performance.
 
-EVALUATION GUIDELINES:
-1. **Be Fair and Balanced**: Recognize effort and engagement while providing constructive feedback.
-
-2. **Score Distribution**:
-   - 0-20: Minimal participation or completely off-topic
-   - 21-40: Basic participation but needs significant improvement
-   - 41-60: Decent effort with clear room for growth
-   - 61-80: Good performance with strong arguments and clarity
-   - 81-100: Excellent debating skills, persuasive and articulate
+SCORING:
+${buildRubricGuide(rubric)}
 
-3. **Baseline Scoring**: Anyone who participates and engages in the debate should receive AT MINIMUM:
-   - Overall Score: 40-50 (for basic participation)
-   - Individual metrics: 40-60 (for attempting to engage)
+FEEDBACK GUIDELINES:
+1. **Archetype**: Create an encouraging yet accurate archetype name based on their style
+2. **Wildcard Insight**: Find something specific and interesting about their approach
+3. **Strengths**: List 2-3 genuine strengths they demonstrated
+4. **Weaknesses**: Identify 2-3 areas for improvement in a constructive way
+5. **Suggestions**: Provide 4-6 specific, actionable tips for improvement
+6. **Turn Analysis**: For EVERY USER turn, in order, give its turn number, the main claim in one sentence, the quality of the evidence offered (None, Weak, Moderate, Strong), how directly it responded to the AI turn right before it (Ignored, Partial, Direct; use Direct for an opening turn that sets out the case), a short note on each, and any logical fallacies (an empty list if there are none)
+7. **Fallacies**: Tag a fallacy only when the user clearly commits it. Use one of these types, quote the user's exact words from that turn (a short span, copied verbatim) and explain in one sentence why it is a fallacy:
+${buildFallacyGuide()}`;
 
-4. **Scoring Criteria**:
-   - **Vocabulary**: 40-60 for basic conversation, 60-80 for good vocabulary, 80+ for advanced
-   - **Clarity**: 50-70 for understandable speech, 70-85 for clear communication, 85+ for excellent
-   - **Argument Strength**: 45-65 for basic arguments, 65-80 for solid reasoning, 80+ for exceptional
-   - **Persuasion**: 45-65 for engaged participation, 65-80 for convincing delivery, 80+ for compelling
-   - **Adaptability**: 45-65 for responsive dialogue, 65-80 for good adaptation, 80+ for excellent
+    const criterionScoresSchema = buildCriterionScoresSchema(rubric);
+    let lastError: unknown;
 
-5. **Important**: If the user is clearly trying to debate and responding to the AI, they should score 35-55 range minimum. Only give scores below 35 if there's truly minimal participation or completely off-topic responses. Like overall U have to check the User speaking level as well as U have to check If a user can deliver its point successfully to opponent.
+    // Transient API errors and malformed responses are both worth another try
+    for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+      try {
+        const result = await this.ai.models.generateContent({
+          model: this.settings.analysisModel,
+          contents: prompt,
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: 'object',
+              properties: {
+                confidenceLevel: { type: 'string', enum: CONFIDENCE_LEVELS },
+                englishProficiency: { type: 'string', enum: PROFICIENCY_LEVELS },
+                vocabularyScore: { type: 'number', description: "0-100" },
+                clarityScore: { type: 'number', description: "0-100" },
+                argumentStrength: { type: 'number', description: "0-100" },
+                persuasionScore: { type: 'number', description: "0-100" },
+                strategicAdaptability: { type: 'number', description: "0-100" },
+                archetype: { type: 'string', description: "Creative label for the user" },
+                wildcardInsight: { type: 'string', description: "Unique observation" },
+                emotionalState: { type: 'string', description: "e.g. Calm, Agitated" },
+                strengths: { type: 'array', items: { type: 'string' } },
+                weaknesses: { type: 'array', items: { type: 'string' } },
+                suggestions: { type: 'array', items: { type: 'string' } },
+                turnAnalysis: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      turnIndex: { type: 'integer', description: "Number of the USER turn in the transcript" },
+                      claim: { type: 'string' },
+                      evidenceQuality: { type: 'string', enum: EVIDENCE_QUALITIES },
+                      evidenceNote: { type: 'string' },
+                      responsiveness: { type: 'string', enum: RESPONSIVENESS_LEVELS },
+                      responsivenessNote: { type: 'string' },
+                      fallacies: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            type: { type: 'string', enum: FALLACY_TYPES },
+                            quote: { type: 'string', description: "The user's exact words from this turn" },
+                            explanation: { type: 'string' }
+                          },
+                          required: ["type", "quote", "explanation"]
+                        }
+                      }
+                    },
+                    required: ["turnIndex", "claim", "evidenceQuality", "evidenceNote", "responsiveness", "responsivenessNote", "fallacies"]
+                  }
+                },
+                ...(criterionScoresSchema && { criterionScores: criterionScoresSchema })
+              },
+              required: ["confidenceLevel", "englishProficiency", "vocabularyScore", "clarityScore", "argumentStrength", "persuasionScore", "strategicAdaptability", "archetype", "wildcardInsight", "emotionalState", "strengths", "weaknesses", "suggestions", "turnAnalysis", ...(criterionScoresSchema ? ["criterionScores"] : [])]
+            }
+          }
+        });
 
-6. **Archetype**: Create an encouraging yet accurate archetype name based on their style
-7. **Wildcard Insight**: Find something specific and interesting about their approach
-8. **Strengths**: List 2-3 genuine strengths they demonstrated
-9. **Weaknesses**: Identify 2-3 areas for improvement in a constructive way
-10. **Suggestions**: Provide 4-6 specific, actionable tips for improvement
+        const text = result.text;
+        if (!text) throw new Error("No analysis generated");
+        return scoreAnalysis(rubric, parseAnalysisResponse(text, rubric));
+      } catch (e) {
+        lastError = e;
+        console.error(`Analysis attempt ${attempt}/${MAX_ANALYSIS_ATTEMPTS} failed`, e);
+        if (attempt < MAX_ANALYSIS_ATTEMPTS) {
+          await new Promise(resolve => window.setTimeout(resolve, ANALYSIS_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+        }
+      }
+    }
 
-CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and trying to debate, they deserve 50-70 range. Reserve low scores (below 40) ONLY for cases of no participation or completely incoherent responses. Recognize effort and engagement with appropriate scores.`;
+    throw new Error(
+      `Analysis failed after ${MAX_ANALYSIS_ATTEMPTS} attempts: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+  }
 
-    try {
-      const result = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: prompt,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: 'object',
-            properties: {
-              score: { type: 'number', description: "Overall score 0-100" },
-              confidenceLevel: { type: 'string', enum: ["Low", "Medium", "High", "Unstoppable"] },
-              englishProficiency: { type: 'string', enum: ["Beginner", "Intermediate", "Advanced", "Native"] },
-              vocabularyScore: { type: 'number', description: "0-100" },
-              clarityScore: { type: 'number', description: "0-100" },
-              argumentStrength: { type: 'number', description: "0-100" },
-              persuasionScore: { type: 'number', description: "0-100" },
-              strategicAdaptability: { type: 'number', description: "0-100" },
-              archetype: { type: 'string', description: "Creative label for the user" },
-              wildcardInsight: { type: 'string', description: "Unique observation" },
-              emotionalState: { type: 'string', description: "e.g. Calm, Agitated" },
-              strengths: { type: 'array', items: { type: 'string' } },
-              weaknesses: { type: 'array', items: { type: 'string' } },
-              suggestions: { type: 'array', items: { type: 'string' } }
+  async generateMotion(options: MotionOptions = {}): Promise<string> {
+    const { category, difficulty, avoid = [] } = options;
+    const categoryLabel = TOPIC_CATEGORIES.find(c => c.value === category)?.label;
+    const level = TOPIC_DIFFICULTIES.find(d => d.value === difficulty);
+    const avoided = new Set(avoid.map(normalizeTopic));
+    const recentAvoid = avoid.slice(-MAX_AVOIDED_TOPICS);
+
+    const prompt = `Write one fresh, debatable motion for a one-on-one practice debate.${categoryLabel ? `
+Category: ${categoryLabel}.` : ''}${level ? `
+Difficulty: ${level.label} - ${level.description}.` : ''}
+The motion must be a single sentence with reasonable arguments on both sides, phrased either as a policy ("Ban ...", "Should governments ...?") or as a claim ("X does more harm than good"). Do not start it with "This House".${recentAvoid.length > 0 ? `
+It must be clearly different from all of these topics the user has already debated:
+${recentAvoid.map(topic => `- ${topic}`).join('\n')}` : ''}`;
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= MAX_MOTION_ATTEMPTS; attempt++) {
+      try {
+        const result = await this.ai.models.generateContent({
+          model: this.settings.analysisModel,
+          contents: prompt,
+          config: {
+            responseMimeType: 'application/json',
+            temperature: 1.2,
+            responseSchema: {
+              type: 'object',
+              properties: {
+                topic: { type: 'string', description: 'The motion, one sentence' },
+              },
+              required: ['topic'],
             },
-            required: ["score", "confidenceLevel", "englishProficiency", "vocabularyScore", "clarityScore", "argumentStrength", "persuasionScore", "strategicAdaptability", "archetype", "wildcardInsight", "emotionalState", "strengths", "weaknesses", "suggestions"]
-          }
-        }
-      });
-
-      const text = result.text;
-      if (!text) throw new Error("No analysis generated");
-      return JSON.parse(text) as DebateAnalysis;
-    } catch (e) {
-      console.error("Analysis failed", e);
-      return {
-        score: 0,
-        confidenceLevel: 'Low',
-        englishProficiency: 'Beginner',
-        vocabularyScore: 0,
-        clarityScore: 0,
-        argumentStrength: 0,
-        persuasionScore: 0,
-        strategicAdaptability: 0,
-        archetype: 'The Unknown',
-        wildcardInsight: 'Data unavailable due to error.',
-        emotionalState: 'Unknown',
-        strengths: ['Analysis failed'],
-        weaknesses: ['Could not process transcript'],
-        suggestions: ['Try again']
-      };
+          },
+        });
+
+        const data: unknown = JSON.parse(result.text ?? '');
+        const topic = data && typeof data === 'object' && 'topic' in data && typeof data.topic === 'string'
+          ? data.topic.trim()
+          : '';
+        if (!topic) throw new Error('No topic generated');
+        if (isTopicDebated(topic, avoided)) throw new Error('Generated a topic that was already debated');
+        return topic;
+      } catch (e) {
+        lastError = e;
+        console.error(`Motion generation attempt ${attempt}/${MAX_MOTION_ATTEMPTS} failed`, e);
+      }
     }
+
+    throw new Error(
+      `Couldn't generate a topic: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
   }
 
   async disconnect() {
@@ -540,26 +1163,41 @@ CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and
     this.isConnected = false;
     this.isConnecting = false;
 
+    // Cancel any pending reconnection and drop session state
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearStableTimer();
+    this.isReconnecting = false;
+    this.reconnectAttempt = 0;
+    this.sessionStarted = false;
+    this.bufferedAudio = [];
+    this.transcriptLog = [];
+    this.inputMuted = false;
+    this.paused = false;
+    this.replyCutByPause = false;
+    this.rebuildOnResume = false;
+    this.talkPressed = false;
+    this.userActive = false;
+    this.preRoll = [];
+    this.vad.reset();
+
+    this.recorder.reset();
+    this.speechActivity.reset();
+
     // Stop audio processing FIRST (this prevents new audio from being sent/received)
     if (this.processor) {
       try {
         this.processor.disconnect();
-        this.processor.onaudioprocess = null;
+        this.processor.port.onmessage = null;
+        this.processor.port.close();
       } catch (e) {
         console.error("Error disconnecting processor:", e);
       }
       this.processor = null;
     }
 
-    if (this.inputSource) {
-      try {
-        this.inputSource.disconnect();
-      } catch (e) {
-        console.error("Error disconnecting input source:", e);
-      }
-      this.inputSource = null;
-    }
-
     // Stop all playing audio immediately
     this.stopAllAudio();
 
@@ -582,17 +1220,8 @@ CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and
       }
     }
 
-    // Stop all media tracks to release microphone
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => {
-        try {
-          track.stop();
-        } catch (e) {
-          console.error("Error stopping media track:", e);
-        }
-      });
-      this.mediaStream = null;
-    }
+    this.audioGeneration++;
+    this.releaseMicrophone();
 
     // Close audio contexts
     if (this.inputAudioContext && this.inputAudioContext.state !== 'closed') {
@@ -622,39 +1251,23 @@ CRITICAL INSTRUCTION: Be generous with scoring. If someone is participating and
     console.log("✅ Disconnected successfully");
   }
 
-  private generateSystemInstruction(topic: string, style: DebateStyle): string {
-    const baseInstruction = `You are participating in a debate about: "${topic}".`;
-
-    if (style === DebateStyle.COACH) {
-      return `${baseInstruction}
+  private generateSystemInstruction(topic: string): string {
+    const [userStance, aiStance] = this.side === 'pro' ? ['FOR', 'AGAINST'] : ['AGAINST', 'FOR'];
+    const baseInstruction = `You are participating in a debate about: "${topic}".
+The motion is: "${this.motion}".
+The user argues ${userStance} the motion (${SIDE_LABELS[this.side]}). You argue ${aiStance} it (${SIDE_LABELS[getOpposingSide(this.side)]}). Never switch sides or concede the motion, even if the user asks you to.`;
 
-You are a supportive debate coach helping the user improve their argumentation skills. 
-Your role is to:
-- Provide constructive counter-arguments that challenge their thinking
-- Point out logical fallacies or weak points in a helpful manner
-- Encourage critical thinking and deeper analysis
-- Maintain a respectful and educational tone
-- Help them develop stronger debate techniques
-
-Use the "Puck" voice configuration for a friendly, approachable tone.`;
-    } else {
-      return `${baseInstruction}
-
-You are an aggressive debate opponent who challenges the user fiercely.
-Your role is to:
-- Present strong counter-arguments with conviction
-- Use forceful language and rhetorical techniques
-- Interrupt when you detect weak reasoning
-- Push back hard on their positions
-- Create a high-pressure debate environment
-- Be relentless in exposing flaws in their arguments
-
-Use the "Fenrir" voice configuration for a powerful, assertive tone.
-Feel free to use strong language and interrupt frequently to maintain pressure.`;
-    }
+    return baseInstruction + buildOpponentInstruction(this.opponent);
   }
 
   getConnectionStatus(): boolean {
     return this.isConnected;
   }
+
+  /**
+   * Whether the socket dropped and a reconnection is pending or in progress
+   */
+  getReconnectingStatus(): boolean {
+    return this.isReconnecting;
+  }
 }
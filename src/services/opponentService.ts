@@ -0,0 +1,135 @@
+/**
+ * Opponent service for reading, validating and persisting custom AI opponent personas
+ */
+
+import type { OpponentPersona } from '../types';
+import { BUILT_IN_OPPONENTS, COACH_OPPONENT, DEFAULT_OPPONENT_ID, INTERRUPTION_LEVELS, OPPONENT_VOICES } from '../utils/opponents';
+
+// Storage keys as constants
+const OPPONENT_KEYS = {
+  CUSTOM: 'debate_master_opponents',
+  LAST_USED: 'debate_master_last_opponent',
+} as const;
+
+/**
+ * Retrieves the custom opponents from localStorage, skipping any that are no longer valid
+ * @returns Custom opponents, oldest first
+ */
+export function loadCustomOpponents(): OpponentPersona[] {
+  try {
+    const data = localStorage.getItem(OPPONENT_KEYS.CUSTOM);
+    if (!data) return [];
+
+    const parsed: unknown = JSON.parse(data);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.filter(isValidCustomOpponent).map(opponent => ({ ...opponent, builtIn: false }));
+  } catch (error) {
+    console.error('Error reading opponents from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the custom opponents to localStorage
+ * @param opponents - Custom opponents to persist; built-in ones are left out
+ */
+export function saveCustomOpponents(opponents: OpponentPersona[]): void {
+  try {
+    localStorage.setItem(OPPONENT_KEYS.CUSTOM, JSON.stringify(opponents.filter(opponent => !opponent.builtIn)));
+  } catch (error) {
+    console.error('Error saving opponents to localStorage:', error);
+  }
+}
+
+/**
+ * Built-in opponents followed by the custom ones
+ */
+export function getOpponents(): OpponentPersona[] {
+  return [...BUILT_IN_OPPONENTS, ...loadCustomOpponents()];
+}
+
+/**
+ * Looks up an opponent by id
+ * @returns The opponent, or the coach if it no longer exists
+ */
+export function getOpponent(id: string | undefined): OpponentPersona {
+  return getOpponents().find(opponent => opponent.id === id) ?? COACH_OPPONENT;
+}
+
+/**
+ * Id of the opponent picked for the last session, so the Dashboard can preselect it
+ */
+export function loadLastOpponentId(): string {
+  try {
+    const id = localStorage.getItem(OPPONENT_KEYS.LAST_USED);
+    return id && getOpponents().some(opponent => opponent.id === id) ? id : DEFAULT_OPPONENT_ID;
+  } catch (error) {
+    console.error('Error reading last opponent from localStorage:', error);
+    return DEFAULT_OPPONENT_ID;
+  }
+}
+
+export function saveLastOpponentId(id: string): void {
+  try {
+    localStorage.setItem(OPPONENT_KEYS.LAST_USED, id);
+  } catch (error) {
+    console.error('Error saving last opponent to localStorage:', error);
+  }
+}
+
+/**
+ * Validates an opponent before it is saved or used
+ * @param opponent - Opponent to validate
+ * @returns List of problems, empty when the opponent is usable
+ */
+export function validateOpponent(opponent: OpponentPersona): string[] {
+  const issues: string[] = [];
+
+  if (!opponent.name.trim()) {
+    issues.push('Opponent needs a name');
+  }
+
+  if (!OPPONENT_VOICES.some(voice => voice.name === opponent.voice)) {
+    issues.push(`Unknown voice "${opponent.voice}"`);
+  }
+
+  if (!INTERRUPTION_LEVELS.some(level => level.value === opponent.interruption)) {
+    issues.push(`Unknown interruption level "${opponent.interruption}"`);
+  }
+
+  if (!opponent.prompt.trim()) {
+    issues.push('Describe who the opponent is and how they argue');
+  }
+
+  if (opponent.tactics.some(tactic => !tactic.trim())) {
+    issues.push('Fill in or remove empty tactics');
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a stored or imported value is a usable opponent
+ */
+export function isValidCustomOpponent(value: unknown): value is OpponentPersona {
+  return isOpponentShape(value) && validateOpponent(value).length === 0;
+}
+
+/**
+ * Checks that a stored value has the fields of an opponent before it is validated
+ */
+function isOpponentShape(value: unknown): value is OpponentPersona {
+  if (!value || typeof value !== 'object') return false;
+  const o = value as Partial<OpponentPersona>;
+  return (
+    typeof o.id === 'string' &&
+    typeof o.name === 'string' &&
+    typeof o.description === 'string' &&
+    typeof o.voice === 'string' &&
+    typeof o.prompt === 'string' &&
+    typeof o.interruption === 'string' &&
+    Array.isArray(o.tactics) &&
+    o.tactics.every((tactic) => typeof tactic === 'string')
+  );
+}
@@ -9,6 +9,7 @@ import type {
   PersonaTrait,
   PersonaEvolution,
 } from '../types';
+import { calculateAverageScore, isScored } from '../utils/statisticsUtils';
 
 /**
  * Result of persona calculation with confidence score
@@ -262,13 +263,15 @@ export class PersonaService {
       return this.getDefaultPersona();
     }
 
-    if (sessions.length === 0) {
+    // Sessions without an analysis have no scores to say anything about the user's style
+    const scoredSessions = sessions.filter(isScored);
+    if (scoredSessions.length === 0) {
       return this.getDefaultPersona();
     }
 
     try {
       // Aggregate metrics across sessions
-      const metrics = this.aggregateMetrics(sessions);
+      const metrics = this.aggregateMetrics(scoredSessions);
 
       // Validate metrics
       if (!this.validateMetrics(metrics)) {
@@ -295,7 +298,7 @@ export class PersonaService {
       }
 
       // Calculate confidence based on number of sessions
-      const confidence = this.calculateConfidence(sessions.length);
+      const confidence = this.calculateConfidence(scoredSessions.length);
 
       return {
         archetype,
@@ -336,6 +339,7 @@ export class PersonaService {
 
   /**
    * Aggregate metrics across all sessions
+   * Each metric is averaged over the sessions that have it; missing values are skipped, not counted as 0
    */
   private static aggregateMetrics(
     sessions: SessionHistoryItem[]
@@ -590,7 +594,7 @@ export class PersonaService {
       const evolution: PersonaEvolution[] = [];
 
       for (const [monthKey, monthSessions] of Object.entries(groupedByMonth)) {
-        if (!Array.isArray(monthSessions) || monthSessions.length === 0) {
+        if (!Array.isArray(monthSessions) || !monthSessions.some(isScored)) {
           continue;
         }
 
@@ -686,9 +690,7 @@ export class PersonaService {
           break;
 
         case 'score':
-          const avgScore = sessions.length > 0
-            ? sessions.reduce((sum, s) => sum + s.score, 0) / sessions.length
-            : 0;
+          const avgScore = calculateAverageScore(sessions) ?? 0;
           if (avgScore < requirement.value) {
             return false;
           }
@@ -756,10 +758,8 @@ export class PersonaService {
     const secondTrait = sortedTraits[1];
 
     // Calculate stats
-    const avgScore = sessions.length > 0
-      ? Math.round(sessions.reduce((sum, s) => sum + s.score, 0) / sessions.length)
-      : 0;
-    const totalSessions = sessions.length;
+    const avgScore = calculateAverageScore(sessions) ?? 0;
+    const totalSessions = sessions.filter(isScored).length;
 
     // Build dynamic description
     let description = archetype.description;
@@ -770,7 +770,7 @@ export class PersonaService {
     }
 
     if (totalSessions > 0) {
-      description += `Over ${totalSessions} debate${totalSessions > 1 ? 's' : ''}, you've maintained an average score of ${avgScore}/100. `;
+      description += `Over ${totalSessions} scored debate${totalSessions > 1 ? 's' : ''}, you've maintained an average score of ${avgScore}/100. `;
     }
 
     // Add growth insight
@@ -0,0 +1,178 @@
+/**
+ * Rubric service for reading, validating and persisting custom scoring rubrics
+ */
+
+import type { Rubric } from '../types';
+import { BUILT_IN_RUBRICS, DEFAULT_RUBRIC_ID, LENIENCY_LEVELS, STANDARD_RUBRIC } from '../utils/rubrics';
+
+// Storage keys as constants
+const RUBRIC_KEYS = {
+  CUSTOM: 'debate_master_rubrics',
+  LAST_USED: 'debate_master_last_rubric',
+} as const;
+
+/**
+ * Retrieves the custom rubrics from localStorage, skipping any that are no longer valid
+ * @returns Custom rubrics, oldest first
+ */
+export function loadCustomRubrics(): Rubric[] {
+  try {
+    const data = localStorage.getItem(RUBRIC_KEYS.CUSTOM);
+    if (!data) return [];
+
+    const parsed: unknown = JSON.parse(data);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.filter(isValidCustomRubric).map(rubric => ({ ...rubric, builtIn: false }));
+  } catch (error) {
+    console.error('Error reading rubrics from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the custom rubrics to localStorage
+ * @param rubrics - Custom rubrics to persist; built-in ones are left out
+ */
+export function saveCustomRubrics(rubrics: Rubric[]): void {
+  try {
+    localStorage.setItem(RUBRIC_KEYS.CUSTOM, JSON.stringify(rubrics.filter(rubric => !rubric.builtIn)));
+  } catch (error) {
+    console.error('Error saving rubrics to localStorage:', error);
+  }
+}
+
+/**
+ * Built-in rubrics followed by the custom ones
+ */
+export function getRubrics(): Rubric[] {
+  return [...BUILT_IN_RUBRICS, ...loadCustomRubrics()];
+}
+
+/**
+ * Looks up a rubric by id
+ * @returns The rubric, or the standard rubric if it no longer exists
+ */
+export function getRubric(id: string | undefined): Rubric {
+  return getRubrics().find(rubric => rubric.id === id) ?? STANDARD_RUBRIC;
+}
+
+/**
+ * Id of the rubric picked for the last session, so the Dashboard can preselect it
+ */
+export function loadLastRubricId(): string {
+  try {
+    const id = localStorage.getItem(RUBRIC_KEYS.LAST_USED);
+    return id && getRubrics().some(rubric => rubric.id === id) ? id : DEFAULT_RUBRIC_ID;
+  } catch (error) {
+    console.error('Error reading last rubric from localStorage:', error);
+    return DEFAULT_RUBRIC_ID;
+  }
+}
+
+export function saveLastRubricId(id: string): void {
+  try {
+    localStorage.setItem(RUBRIC_KEYS.LAST_USED, id);
+  } catch (error) {
+    console.error('Error saving last rubric to localStorage:', error);
+  }
+}
+
+/**
+ * Validates a rubric before it is saved or used
+ * @param rubric - Rubric to validate
+ * @returns List of problems, empty when the rubric is usable
+ */
+export function validateRubric(rubric: Rubric): string[] {
+  const issues: string[] = [];
+
+  if (!rubric.name.trim()) {
+    issues.push('Rubric needs a name');
+  }
+
+  if (!LENIENCY_LEVELS.some(level => level.value === rubric.leniency)) {
+    issues.push(`Unknown leniency "${rubric.leniency}"`);
+  }
+
+  if (rubric.criteria.length === 0) {
+    issues.push('Add at least one criterion');
+  }
+
+  const ids = new Set<string>();
+  rubric.criteria.forEach((criterion, index) => {
+    const label = criterion.name.trim() || `Criterion ${index + 1}`;
+    if (!criterion.name.trim()) {
+      issues.push(`${label} needs a name`);
+    }
+    if (!Number.isFinite(criterion.weight) || criterion.weight <= 0) {
+      issues.push(`${label} needs a weight above 0`);
+    }
+    if (ids.has(criterion.id)) {
+      issues.push(`${label} has the same key as another criterion`);
+    }
+    ids.add(criterion.id);
+  });
+
+  if (rubric.bands.length === 0) {
+    issues.push('Add at least one score band');
+    return issues;
+  }
+
+  // Bands must cover 0-100 with whole-number ranges that neither overlap nor leave gaps
+  const bands = [...rubric.bands].sort((a, b) => a.min - b.min);
+  let expectedMin = 0;
+  for (const band of bands) {
+    const label = band.label.trim() || `${band.min}-${band.max}`;
+    if (!band.label.trim()) {
+      issues.push(`Band ${label} needs a label`);
+    }
+    if (!Number.isInteger(band.min) || !Number.isInteger(band.max) || band.min > band.max) {
+      issues.push(`Band ${label} needs whole-number bounds with min no higher than max`);
+    } else if (band.min < 0 || band.max > 100) {
+      issues.push(`Band ${label} needs bounds between 0 and 100`);
+    } else if (band.min !== expectedMin) {
+      issues.push(
+        band.min > expectedMin
+          ? `Scores ${expectedMin}-${band.min - 1} are not in any band`
+          : `Band ${label} overlaps the band before it`
+      );
+    }
+    expectedMin = Math.max(expectedMin, band.max + 1);
+  }
+  if (expectedMin <= 100) {
+    issues.push(`Scores ${expectedMin}-100 are not in any band`);
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a stored or imported value is a usable rubric
+ */
+export function isValidCustomRubric(value: unknown): value is Rubric {
+  return isRubricShape(value) && validateRubric(value).length === 0;
+}
+
+/**
+ * Checks that a stored value has the fields of a rubric before it is validated
+ */
+function isRubricShape(value: unknown): value is Rubric {
+  if (!value || typeof value !== 'object') return false;
+  const r = value as Partial<Rubric>;
+  return (
+    typeof r.id === 'string' &&
+    typeof r.name === 'string' &&
+    typeof r.description === 'string' &&
+    typeof r.leniency === 'string' &&
+    Array.isArray(r.criteria) &&
+    r.criteria.every(
+      (c) => !!c && typeof c.id === 'string' && typeof c.name === 'string' &&
+        typeof c.description === 'string' && typeof c.weight === 'number'
+    ) &&
+    Array.isArray(r.bands) &&
+    r.bands.every(
+      (b) => !!b && typeof b.min === 'number' && typeof b.max === 'number' &&
+        typeof b.label === 'string' && typeof b.description === 'string'
+    )
+  );
+}
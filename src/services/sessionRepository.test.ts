@@ -0,0 +1,312 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionHistoryItem, SessionRecording, SessionTranscript, UserPersona, UserStats } from '../types';
+import { DB_VERSION, IndexedDbSessionRepository, InMemorySessionRepository } from './sessionRepository';
+import { getHistory, getStats, getTranscript, getRecording, saveSession, setRepository } from './storageService';
+import { createLocalStorage } from '../test/localStorage';
+
+function makeSession(id: string, date: string, score?: number): SessionHistoryItem {
+  return { id, date, topic: 'Remote work', durationSeconds: 300, ...(score !== undefined && { score }) };
+}
+
+const STATS: UserStats = { totalSessions: 1, totalMinutes: 5, points: 50, badges: [] };
+
+function makeTranscript(id: string, sessionId: string): SessionTranscript {
+  return { id, sessionId, topic: 'Remote work', createdAt: '2026-01-01T10:00:00.000Z', turns: [] };
+}
+
+/**
+ * Creates the database as the first release of the IndexedDB store left it
+ */
+function createVersion1Database(sessions: SessionHistoryItem[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('debate_master', 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const store = db.createObjectStore('sessions', { keyPath: 'id' });
+      store.createIndex('date', 'date');
+      store.createIndex('topic', 'topic');
+      store.createIndex('score', 'score');
+      db.createObjectStore('transcripts', { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+      const kv = db.createObjectStore('keyValue');
+      sessions.forEach(session => store.put(session));
+      // v1 databases had already taken over the localStorage data
+      kv.put(true, 'legacyLocalStorageImported');
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getDatabaseVersion(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('debate_master');
+    request.onsuccess = () => {
+      const { version } = request.result;
+      request.result.close();
+      resolve(version);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('IndexedDbSessionRepository', () => {
+  beforeEach(() => {
+    // A fresh, empty database and localStorage for every test
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('localStorage', createLocalStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('migrations', () => {
+    it('upgrades a version 1 database without losing its sessions', async () => {
+      await createVersion1Database([makeSession('s1', '2026-01-01T10:00:00.000Z', 65)]);
+
+      const repo = new IndexedDbSessionRepository();
+      expect((await repo.getAllSessions()).map(s => s.id)).toEqual(['s1']);
+      expect((await repo.querySessionsByScore(60, 70)).map(s => s.id)).toEqual(['s1']);
+      expect(await getDatabaseVersion()).toBe(DB_VERSION);
+    });
+
+    it('adds the recordings store in version 2', async () => {
+      await createVersion1Database([]);
+      const recording: SessionRecording = {
+        id: 'r1',
+        sessionId: 's1',
+        startedAt: 1000,
+        durationSeconds: 2,
+        mimeType: 'audio/wav',
+        audio: new Blob(['audio'], { type: 'audio/wav' }),
+      };
+
+      const repo = new IndexedDbSessionRepository();
+      await repo.putRecording(recording);
+
+      expect(await repo.getRecording('r1')).toMatchObject({ id: 'r1', sessionId: 's1', durationSeconds: 2 });
+    });
+
+    it('creates every store on a fresh install', async () => {
+      const repo = new IndexedDbSessionRepository();
+      await repo.putSessionEntry(makeSession('s1', '2026-01-01T10:00:00.000Z'), STATS, makeTranscript('t1', 's1'));
+
+      expect(await repo.getTranscript('t1')).not.toBeNull();
+      expect(await repo.getRecording('missing')).toBeNull();
+    });
+  });
+
+  describe('legacy localStorage import', () => {
+    const persona: UserPersona = { calculatedAt: 1000, traits: [], evolution: [] } as unknown as UserPersona;
+
+    function seedLegacyData() {
+      vi.stubGlobal(
+        'localStorage',
+        createLocalStorage({
+          debate_master_stats: JSON.stringify(STATS),
+          debate_master_history: JSON.stringify([
+            makeSession('old', '2026-01-01T10:00:00.000Z'),
+            makeSession('new', '2026-02-01T10:00:00.000Z'),
+          ]),
+          debate_master_persona: JSON.stringify(persona),
+          debate_master_transcripts: JSON.stringify({ t1: makeTranscript('t1', 'old') }),
+          debate_master_settings: JSON.stringify({ theme: 'dark' }),
+        })
+      );
+    }
+
+    it('copies stats, history, persona and transcripts into the database', async () => {
+      seedLegacyData();
+
+      const repo = new IndexedDbSessionRepository();
+
+      expect((await repo.getAllSessions()).map(s => s.id)).toEqual(['new', 'old']);
+      expect(await repo.getStats()).toEqual(STATS);
+      expect(await repo.getPersona()).toEqual(persona);
+      expect(await repo.getTranscript('t1')).toEqual(makeTranscript('t1', 'old'));
+    });
+
+    it('removes only the imported keys from localStorage', async () => {
+      seedLegacyData();
+
+      await new IndexedDbSessionRepository().getStats();
+
+      expect(localStorage.getItem('debate_master_history')).toBeNull();
+      expect(localStorage.getItem('debate_master_stats')).toBeNull();
+      expect(localStorage.getItem('debate_master_settings')).not.toBeNull();
+    });
+
+    it('only imports once', async () => {
+      seedLegacyData();
+      await new IndexedDbSessionRepository().deleteSession('old');
+
+      // Left-over keys from another tab must not bring the deleted session back
+      seedLegacyData();
+      const repo = new IndexedDbSessionRepository();
+
+      expect((await repo.getAllSessions()).map(s => s.id)).toEqual(['new']);
+      expect(localStorage.getItem('debate_master_history')).not.toBeNull();
+    });
+
+    it('skips corrupt values and imports the rest', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal(
+        'localStorage',
+        createLocalStorage({
+          debate_master_stats: '{not json',
+          debate_master_history: JSON.stringify([makeSession('s1', '2026-01-01T10:00:00.000Z')]),
+        })
+      );
+
+      const repo = new IndexedDbSessionRepository();
+
+      expect(await repo.getStats()).toBeNull();
+      expect((await repo.getAllSessions()).map(s => s.id)).toEqual(['s1']);
+    });
+  });
+
+  describe('putSessionEntry', () => {
+    it('writes nothing when one of the values cannot be stored', async () => {
+      const repo = new IndexedDbSessionRepository();
+      // Functions can't be structured-cloned, so the session put fails after the transcript's
+      const session = { ...makeSession('s1', '2026-01-01T10:00:00.000Z'), topic: (() => 'x') as unknown as string };
+
+      await expect(repo.putSessionEntry(session, STATS, makeTranscript('t1', 's1'))).rejects.toThrow();
+
+      expect(await repo.getTranscript('t1')).toBeNull();
+      expect(await repo.getSession('s1')).toBeNull();
+      expect(await repo.getStats()).toBeNull();
+    });
+  });
+
+  describe('saveSession', () => {
+    it('keeps the session, transcript and stats when the recording write fails', async () => {
+      const repo = new IndexedDbSessionRepository();
+      setRepository(repo);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const messages = [{ id: 'm1', role: 'user' as const, text: 'Opening', timestamp: 1000 }];
+      // Not cloneable, so the recording put throws
+      const recording = { startedAt: 0, durationSeconds: 1, mimeType: 'audio/wav', audio: (() => null) as unknown as Blob };
+
+      const { newItem } = await saveSession('Remote work', 120, undefined, messages, {}, recording);
+
+      const saved = await repo.getSession(newItem.id);
+      expect(saved).not.toBeNull();
+      expect(saved?.recordingId).toBeUndefined();
+      expect(await repo.getTranscript(newItem.transcriptId!)).not.toBeNull();
+      expect((await repo.getStats())?.totalSessions).toBe(1);
+      expect(await repo.getRecording(`recording_${newItem.id}`)).toBeNull();
+    });
+  });
+});
+
+describe('InMemorySessionRepository', () => {
+  let repo: InMemorySessionRepository;
+
+  beforeEach(() => {
+    repo = new InMemorySessionRepository();
+  });
+
+  it('stores the session, stats and transcript of an entry together', async () => {
+    const session = { ...makeSession('s1', '2026-01-01T10:00:00.000Z'), transcriptId: 't1' };
+    const transcript: SessionTranscript = {
+      id: 't1',
+      sessionId: 's1',
+      topic: 'Remote work',
+      createdAt: session.date,
+      turns: [],
+    };
+
+    await repo.putSessionEntry(session, STATS, transcript);
+
+    expect(await repo.getSession('s1')).toEqual(session);
+    expect(await repo.getStats()).toEqual(STATS);
+    expect(await repo.getTranscript('t1')).toEqual(transcript);
+  });
+
+  it('stores an entry without a transcript', async () => {
+    await repo.putSessionEntry(makeSession('s1', '2026-01-01T10:00:00.000Z'), STATS);
+
+    expect(await repo.getAllTranscripts()).toEqual([]);
+    expect(await repo.getSession('s1')).not.toBeNull();
+  });
+
+  it('hands out copies, so callers cannot change what is stored', async () => {
+    const session = makeSession('s1', '2026-01-01T10:00:00.000Z', 70);
+    await repo.putSession(session);
+    session.score = 10;
+
+    const stored = await repo.getSession('s1');
+    stored!.score = 20;
+
+    expect((await repo.getSession('s1'))?.score).toBe(70);
+  });
+
+  it('lists sessions most recent first', async () => {
+    await repo.putSession(makeSession('old', '2026-01-01T10:00:00.000Z'));
+    await repo.putSession(makeSession('new', '2026-03-01T10:00:00.000Z'));
+    await repo.putSession(makeSession('mid', '2026-02-01T10:00:00.000Z'));
+
+    expect((await repo.getAllSessions()).map(s => s.id)).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('queries by date, topic and score', async () => {
+    await repo.putSession(makeSession('a', '2026-01-01T10:00:00.000Z', 40));
+    await repo.putSession(makeSession('b', '2026-02-01T10:00:00.000Z', 80));
+    await repo.putSession({ ...makeSession('c', '2026-03-01T10:00:00.000Z'), topic: 'School uniforms' });
+
+    const byDate = await repo.querySessionsByDate(new Date('2026-01-15'), new Date('2026-03-15'));
+    expect(byDate.map(s => s.id)).toEqual(['c', 'b']);
+    expect((await repo.querySessionsByTopic('School uniforms')).map(s => s.id)).toEqual(['c']);
+    // Unscored sessions are left out of score queries
+    expect((await repo.querySessionsByScore(0, 100)).map(s => s.id)).toEqual(['b', 'a']);
+  });
+
+  it('deletes sessions', async () => {
+    await repo.putSession(makeSession('s1', '2026-01-01T10:00:00.000Z'));
+    await repo.deleteSession('s1');
+
+    expect(await repo.getSession('s1')).toBeNull();
+  });
+});
+
+describe('saveSession', () => {
+  let repo: InMemorySessionRepository;
+
+  beforeEach(() => {
+    repo = new InMemorySessionRepository();
+    setRepository(repo);
+  });
+
+  it('saves the session, its transcript and the updated stats', async () => {
+    const messages = [
+      { id: 'm1', role: 'user' as const, text: 'Opening', timestamp: 1000 },
+      { id: 'm2', role: 'model' as const, text: 'Rebuttal', timestamp: 2000 },
+    ];
+
+    const { newItem } = await saveSession('Remote work', 600, undefined, messages);
+
+    expect((await getHistory()).map(s => s.id)).toEqual([newItem.id]);
+    expect((await getStats()).totalSessions).toBe(1);
+    const transcript = await getTranscript(newItem.transcriptId!);
+    expect(transcript?.turns.map(t => t.role)).toEqual(['user', 'model']);
+  });
+
+  it('keeps the session but drops the recording link when the recording cannot be saved', async () => {
+    vi.spyOn(repo, 'putRecording').mockRejectedValue(new Error('Quota exceeded'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const recording = { startedAt: 0, durationSeconds: 1, mimeType: 'audio/webm', audio: new Blob() };
+
+    const { newItem } = await saveSession('Remote work', 60, undefined, undefined, {}, recording);
+
+    const [saved] = await getHistory();
+    expect(saved?.id).toBe(newItem.id);
+    expect(saved?.recordingId).toBeUndefined();
+    expect(await getRecording(`recording_${newItem.id}`)).toBeNull();
+  });
+});
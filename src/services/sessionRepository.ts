@@ -0,0 +1,417 @@
+/**
+ * Session repository - persistent storage for stats, session history, transcripts, recordings and persona
+ *
+ * The IndexedDB implementation is used in the browser. InMemorySessionRepository
+ * implements the same interface for tests and environments without IndexedDB.
+ */
+
+import type { UserStats, SessionHistoryItem, SessionTranscript, SessionRecording, UserPersona } from '../types';
+
+/**
+ * Promise-based storage interface used by storageService
+ */
+export interface SessionRepository {
+  getStats(): Promise<UserStats | null>;
+  putStats(stats: UserStats): Promise<void>;
+
+  getAllSessions(): Promise<SessionHistoryItem[]>; // most recent first
+  getSession(id: string): Promise<SessionHistoryItem | null>;
+  putSession(session: SessionHistoryItem): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  // Writes a finished session with its transcript and the updated stats, all or nothing
+  putSessionEntry(session: SessionHistoryItem, stats: UserStats, transcript?: SessionTranscript): Promise<void>;
+  querySessionsByDate(from: Date, to: Date): Promise<SessionHistoryItem[]>;
+  querySessionsByTopic(topic: string): Promise<SessionHistoryItem[]>;
+  querySessionsByScore(min: number, max: number): Promise<SessionHistoryItem[]>;
+
+  getAllTranscripts(): Promise<SessionTranscript[]>;
+  getTranscript(id: string): Promise<SessionTranscript | null>;
+  putTranscript(transcript: SessionTranscript): Promise<void>;
+
+  getRecording(id: string): Promise<SessionRecording | null>;
+  putRecording(recording: SessionRecording): Promise<void>;
+
+  getPersona(): Promise<UserPersona | null>;
+  putPersona(persona: UserPersona): Promise<void>;
+}
+
+// Database layout
+const DB_NAME = 'debate_master';
+
+const STORES = {
+  SESSIONS: 'sessions',
+  TRANSCRIPTS: 'transcripts',
+  RECORDINGS: 'recordings',
+  KEY_VALUE: 'keyValue',
+} as const;
+
+const KV_KEYS = {
+  STATS: 'stats',
+  PERSONA: 'persona',
+  LEGACY_IMPORTED: 'legacyLocalStorageImported',
+} as const;
+
+// localStorage keys used before the IndexedDB store existed
+const LEGACY_KEYS = {
+  STATS: 'debate_master_stats',
+  HISTORY: 'debate_master_history',
+  PERSONA: 'debate_master_persona',
+  TRANSCRIPTS: 'debate_master_transcripts',
+} as const;
+
+/**
+ * Schema migrations, one per database version. Migration N upgrades version N to N+1.
+ * Only ever append to this list - released migrations must not change.
+ */
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: initial schema
+  (db) => {
+    const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('date', 'date');
+    sessions.createIndex('topic', 'topic');
+    sessions.createIndex('score', 'score');
+
+    const transcripts = db.createObjectStore(STORES.TRANSCRIPTS, { keyPath: 'id' });
+    transcripts.createIndex('sessionId', 'sessionId');
+
+    db.createObjectStore(STORES.KEY_VALUE);
+  },
+  // v2: session audio recordings
+  (db) => {
+    const recordings = db.createObjectStore(STORES.RECORDINGS, { keyPath: 'id' });
+    recordings.createIndex('sessionId', 'sessionId');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+/**
+ * Sorts sessions most recent first, matching the order of the old localStorage array
+ */
+function sortByDateDesc(sessions: SessionHistoryItem[]): SessionHistoryItem[] {
+  return [...sessions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits, rejects on error or abort (e.g. quota exceeded)
+ */
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Opens the database, running any pending schema migrations
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction;
+      if (!tx) return;
+
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Session database upgrade blocked by another open tab'));
+  });
+}
+
+/**
+ * Reads and parses a legacy localStorage value, returning null if missing or corrupt
+ */
+function readLegacyValue<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch (error) {
+    console.error(`Error reading legacy ${key} from localStorage:`, error);
+    return null;
+  }
+}
+
+/**
+ * IndexedDB-backed repository
+ */
+export class IndexedDbSessionRepository implements SessionRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Opens the database once and imports legacy localStorage data on first use
+   */
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().then(async (db) => {
+        await this.importLegacyLocalStorage(db);
+        return db;
+      });
+      // Allow a retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Copies stats, history, persona and transcripts out of localStorage into IndexedDB.
+   * Runs once; the localStorage keys are removed only after the copy commits.
+   */
+  private async importLegacyLocalStorage(db: IDBDatabase): Promise<void> {
+    const flagTx = db.transaction(STORES.KEY_VALUE, 'readonly');
+    const alreadyImported = await promisifyRequest(flagTx.objectStore(STORES.KEY_VALUE).get(KV_KEYS.LEGACY_IMPORTED));
+    if (alreadyImported) return;
+
+    const stats = readLegacyValue<UserStats>(LEGACY_KEYS.STATS);
+    const history = readLegacyValue<SessionHistoryItem[]>(LEGACY_KEYS.HISTORY) ?? [];
+    const persona = readLegacyValue<UserPersona>(LEGACY_KEYS.PERSONA);
+    const transcripts = readLegacyValue<Record<string, SessionTranscript>>(LEGACY_KEYS.TRANSCRIPTS) ?? {};
+
+    const tx = db.transaction([STORES.SESSIONS, STORES.TRANSCRIPTS, STORES.KEY_VALUE], 'readwrite');
+    const sessionStore = tx.objectStore(STORES.SESSIONS);
+    const transcriptStore = tx.objectStore(STORES.TRANSCRIPTS);
+    const kvStore = tx.objectStore(STORES.KEY_VALUE);
+
+    if (Array.isArray(history)) {
+      history.forEach(session => sessionStore.put(session));
+    }
+    Object.values(transcripts).forEach(transcript => transcriptStore.put(transcript));
+    if (stats) kvStore.put(stats, KV_KEYS.STATS);
+    if (persona) kvStore.put(persona, KV_KEYS.PERSONA);
+    kvStore.put(true, KV_KEYS.LEGACY_IMPORTED);
+
+    await promisifyTransaction(tx);
+
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+
+  private async get<T>(storeName: string, key: IDBValidKey): Promise<T | null> {
+    const db = await this.getDb();
+    const tx = db.transaction(storeName, 'readonly');
+    const result = await promisifyRequest(tx.objectStore(storeName).get(key));
+    return (result as T | undefined) ?? null;
+  }
+
+  private async put(storeName: string, value: unknown, key?: IDBValidKey): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(value, key);
+    await promisifyTransaction(tx);
+  }
+
+  private async querySessionIndex(indexName: string, range: IDBKeyRange): Promise<SessionHistoryItem[]> {
+    const db = await this.getDb();
+    const tx = db.transaction(STORES.SESSIONS, 'readonly');
+    const results = await promisifyRequest(tx.objectStore(STORES.SESSIONS).index(indexName).getAll(range));
+    return sortByDateDesc(results as SessionHistoryItem[]);
+  }
+
+  getStats(): Promise<UserStats | null> {
+    return this.get<UserStats>(STORES.KEY_VALUE, KV_KEYS.STATS);
+  }
+
+  putStats(stats: UserStats): Promise<void> {
+    return this.put(STORES.KEY_VALUE, stats, KV_KEYS.STATS);
+  }
+
+  async getAllSessions(): Promise<SessionHistoryItem[]> {
+    const db = await this.getDb();
+    const tx = db.transaction(STORES.SESSIONS, 'readonly');
+    const results = await promisifyRequest(tx.objectStore(STORES.SESSIONS).getAll());
+    return sortByDateDesc(results as SessionHistoryItem[]);
+  }
+
+  getSession(id: string): Promise<SessionHistoryItem | null> {
+    return this.get<SessionHistoryItem>(STORES.SESSIONS, id);
+  }
+
+  putSession(session: SessionHistoryItem): Promise<void> {
+    return this.put(STORES.SESSIONS, session);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction(STORES.SESSIONS, 'readwrite');
+    tx.objectStore(STORES.SESSIONS).delete(id);
+    await promisifyTransaction(tx);
+  }
+
+  async putSessionEntry(session: SessionHistoryItem, stats: UserStats, transcript?: SessionTranscript): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction([STORES.SESSIONS, STORES.TRANSCRIPTS, STORES.KEY_VALUE], 'readwrite');
+    try {
+      if (transcript) tx.objectStore(STORES.TRANSCRIPTS).put(transcript);
+      tx.objectStore(STORES.SESSIONS).put(session);
+      tx.objectStore(STORES.KEY_VALUE).put(stats, KV_KEYS.STATS);
+    } catch (error) {
+      // put throws straight away for values it can't store; without the abort the puts
+      // already queued would still commit
+      tx.abort();
+      throw error;
+    }
+    await promisifyTransaction(tx);
+  }
+
+  querySessionsByDate(from: Date, to: Date): Promise<SessionHistoryItem[]> {
+    return this.querySessionIndex('date', IDBKeyRange.bound(from.toISOString(), to.toISOString()));
+  }
+
+  querySessionsByTopic(topic: string): Promise<SessionHistoryItem[]> {
+    return this.querySessionIndex('topic', IDBKeyRange.only(topic));
+  }
+
+  querySessionsByScore(min: number, max: number): Promise<SessionHistoryItem[]> {
+    return this.querySessionIndex('score', IDBKeyRange.bound(min, max));
+  }
+
+  async getAllTranscripts(): Promise<SessionTranscript[]> {
+    const db = await this.getDb();
+    const tx = db.transaction(STORES.TRANSCRIPTS, 'readonly');
+    const results = await promisifyRequest(tx.objectStore(STORES.TRANSCRIPTS).getAll());
+    return results as SessionTranscript[];
+  }
+
+  getTranscript(id: string): Promise<SessionTranscript | null> {
+    return this.get<SessionTranscript>(STORES.TRANSCRIPTS, id);
+  }
+
+  putTranscript(transcript: SessionTranscript): Promise<void> {
+    return this.put(STORES.TRANSCRIPTS, transcript);
+  }
+
+  getRecording(id: string): Promise<SessionRecording | null> {
+    return this.get<SessionRecording>(STORES.RECORDINGS, id);
+  }
+
+  putRecording(recording: SessionRecording): Promise<void> {
+    return this.put(STORES.RECORDINGS, recording);
+  }
+
+  getPersona(): Promise<UserPersona | null> {
+    return this.get<UserPersona>(STORES.KEY_VALUE, KV_KEYS.PERSONA);
+  }
+
+  putPersona(persona: UserPersona): Promise<void> {
+    return this.put(STORES.KEY_VALUE, persona, KV_KEYS.PERSONA);
+  }
+}
+
+/**
+ * In-memory repository with the same behaviour as the IndexedDB one.
+ * Values are deep-copied in and out so callers can't mutate stored data.
+ */
+export class InMemorySessionRepository implements SessionRepository {
+  private stats: UserStats | null = null;
+  private persona: UserPersona | null = null;
+  private sessions = new Map<string, SessionHistoryItem>();
+  private transcripts = new Map<string, SessionTranscript>();
+  private recordings = new Map<string, SessionRecording>();
+
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T;
+  }
+
+  private filterSessions(predicate: (session: SessionHistoryItem) => boolean): Promise<SessionHistoryItem[]> {
+    return Promise.resolve(sortByDateDesc([...this.sessions.values()].filter(predicate)).map(s => this.clone(s)));
+  }
+
+  async getStats(): Promise<UserStats | null> {
+    return this.stats ? this.clone(this.stats) : null;
+  }
+
+  async putStats(stats: UserStats): Promise<void> {
+    this.stats = this.clone(stats);
+  }
+
+  getAllSessions(): Promise<SessionHistoryItem[]> {
+    return this.filterSessions(() => true);
+  }
+
+  async getSession(id: string): Promise<SessionHistoryItem | null> {
+    const session = this.sessions.get(id);
+    return session ? this.clone(session) : null;
+  }
+
+  async putSession(session: SessionHistoryItem): Promise<void> {
+    this.sessions.set(session.id, this.clone(session));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async putSessionEntry(session: SessionHistoryItem, stats: UserStats, transcript?: SessionTranscript): Promise<void> {
+    // Clone everything first so a value that can't be copied leaves nothing half-written
+    const storedSession = this.clone(session);
+    const storedStats = this.clone(stats);
+    const storedTranscript = transcript ? this.clone(transcript) : null;
+
+    if (storedTranscript) this.transcripts.set(storedTranscript.id, storedTranscript);
+    this.sessions.set(storedSession.id, storedSession);
+    this.stats = storedStats;
+  }
+
+  querySessionsByDate(from: Date, to: Date): Promise<SessionHistoryItem[]> {
+    const fromIso = from.toISOString();
+    const toIso = to.toISOString();
+    return this.filterSessions(s => s.date >= fromIso && s.date <= toIso);
+  }
+
+  querySessionsByTopic(topic: string): Promise<SessionHistoryItem[]> {
+    return this.filterSessions(s => s.topic === topic);
+  }
+
+  querySessionsByScore(min: number, max: number): Promise<SessionHistoryItem[]> {
+    return this.filterSessions(s => typeof s.score === 'number' && s.score >= min && s.score <= max);
+  }
+
+  async getAllTranscripts(): Promise<SessionTranscript[]> {
+    return [...this.transcripts.values()].map(t => this.clone(t));
+  }
+
+  async getTranscript(id: string): Promise<SessionTranscript | null> {
+    const transcript = this.transcripts.get(id);
+    return transcript ? this.clone(transcript) : null;
+  }
+
+  async putTranscript(transcript: SessionTranscript): Promise<void> {
+    this.transcripts.set(transcript.id, this.clone(transcript));
+  }
+
+  // Blobs are immutable and don't survive a JSON round trip, so recordings are shallow-copied
+  async getRecording(id: string): Promise<SessionRecording | null> {
+    const recording = this.recordings.get(id);
+    return recording ? { ...recording } : null;
+  }
+
+  async putRecording(recording: SessionRecording): Promise<void> {
+    this.recordings.set(recording.id, { ...recording });
+  }
+
+  async getPersona(): Promise<UserPersona | null> {
+    return this.persona ? this.clone(this.persona) : null;
+  }
+
+  async putPersona(persona: UserPersona): Promise<void> {
+    this.persona = this.clone(persona);
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Settings service for reading, validating and persisting Gemini connection settings
+ */
+
+import type { AppSettings, ModelConfig, SettingsIssue } from '../types';
+
+// Storage keys as constants
+const SETTINGS_KEYS = {
+  API_KEY: 'debate_master_api_key',
+  LIVE_MODEL: 'debate_master_live_model',
+  ANALYSIS_MODEL: 'debate_master_analysis_model',
+  API_VERSION: 'debate_master_api_version',
+  HOST: 'debate_master_host',
+  CAPTURE_CHUNK_MS: 'debate_master_capture_chunk_ms',
+} as const;
+
+/**
+ * Available Gemini models
+ */
+export const AVAILABLE_MODELS: ModelConfig[] = [
+  // Models with Live API support (for real-time debate)
+  {
+    id: 'gemini-2.0-flash-exp',
+    name: 'Gemini 2.0 Flash (Experimental)',
+    description: 'Latest experimental version with Live API support. Fast and efficient for real-time conversations.',
+    supportsLiveAPI: true,
+    category: 'experimental',
+  },
+  {
+    id: 'gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    description: 'Stable version with Live API support. Recommended for production use.',
+    supportsLiveAPI: true,
+    category: 'stable',
+  },
+  // Models for analysis only (no Live API)
+  {
+    id: 'gemini-3-pro-preview',
+    name: 'Gemini 3 Pro (Preview)',
+    description: 'Most advanced model for analysis. Best for detailed feedback and insights.',
+    supportsLiveAPI: false,
+    category: 'latest',
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    description: 'Advanced thinking model for complex analysis and reasoning.',
+    supportsLiveAPI: false,
+    category: 'stable',
+  },
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    description: 'Fast and intelligent model for quick analysis.',
+    supportsLiveAPI: false,
+    category: 'stable',
+  },
+];
+
+/**
+ * Live API versions that expose the BidiGenerateContent endpoint
+ */
+export const SUPPORTED_API_VERSIONS = ['v1alpha', 'v1beta'] as const;
+
+/**
+ * Default settings when nothing has been saved yet
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  liveModel: 'gemini-2.0-flash-exp',
+  analysisModel: 'gemini-2.5-flash',
+  apiVersion: 'v1alpha',
+  host: 'generativelanguage.googleapis.com',
+  captureChunkMs: 100,
+};
+
+/**
+ * Allowed microphone chunk lengths - shorter is more responsive, longer sends fewer messages
+ */
+export const CAPTURE_CHUNK_MS_RANGE = { min: 20, max: 500 } as const;
+
+// hostname or IPv4 address with an optional port, no scheme or path
+const HOST_PATTERN = /^[a-z0-9.-]+(:\d{1,5})?$/i;
+
+/**
+ * Retrieves settings from localStorage, falling back to defaults per field
+ * @returns AppSettings object
+ */
+export function loadSettings(): AppSettings {
+  try {
+    return {
+      apiKey: localStorage.getItem(SETTINGS_KEYS.API_KEY) || DEFAULT_SETTINGS.apiKey,
+      liveModel: localStorage.getItem(SETTINGS_KEYS.LIVE_MODEL) || DEFAULT_SETTINGS.liveModel,
+      analysisModel: localStorage.getItem(SETTINGS_KEYS.ANALYSIS_MODEL) || DEFAULT_SETTINGS.analysisModel,
+      apiVersion: localStorage.getItem(SETTINGS_KEYS.API_VERSION) || DEFAULT_SETTINGS.apiVersion,
+      host: localStorage.getItem(SETTINGS_KEYS.HOST) || DEFAULT_SETTINGS.host,
+      captureChunkMs: Number(localStorage.getItem(SETTINGS_KEYS.CAPTURE_CHUNK_MS)) || DEFAULT_SETTINGS.captureChunkMs,
+    };
+  } catch (error) {
+    console.error('Error reading settings from localStorage:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Saves settings to localStorage
+ * @param settings - The AppSettings object to persist
+ */
+export function saveSettings(settings: AppSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEYS.API_KEY, settings.apiKey);
+    localStorage.setItem(SETTINGS_KEYS.LIVE_MODEL, settings.liveModel);
+    localStorage.setItem(SETTINGS_KEYS.ANALYSIS_MODEL, settings.analysisModel);
+    localStorage.setItem(SETTINGS_KEYS.API_VERSION, settings.apiVersion);
+    localStorage.setItem(SETTINGS_KEYS.HOST, settings.host);
+    localStorage.setItem(SETTINGS_KEYS.CAPTURE_CHUNK_MS, String(settings.captureChunkMs));
+  } catch (error) {
+    console.error('Error saving settings to localStorage:', error);
+  }
+}
+
+/**
+ * Resolves the API key to use - the one saved in Settings first, then the env variable
+ * @param settings - Settings to read the stored key from
+ * @returns The API key, or an empty string if none is configured
+ */
+export function resolveApiKey(settings: AppSettings = loadSettings()): string {
+  const apiKey = settings.apiKey || import.meta.env.VITE_GEMINI_API_KEY || '';
+  return apiKey === 'your_api_key_here' ? '' : apiKey;
+}
+
+/**
+ * Looks up a model by id in AVAILABLE_MODELS
+ */
+export function getModelConfig(modelId: string): ModelConfig | undefined {
+  return AVAILABLE_MODELS.find(m => m.id === modelId);
+}
+
+/**
+ * Validates a settings object against AVAILABLE_MODELS and the supported endpoints
+ * @param settings - Settings to validate
+ * @returns List of issues, empty when the settings are usable
+ */
+export function validateSettings(settings: AppSettings): SettingsIssue[] {
+  const issues: SettingsIssue[] = [];
+
+  const liveModel = getModelConfig(settings.liveModel);
+  if (!liveModel) {
+    issues.push({ field: 'liveModel', message: `Unknown live model "${settings.liveModel}"` });
+  } else if (!liveModel.supportsLiveAPI) {
+    issues.push({ field: 'liveModel', message: `${liveModel.name} does not support the Live API` });
+  }
+
+  if (!getModelConfig(settings.analysisModel)) {
+    issues.push({ field: 'analysisModel', message: `Unknown analysis model "${settings.analysisModel}"` });
+  }
+
+  if (!(SUPPORTED_API_VERSIONS as readonly string[]).includes(settings.apiVersion)) {
+    issues.push({
+      field: 'apiVersion',
+      message: `API version must be one of ${SUPPORTED_API_VERSIONS.join(', ')}`,
+    });
+  }
+
+  if (!HOST_PATTERN.test(settings.host.trim())) {
+    issues.push({ field: 'host', message: 'Host must be a hostname with an optional port, e.g. localhost:8080' });
+  }
+
+  const { min, max } = CAPTURE_CHUNK_MS_RANGE;
+  if (!Number.isInteger(settings.captureChunkMs) || settings.captureChunkMs < min || settings.captureChunkMs > max) {
+    issues.push({ field: 'captureChunkMs', message: `Audio chunk size must be a whole number between ${min} and ${max} ms` });
+  }
+
+  return issues;
+}
+
+/**
+ * Builds the BidiGenerateContent WebSocket URL for the given settings.
+ * Local hosts are reached over plain ws://, everything else over wss://
+ */
+export function buildLiveUrl(settings: AppSettings, apiKey: string): string {
+  const host = settings.host.trim();
+  const isLocal = /^(localhost|127\.0\.0\.1)(:\d+)?$/i.test(host);
+  const scheme = isLocal ? 'ws' : 'wss';
+  return `${scheme}://${host}/ws/google.ai.generativelanguage.${settings.apiVersion}.GenerativeService.BidiGenerateContent?key=${apiKey}`;
+}
@@ -1,15 +1,26 @@
 /**
- * Storage service for managing persistent data in browser localStorage
+ * Storage service for managing persistent data.
+ * Backed by a SessionRepository (IndexedDB in the browser); all functions are async.
  */
 
-import { UserStats, SessionHistoryItem, DebateAnalysis, UserPersona } from '../types';
-
-// Storage keys as constants
-const STORAGE_KEYS = {
-  STATS: 'debate_master_stats',
-  HISTORY: 'debate_master_history',
-  PERSONA: 'debate_master_persona',
-} as const;
+import type {
+  AnalysisStatus,
+  UserStats,
+  SessionHistoryItem,
+  DebateAnalysis,
+  UserPersona,
+  ChatMessage,
+  SessionTranscript,
+  SessionRecording,
+  SessionDetails,
+  RecordedAudio,
+} from '../types';
+import { buildTranscriptTurns } from '../utils/transcriptUtils';
+import {
+  type SessionRepository,
+  IndexedDbSessionRepository,
+  InMemorySessionRepository,
+} from './sessionRepository';
 
 /**
  * Default user statistics when none exist
@@ -21,132 +32,338 @@ const DEFAULT_STATS: UserStats = {
   badges: [],
 };
 
+let repository: SessionRepository | null = null;
+
+/**
+ * Returns the active repository, creating the IndexedDB one on first use.
+ * Falls back to memory when IndexedDB isn't available (e.g. some private browsing modes)
+ */
+export function getRepository(): SessionRepository {
+  if (!repository) {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB not available - session data will not persist');
+      repository = new InMemorySessionRepository();
+    } else {
+      repository = new IndexedDbSessionRepository();
+    }
+  }
+  return repository;
+}
+
+/**
+ * Replaces the active repository, e.g. with an InMemorySessionRepository in tests
+ */
+export function setRepository(repo: SessionRepository): void {
+  repository = repo;
+}
+
 /**
- * Retrieves user statistics from localStorage
+ * Retrieves user statistics
  * @returns UserStats object, or default stats if none exist
  */
-export function getStats(): UserStats {
+export async function getStats(): Promise<UserStats> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.STATS);
-    if (!stored) {
-      return { ...DEFAULT_STATS };
-    }
-    return JSON.parse(stored) as UserStats;
+    return (await getRepository().getStats()) ?? { ...DEFAULT_STATS };
   } catch (error) {
-    console.error('Error reading stats from localStorage:', error);
+    console.error('Error reading stats:', error);
     return { ...DEFAULT_STATS };
   }
 }
 
 /**
- * Retrieves session history from localStorage
+ * Retrieves session history, most recent first
  * @returns Array of SessionHistoryItem, or empty array if none exist
  */
-export function getHistory(): SessionHistoryItem[] {
+export async function getHistory(): Promise<SessionHistoryItem[]> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.HISTORY);
-    if (!stored) {
-      return [];
-    }
-    return JSON.parse(stored) as SessionHistoryItem[];
+    return await getRepository().getAllSessions();
   } catch (error) {
-    console.error('Error reading history from localStorage:', error);
+    console.error('Error reading history:', error);
     return [];
   }
 }
 
+/**
+ * Retrieves sessions within a date range, most recent first
+ */
+export function getSessionsByDate(from: Date, to: Date): Promise<SessionHistoryItem[]> {
+  return getRepository().querySessionsByDate(from, to);
+}
+
+/**
+ * Retrieves sessions on exactly the given topic, most recent first
+ */
+export function getSessionsByTopic(topic: string): Promise<SessionHistoryItem[]> {
+  return getRepository().querySessionsByTopic(topic);
+}
+
+/**
+ * Retrieves sessions scored within [min, max], most recent first
+ */
+export function getSessionsByScore(min: number, max: number): Promise<SessionHistoryItem[]> {
+  return getRepository().querySessionsByScore(min, max);
+}
+
+/**
+ * Retrieves a single transcript by id
+ * @param transcriptId - Id stored on SessionHistoryItem.transcriptId
+ * @returns SessionTranscript, or null if it doesn't exist
+ */
+export async function getTranscript(transcriptId: string): Promise<SessionTranscript | null> {
+  try {
+    return await getRepository().getTranscript(transcriptId);
+  } catch (error) {
+    console.error('Error reading transcript:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves a transcript
+ * @param transcript - The SessionTranscript to persist
+ */
+export function saveTranscript(transcript: SessionTranscript): Promise<void> {
+  return getRepository().putTranscript(transcript);
+}
+
+/**
+ * Retrieves a session recording by id
+ * @param recordingId - Id stored on SessionHistoryItem.recordingId
+ * @returns SessionRecording, or null if it doesn't exist
+ */
+export async function getRecording(recordingId: string): Promise<SessionRecording | null> {
+  try {
+    return await getRepository().getRecording(recordingId);
+  } catch (error) {
+    console.error('Error reading recording:', error);
+    return null;
+  }
+}
+
+/**
+ * Points earned for a session of the given length
+ * @param durationSeconds - Session duration in seconds
+ */
+export function getSessionPoints(durationSeconds: number): number {
+  return 10 + Math.floor(durationSeconds / 60) * 2;
+}
+
+/**
+ * Adds any milestone badges the stats now qualify for
+ * @param stats - Updated statistics
+ * @returns The same stats with newly earned badges appended
+ */
+export function awardBadges(stats: UserStats): UserStats {
+  if (stats.totalSessions >= 1 && !stats.badges.includes('Debate Novice')) {
+    stats.badges.push('Debate Novice');
+  }
+  if (stats.totalSessions >= 5 && !stats.badges.includes('Consistency King')) {
+    stats.badges.push('Consistency King');
+  }
+  if (stats.points >= 100 && !stats.badges.includes('Century Club')) {
+    stats.badges.push('Century Club');
+  }
+  return stats;
+}
+
 /**
  * Saves a completed session, updating statistics and history
  * @param topic - The debate topic
  * @param durationSeconds - Session duration in seconds
- * @param analysis - Optional debate analysis data
+ * @param analysis - Debate analysis; without one the session is saved with a pending analysis
+ * @param messages - Optional chat messages to store as the session transcript
+ * @param details - Optional session details such as the format and phases that were run
+ * @param recording - Optional session audio for replay
  * @returns Object containing updated stats and the new history item
+ * @throws If the data could not be written (e.g. storage quota exceeded)
  */
-export function saveSession(
+export async function saveSession(
   topic: string,
   durationSeconds: number,
-  analysis?: DebateAnalysis
-): { stats: UserStats; newItem: SessionHistoryItem } {
-  // Get current stats and history
-  const currentStats = getStats();
-  const currentHistory = getHistory();
+  analysis?: DebateAnalysis,
+  messages?: ChatMessage[],
+  details: SessionDetails = {},
+  recording?: RecordedAudio | null
+): Promise<{ stats: UserStats; newItem: SessionHistoryItem }> {
+  // Get current stats
+  const currentStats = await getStats();
 
   // Calculate new statistics
   const durationMinutes = Math.floor(durationSeconds / 60);
-  const sessionPoints = 10 + durationMinutes * 2;
 
-  const updatedStats: UserStats = {
+  const updatedStats = awardBadges({
     totalSessions: currentStats.totalSessions + 1,
     totalMinutes: currentStats.totalMinutes + durationMinutes,
-    points: currentStats.points + sessionPoints,
+    points: currentStats.points + getSessionPoints(durationSeconds),
     badges: [...currentStats.badges],
-  };
-
-  // Award badges based on milestones
-  if (updatedStats.totalSessions === 1 && !updatedStats.badges.includes('Debate Novice')) {
-    updatedStats.badges.push('Debate Novice');
-  }
-  if (updatedStats.totalSessions >= 5 && !updatedStats.badges.includes('Consistency King')) {
-    updatedStats.badges.push('Consistency King');
-  }
-  if (updatedStats.points >= 100 && !updatedStats.badges.includes('Century Club')) {
-    updatedStats.badges.push('Century Club');
-  }
+  });
 
   // Create new history item with analysis data if available
+  const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const transcriptId = messages && messages.length > 0 ? `transcript_${sessionId}` : undefined;
+  const recordingId = recording ? `recording_${sessionId}` : undefined;
+
   const newItem: SessionHistoryItem = {
-    id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    id: sessionId,
     date: new Date().toISOString(),
     topic,
     durationSeconds,
-    score: analysis?.score ?? Math.floor(Math.random() * 41) + 60,
-    confidenceLevel: analysis?.confidenceLevel,
-    englishProficiency: analysis?.englishProficiency,
-    vocabularyScore: analysis?.vocabularyScore,
-    clarityScore: analysis?.clarityScore,
-    argumentStrength: analysis?.argumentStrength,
-    persuasionScore: analysis?.persuasionScore,
+    ...details,
+    ...(analysis ? getAnalysisFields(analysis) : { analysisStatus: 'pending' }),
+    transcriptId,
+    recordingId,
   };
 
-  // Add to history (prepend to show most recent first)
-  const updatedHistory = [newItem, ...currentHistory];
+  const repo = getRepository();
 
-  // Persist to localStorage
-  try {
-    localStorage.setItem(STORAGE_KEYS.STATS, JSON.stringify(updatedStats));
-    localStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(updatedHistory));
-  } catch (error) {
-    console.error('Error saving to localStorage:', error);
+  // The transcript is stored separately so history stays small to read. It is written in the
+  // same transaction as the session and stats, so a failure leaves none of them behind
+  const transcript: SessionTranscript | undefined =
+    messages && transcriptId
+      ? { id: transcriptId, sessionId, topic, createdAt: newItem.date, turns: buildTranscriptTurns(messages) }
+      : undefined;
+  await repo.putSessionEntry(newItem, updatedStats, transcript);
+
+  // Recordings are large; losing one to the storage quota shouldn't lose the session
+  if (recording && recordingId) {
+    try {
+      await repo.putRecording({ ...recording, id: recordingId, sessionId });
+    } catch (error) {
+      console.error('Error saving recording:', error);
+      newItem.recordingId = undefined;
+      // The session itself is already saved; at worst its replay link points at nothing
+      await repo.putSession(newItem).catch(e => console.error('Error unlinking recording:', e));
+    }
   }
 
   return { stats: updatedStats, newItem };
 }
 
 /**
- * Saves user persona data to localStorage
+ * History item fields holding an analysis
+ */
+function getAnalysisFields(analysis: DebateAnalysis): Partial<SessionHistoryItem> {
+  return {
+    score: analysis.score,
+    confidenceLevel: analysis.confidenceLevel,
+    englishProficiency: analysis.englishProficiency,
+    vocabularyScore: analysis.vocabularyScore,
+    clarityScore: analysis.clarityScore,
+    argumentStrength: analysis.argumentStrength,
+    persuasionScore: analysis.persuasionScore,
+    strategicAdaptability: analysis.strategicAdaptability,
+    archetype: analysis.archetype,
+    wildcardInsight: analysis.wildcardInsight,
+    emotionalState: analysis.emotionalState,
+    strengths: analysis.strengths,
+    weaknesses: analysis.weaknesses,
+    suggestions: analysis.suggestions,
+    turnAnalysis: analysis.turnAnalysis,
+    rubricId: analysis.rubricId,
+    rubricName: analysis.rubricName,
+    criterionScores: analysis.criterionScores,
+  };
+}
+
+/**
+ * Stores the analysis of a session saved while its analysis was pending or failed
+ * @returns The updated history item, or null if the session no longer exists
+ */
+export async function completeSessionAnalysis(
+  sessionId: string,
+  analysis: DebateAnalysis
+): Promise<SessionHistoryItem | null> {
+  const repo = getRepository();
+  const session = await repo.getSession(sessionId);
+  if (!session) return null;
+
+  const { analysisStatus: _status, analysisError: _error, ...rest } = session;
+  const updated: SessionHistoryItem = { ...rest, ...getAnalysisFields(analysis) };
+  await repo.putSession(updated);
+  return updated;
+}
+
+/**
+ * Records that a session's analysis is running again or has failed
+ * @returns The updated history item, or null if the session no longer exists
+ */
+export async function markSessionAnalysis(
+  sessionId: string,
+  status: AnalysisStatus,
+  error?: string
+): Promise<SessionHistoryItem | null> {
+  const repo = getRepository();
+  const session = await repo.getSession(sessionId);
+  if (!session) return null;
+
+  const updated: SessionHistoryItem = { ...session, analysisStatus: status, analysisError: error };
+  await repo.putSession(updated);
+  return updated;
+}
+
+/**
+ * Rebuilds the full DebateAnalysis stored on a history item
+ * @param session - Session history item
+ * @returns DebateAnalysis, or null for sessions saved before the full analysis was kept
+ */
+export function getSessionAnalysis(session: SessionHistoryItem): DebateAnalysis | null {
+  if (
+    session.score === undefined ||
+    !session.confidenceLevel ||
+    !session.englishProficiency ||
+    session.vocabularyScore === undefined ||
+    session.clarityScore === undefined ||
+    session.argumentStrength === undefined ||
+    session.persuasionScore === undefined ||
+    session.strategicAdaptability === undefined ||
+    !session.archetype
+  ) {
+    return null;
+  }
+
+  return {
+    score: session.score,
+    confidenceLevel: session.confidenceLevel,
+    englishProficiency: session.englishProficiency,
+    vocabularyScore: session.vocabularyScore,
+    clarityScore: session.clarityScore,
+    argumentStrength: session.argumentStrength,
+    persuasionScore: session.persuasionScore,
+    strategicAdaptability: session.strategicAdaptability,
+    archetype: session.archetype,
+    wildcardInsight: session.wildcardInsight ?? '',
+    emotionalState: session.emotionalState ?? '',
+    strengths: session.strengths ?? [],
+    weaknesses: session.weaknesses ?? [],
+    suggestions: session.suggestions ?? [],
+    turnAnalysis: session.turnAnalysis,
+    rubricId: session.rubricId,
+    rubricName: session.rubricName,
+    criterionScores: session.criterionScores,
+  };
+}
+
+/**
+ * Saves user persona data
  * @param persona - The UserPersona object to persist
  */
-export function savePersona(persona: UserPersona): void {
+export async function savePersona(persona: UserPersona): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEYS.PERSONA, JSON.stringify(persona));
+    await getRepository().putPersona(persona);
   } catch (error) {
-    console.error('Error saving persona to localStorage:', error);
+    console.error('Error saving persona:', error);
   }
 }
 
 /**
- * Retrieves user persona data from localStorage
+ * Retrieves user persona data
  * @returns UserPersona object, or null if none exists
  */
-export function loadPersona(): UserPersona | null {
+export async function loadPersona(): Promise<UserPersona | null> {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.PERSONA);
-    if (!stored) {
-      return null;
-    }
-    return JSON.parse(stored) as UserPersona;
+    return await getRepository().getPersona();
   } catch (error) {
-    console.error('Error reading persona from localStorage:', error);
+    console.error('Error reading persona:', error);
     return null;
   }
 }
@@ -0,0 +1,127 @@
+/**
+ * Topic service for the user's favourite and recently used topics, and for AI-generated motions
+ */
+
+import type { TopicCategory, TopicDifficulty } from '../types';
+import { normalizeTopic } from '../utils/topicLibrary';
+import { GeminiLiveService } from './geminiLiveService';
+import { loadSettings, resolveApiKey } from './settingsService';
+
+// Storage keys as constants
+const TOPIC_KEYS = {
+  FAVORITES: 'debate_master_favorite_topics',
+  RECENT: 'debate_master_recent_topics',
+} as const;
+
+const MAX_RECENT_TOPICS = 10;
+
+function loadTopicList(key: string): string[] {
+  try {
+    const data = localStorage.getItem(key);
+    if (!data) return [];
+
+    const parsed: unknown = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed.filter((topic): topic is string => typeof topic === 'string') : [];
+  } catch (error) {
+    console.error('Error reading topics from localStorage:', error);
+    return [];
+  }
+}
+
+function saveTopicList(key: string, topics: string[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(topics));
+  } catch (error) {
+    console.error('Error saving topics to localStorage:', error);
+  }
+}
+
+/**
+ * Favourite topics, most recently added first
+ */
+export function loadFavoriteTopics(): string[] {
+  return loadTopicList(TOPIC_KEYS.FAVORITES);
+}
+
+/**
+ * Adds the topic to the favourites, or removes it if it is already one
+ * @returns The updated favourites
+ */
+export function toggleFavoriteTopic(topic: string): string[] {
+  const key = normalizeTopic(topic);
+  const favorites = loadFavoriteTopics();
+  const updated = favorites.some(favorite => normalizeTopic(favorite) === key)
+    ? favorites.filter(favorite => normalizeTopic(favorite) !== key)
+    : [topic.trim(), ...favorites];
+  saveTopicList(TOPIC_KEYS.FAVORITES, updated);
+  return updated;
+}
+
+/**
+ * Topics the user started a debate on, most recent first
+ */
+export function loadRecentTopics(): string[] {
+  return loadTopicList(TOPIC_KEYS.RECENT);
+}
+
+/**
+ * Moves the topic to the front of the recent topics, keeping the last MAX_RECENT_TOPICS
+ */
+export function addRecentTopic(topic: string): void {
+  const key = normalizeTopic(topic);
+  const recent = loadRecentTopics().filter(recentTopic => normalizeTopic(recentTopic) !== key);
+  saveTopicList(TOPIC_KEYS.RECENT, [topic.trim(), ...recent].slice(0, MAX_RECENT_TOPICS));
+}
+
+/**
+ * Adds topics from an import to the favourites and recent topics, skipping ones already saved
+ * @param importedFirst - List the imported topics ahead of the saved ones rather than after them
+ * @returns How many imported topics were added
+ */
+export function importTopics(favorites: string[], recent: string[], importedFirst: boolean): number {
+  return (
+    combineTopicList(TOPIC_KEYS.FAVORITES, favorites, importedFirst) +
+    combineTopicList(TOPIC_KEYS.RECENT, recent, importedFirst, MAX_RECENT_TOPICS)
+  );
+}
+
+function combineTopicList(key: string, imported: string[], importedFirst: boolean, limit = Infinity): number {
+  const saved = loadTopicList(key);
+  const savedKeys = new Set(saved.map(normalizeTopic));
+  const seen = new Set<string>();
+  const combined = (importedFirst ? [...imported, ...saved] : [...saved, ...imported])
+    .map(topic => topic.trim())
+    .filter(topic => {
+      const topicKey = normalizeTopic(topic);
+      if (!topic || seen.has(topicKey)) return false;
+      seen.add(topicKey);
+      return true;
+    })
+    .slice(0, limit);
+
+  const added = combined.filter(topic => !savedKeys.has(normalizeTopic(topic))).length;
+  if (added > 0) saveTopicList(key, combined);
+  return added;
+}
+
+/**
+ * Asks the analysis model for a new motion
+ * @param avoid - Topics not to repeat, e.g. everything already debated
+ * @throws If the API key is missing or no topic could be generated
+ */
+export async function generateMotion(
+  category: TopicCategory | undefined,
+  difficulty: TopicDifficulty | undefined,
+  avoid: string[]
+): Promise<string> {
+  const settings = loadSettings();
+  const apiKey = resolveApiKey(settings);
+  if (!apiKey) {
+    throw new Error('API key not configured. Please go to Settings to add your Gemini API key.');
+  }
+
+  // Only text generation is used, so the live callbacks have nothing to do
+  const noop = () => {};
+  const provider = new GeminiLiveService(apiKey, noop, noop, noop, noop, settings);
+  return provider.generateMotion({ category, difficulty, avoid });
+}
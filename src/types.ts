@@ -11,6 +11,98 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isFinal?: boolean;
+  interrupted?: boolean; // the AI was cut off before finishing this turn
+  fragments?: TranscriptFragment[]; // transcription deltas the text was assembled from
+}
+
+/**
+ * One streamed transcription delta and when it arrived
+ */
+export interface TranscriptFragment {
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * A run of consecutive messages from one speaker
+ */
+export interface TranscriptTurn {
+  index: number;
+  role: 'user' | 'model';
+  startTime: number; // timestamp of the first message
+  endTime: number; // timestamp of the last message
+  messages: ChatMessage[];
+}
+
+/**
+ * Full transcript of a debate session, stored separately from the history item
+ */
+export interface SessionTranscript {
+  id: string;
+  sessionId: string;
+  topic: string;
+  createdAt: string; // ISO string
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Audio of a debate session (microphone and AI voice mixed to mono), stored separately from the history item
+ */
+export interface SessionRecording {
+  id: string;
+  sessionId: string;
+  startedAt: number; // epoch ms of the first sample, same clock as ChatMessage timestamps
+  durationSeconds: number;
+  mimeType: string;
+  audio: Blob;
+}
+
+/**
+ * A finished recording before it is attached to a saved session
+ */
+export type RecordedAudio = Omit<SessionRecording, 'id' | 'sessionId'>;
+
+/**
+ * A stretch of speech, in epoch ms
+ */
+export interface SpeechInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A stretch of a live debate the user paused, in epoch ms
+ */
+export interface SessionPause {
+  start: number;
+  end: number;
+}
+
+/**
+ * When each side was audibly speaking: the user from voice activity / push-to-talk,
+ * the AI from its scheduled audio playback
+ */
+export interface SpeechActivityLog {
+  user: SpeechInterval[];
+  model: SpeechInterval[];
+}
+
+/**
+ * Objective delivery metrics computed locally from the transcript and speech activity.
+ * Values are null when the session didn't provide enough data to compute them
+ */
+export interface SpeechMetrics {
+  userWords: number;
+  userSpeakingSeconds: number;
+  modelSpeakingSeconds: number;
+  wordsPerMinute: number | null;
+  fillerCount: number;
+  fillersPer100Words: number | null;
+  topFillers: { filler: string; count: number }[]; // most frequent first
+  longestPauseSeconds: number | null; // longest silence inside one of the user's turns
+  talkRatio: number | null; // user share of total talk time, 0-1
+  interruptions: number; // times the user started speaking over the AI
+  typeTokenRatio: number | null; // distinct words / total words, 0-1
 }
 
 /**
@@ -31,13 +123,174 @@ export interface SessionHistoryItem {
   date: string; // ISO string
   topic: string;
   durationSeconds: number;
-  score: number; // 0-100
+  score?: number; // 0-100; absent while the session hasn't been analyzed
   confidenceLevel?: 'Low' | 'Medium' | 'High' | 'Unstoppable';
   englishProficiency?: 'Beginner' | 'Intermediate' | 'Advanced' | 'Native';
   vocabularyScore?: number;
   clarityScore?: number;
   argumentStrength?: number;
   persuasionScore?: number;
+  strategicAdaptability?: number;
+  archetype?: string;
+  wildcardInsight?: string;
+  emotionalState?: string;
+  strengths?: string[];
+  weaknesses?: string[];
+  suggestions?: string[];
+  turnAnalysis?: TurnAnalysis[];
+  rubricId?: string; // rubric the score was computed with
+  rubricName?: string;
+  criterionScores?: CriterionScore[];
+  analysisStatus?: AnalysisStatus; // absent once the analysis has succeeded (and for older sessions)
+  analysisError?: string; // why the last analysis attempt failed
+  transcriptId?: string; // links to a SessionTranscript
+  recordingId?: string; // links to a SessionRecording
+  format?: DebateFormat; // absent for sessions saved before formats existed
+  phases?: SessionPhaseRecord[]; // speech phases as they were actually run
+  side?: DebateSide; // side the user argued
+  motion?: string; // formal motion, e.g. "This House would..."
+  speechMetrics?: SpeechMetrics; // absent for typed sessions
+  input?: DebateInput; // absent for sessions saved before typed debates existed, which were all spoken
+  pauses?: SessionPause[]; // times the debate was paused; durationSeconds leaves them out
+  opponentId?: string; // AI opponent persona debated against; absent for older sessions
+  opponentName?: string;
+}
+
+/**
+ * Where a session's analysis stands when it doesn't have one yet:
+ * - pending: saved, analysis not finished (still running, or the app closed before it did)
+ * - failed: every analysis attempt failed; it can be re-run from the stored transcript
+ */
+export type AnalysisStatus = 'pending' | 'failed';
+
+/**
+ * Optional session details captured during the debate and saved with the history item
+ */
+export type SessionDetails = Pick<SessionHistoryItem, 'format' | 'phases' | 'side' | 'motion' | 'speechMetrics' | 'rubricId' | 'input' | 'pauses' | 'opponentId' | 'opponentName'>;
+
+/**
+ * Everything chosen on the Dashboard to start a debate
+ */
+export interface DebateSetup {
+  topic: string;
+  motion: string;
+  side: DebateSide;
+  opponentId: string;
+  format: DebateFormat;
+  durationMinutes: number;
+  rubricId: string;
+  input: DebateInput;
+  aiVoice: boolean; // typed debates only: whether the AI's replies are spoken too
+}
+
+export type TopicCategory =
+  | 'politics'
+  | 'technology'
+  | 'ethics'
+  | 'education'
+  | 'environment'
+  | 'economics'
+  | 'society'
+  | 'health';
+
+export type TopicDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * A motion from the built-in topic library
+ */
+export interface LibraryTopic {
+  id: string;
+  topic: string;
+  category: TopicCategory;
+  difficulty: TopicDifficulty;
+}
+
+export type EvidenceQuality = 'None' | 'Weak' | 'Moderate' | 'Strong';
+export type Responsiveness = 'Ignored' | 'Partial' | 'Direct';
+
+export type FallacyType =
+  | 'strawman'
+  | 'ad-hominem'
+  | 'slippery-slope'
+  | 'false-dilemma'
+  | 'hasty-generalization'
+  | 'false-cause'
+  | 'appeal-to-emotion'
+  | 'appeal-to-authority'
+  | 'bandwagon'
+  | 'red-herring'
+  | 'tu-quoque'
+  | 'circular-reasoning'
+  | 'other';
+
+/**
+ * A logical fallacy spotted in one of the user's turns
+ */
+export interface DetectedFallacy {
+  type: FallacyType;
+  quote: string; // the user's words that commit the fallacy, verbatim from the transcript
+  explanation: string;
+}
+
+/**
+ * Breakdown of a single user turn
+ */
+export interface TurnAnalysis {
+  turnIndex: number; // TranscriptTurn.index of the user turn
+  claim: string; // the main claim, in one sentence
+  evidenceQuality: EvidenceQuality;
+  evidenceNote: string;
+  responsiveness: Responsiveness; // how directly it answered the AI turn before it
+  responsivenessNote: string;
+  fallacies: DetectedFallacy[];
+}
+
+/**
+ * How much benefit of the doubt the analysis gives when placing scores in a band
+ */
+export type RubricLeniency = 'strict' | 'balanced' | 'generous';
+
+/**
+ * One scored criterion of a rubric; weights are relative to the other criteria
+ */
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+}
+
+/**
+ * A labelled score range (inclusive) that tells the analysis what a score means
+ */
+export interface ScoreBand {
+  min: number;
+  max: number;
+  label: string;
+  description: string;
+}
+
+/**
+ * Named scoring definition used to analyze a session
+ */
+export interface Rubric {
+  id: string;
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+  bands: ScoreBand[]; // ordered low to high, together covering 0-100
+  leniency: RubricLeniency;
+  builtIn?: boolean;
+}
+
+/**
+ * Score for one rubric criterion, with the criterion as it was when the session was scored
+ */
+export interface CriterionScore {
+  criterionId: string;
+  name: string;
+  weight: number;
+  score: number; // 0-100
 }
 
 /**
@@ -58,6 +311,10 @@ export interface DebateAnalysis {
   strengths: string[];
   weaknesses: string[];
   suggestions: string[];
+  turnAnalysis?: TurnAnalysis[]; // one entry per user turn; absent for older sessions
+  rubricId?: string; // rubric the session was scored with; absent for older sessions
+  rubricName?: string;
+  criterionScores?: CriterionScore[];
 }
 
 /**
@@ -73,11 +330,135 @@ export enum AppView {
 }
 
 /**
- * Debate style modes
+ * How readily the AI opponent takes the floor when the user pauses
+ */
+export type InterruptionLevel = 'low' | 'medium' | 'high';
+
+/**
+ * AI opponent character: the voice it speaks with, how it argues and how eagerly it cuts in
+ */
+export interface OpponentPersona {
+  id: string;
+  name: string;
+  description: string;
+  voice: string; // prebuilt Gemini Live voice name
+  prompt: string; // who the opponent is, added to the system instruction
+  tactics: string[];
+  interruption: InterruptionLevel;
+  builtIn?: boolean;
+}
+
+/**
+ * How the user's turns are detected: automatically from the mic level, or by holding a key
+ */
+export type InputMode = 'vad' | 'push-to-talk';
+
+/**
+ * How the user takes part: speaking into the microphone, or typing in a chat
+ */
+export type DebateInput = 'voice' | 'text';
+
+/**
+ * Debate formats - FREE_FORM is a single open conversation under one timer
  */
-export enum DebateStyle {
-  COACH = 'COACH',
-  AGGRESSIVE = 'AGGRESSIVE',
+export enum DebateFormat {
+  FREE_FORM = 'FREE_FORM',
+  LINCOLN_DOUGLAS = 'LINCOLN_DOUGLAS',
+  POLICY = 'POLICY',
+  BRITISH_PARLIAMENTARY = 'BRITISH_PARLIAMENTARY',
+  PUBLIC_FORUM = 'PUBLIC_FORUM',
+}
+
+export type DebatePhaseKind = 'constructive' | 'cross-examination' | 'rebuttal' | 'prep' | 'closing';
+
+/**
+ * Side of the motion the user argues; the AI always takes the other one
+ */
+export type DebateSide = 'pro' | 'con';
+
+/**
+ * Who holds the floor in a phase, from the user's point of view; 'both' is open exchange, 'none' is prep time
+ */
+export type PhaseSpeaker = 'user' | 'model' | 'both' | 'none';
+
+/**
+ * Side that holds the floor in a format phase: affirmative (pro), negative (con), both, or nobody
+ */
+export type PhaseHolder = 'aff' | 'neg' | 'both' | 'none';
+
+/**
+ * One timed speech phase of a debate format
+ */
+export interface DebatePhase {
+  id: string;
+  name: string;
+  kind: DebatePhaseKind;
+  holder: PhaseHolder; // for cross-examination, the side asking the questions
+  durationSeconds: number;
+  task: string; // what the side holding the floor should deliver
+  allowsPoi?: boolean; // the other side may offer points of information
+}
+
+/**
+ * A phase resolved for the side the user is arguing
+ */
+export interface ResolvedPhase extends DebatePhase {
+  speaker: PhaseSpeaker;
+  aiInstruction: string; // what the AI must do during the phase
+  userGuidance: string; // shown to the user in DebateLive
+}
+
+/**
+ * A selectable debate format and its phase structure
+ */
+export interface DebateFormatDefinition {
+  id: DebateFormat;
+  name: string;
+  description: string;
+  phases: DebatePhase[];
+}
+
+/**
+ * A phase as it was run in a session
+ */
+export interface SessionPhaseRecord {
+  phaseId: string;
+  name: string;
+  kind: DebatePhaseKind;
+  speaker: PhaseSpeaker;
+  plannedSeconds: number;
+  actualSeconds: number;
+}
+
+/**
+ * Gemini model metadata used by Settings and the live/analysis services
+ */
+export interface ModelConfig {
+  id: string;
+  name: string;
+  description: string;
+  supportsLiveAPI: boolean;
+  category: 'latest' | 'stable' | 'experimental';
+}
+
+/**
+ * User-configurable settings for connecting to Gemini
+ */
+export interface AppSettings {
+  apiKey: string;
+  liveModel: string; // model id without the "models/" prefix
+  analysisModel: string;
+  apiVersion: string; // Live API version, e.g. v1alpha
+  host: string; // Live API host, optionally with port
+  captureChunkMs: number; // microphone audio batched per Live API message
+}
+
+/**
+ * A problem found when validating AppSettings
+ */
+export interface SettingsIssue {
+  field: keyof AppSettings;
+  message: string;
 }
 
 /**
@@ -88,6 +469,14 @@ export interface AudioConfig {
   outputSampleRate: number;
 }
 
+/**
+ * Microphone and speaker picked in the pre-session audio check; unset means the system default
+ */
+export interface AudioDevices {
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+}
+
 /**
  * Represents a single trait of a persona
  */
@@ -0,0 +1,161 @@
+/**
+ * Runtime validation of the analysis model's JSON.
+ * The response schema is a request, not a guarantee, so everything is checked before it is
+ * scored and saved: scores are clamped to 0-100, enums must hold a known value, and malformed
+ * per-turn entries are dropped rather than failing the whole analysis.
+ */
+
+import type {
+  DebateAnalysis,
+  DetectedFallacy,
+  EvidenceQuality,
+  Responsiveness,
+  Rubric,
+  TurnAnalysis,
+} from '../types';
+import { isFallacyType } from './fallacies';
+import { CORE_METRICS, getExtraCriteria, type RubricAnalysisResponse } from './rubrics';
+
+export const CONFIDENCE_LEVELS: DebateAnalysis['confidenceLevel'][] = ['Low', 'Medium', 'High', 'Unstoppable'];
+export const PROFICIENCY_LEVELS: DebateAnalysis['englishProficiency'][] = ['Beginner', 'Intermediate', 'Advanced', 'Native'];
+export const EVIDENCE_QUALITIES: EvidenceQuality[] = ['None', 'Weak', 'Moderate', 'Strong'];
+export const RESPONSIVENESS_LEVELS: Responsiveness[] = ['Ignored', 'Partial', 'Direct'];
+
+/**
+ * The analysis response can't be used, so the request should be retried
+ */
+export class AnalysisValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(options: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
+
+/**
+ * A 0-100 score; numeric strings are accepted, anything else is rejected
+ */
+function readScore(value: unknown, field: string): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new AnalysisValidationError(`"${field}" is not a number`);
+  }
+  return Math.min(100, Math.max(0, Math.round(number)));
+}
+
+function readString(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw new AnalysisValidationError(`"${field}" is not a string`);
+  }
+  return value.trim();
+}
+
+function readStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim());
+}
+
+function readFallacy(value: unknown): DetectedFallacy | null {
+  if (!isRecord(value) || typeof value.explanation !== 'string') return null;
+  return {
+    type: isFallacyType(value.type) ? value.type : 'other',
+    quote: typeof value.quote === 'string' ? value.quote : '',
+    explanation: value.explanation,
+  };
+}
+
+function readTurn(value: unknown): TurnAnalysis | null {
+  if (!isRecord(value)) return null;
+  const turnIndex = typeof value.turnIndex === 'string' ? Number(value.turnIndex) : value.turnIndex;
+  if (
+    typeof turnIndex !== 'number' ||
+    !Number.isInteger(turnIndex) ||
+    turnIndex < 0 ||
+    typeof value.claim !== 'string' ||
+    !isOneOf(EVIDENCE_QUALITIES, value.evidenceQuality) ||
+    !isOneOf(RESPONSIVENESS_LEVELS, value.responsiveness)
+  ) {
+    return null;
+  }
+
+  return {
+    turnIndex,
+    claim: value.claim,
+    evidenceQuality: value.evidenceQuality,
+    evidenceNote: typeof value.evidenceNote === 'string' ? value.evidenceNote : '',
+    responsiveness: value.responsiveness,
+    responsivenessNote: typeof value.responsivenessNote === 'string' ? value.responsivenessNote : '',
+    fallacies: Array.isArray(value.fallacies)
+      ? value.fallacies.map(readFallacy).filter((fallacy): fallacy is DetectedFallacy => fallacy !== null)
+      : [],
+  };
+}
+
+/**
+ * Parses and validates the analysis model's response text
+ * @param text - Raw response text, expected to be JSON
+ * @param rubric - Rubric the analysis was requested with, for its extra criteria
+ * @throws AnalysisValidationError when the response is unusable
+ */
+export function parseAnalysisResponse(text: string, rubric: Rubric): RubricAnalysisResponse {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError('Response is not valid JSON');
+  }
+
+  if (!isRecord(data)) {
+    throw new AnalysisValidationError('Response is not a JSON object');
+  }
+
+  if (!isOneOf(CONFIDENCE_LEVELS, data.confidenceLevel)) {
+    throw new AnalysisValidationError(`Unknown confidence level "${String(data.confidenceLevel)}"`);
+  }
+  if (!isOneOf(PROFICIENCY_LEVELS, data.englishProficiency)) {
+    throw new AnalysisValidationError(`Unknown English proficiency "${String(data.englishProficiency)}"`);
+  }
+
+  const [vocabularyScore, clarityScore, argumentStrength, persuasionScore, strategicAdaptability] =
+    CORE_METRICS.map(metric => readScore(data[metric.key], metric.key)) as [number, number, number, number, number];
+
+  const extra = getExtraCriteria(rubric);
+  const rawCriterionScores = isRecord(data.criterionScores) ? data.criterionScores : {};
+  const criterionScores = extra.length > 0
+    ? Object.fromEntries(
+        extra.map(criterion => [criterion.id, readScore(rawCriterionScores[criterion.id], `criterionScores.${criterion.id}`)])
+      )
+    : undefined;
+
+  const archetype = readString(data.archetype, 'archetype');
+  if (!archetype) {
+    throw new AnalysisValidationError('"archetype" is empty');
+  }
+
+  return {
+    confidenceLevel: data.confidenceLevel,
+    englishProficiency: data.englishProficiency,
+    vocabularyScore,
+    clarityScore,
+    argumentStrength,
+    persuasionScore,
+    strategicAdaptability,
+    archetype,
+    wildcardInsight: typeof data.wildcardInsight === 'string' ? data.wildcardInsight.trim() : '',
+    emotionalState: typeof data.emotionalState === 'string' ? data.emotionalState.trim() : '',
+    strengths: readStringList(data.strengths),
+    weaknesses: readStringList(data.weaknesses),
+    suggestions: readStringList(data.suggestions),
+    turnAnalysis: Array.isArray(data.turnAnalysis)
+      ? data.turnAnalysis.map(readTurn).filter((turn): turn is TurnAnalysis => turn !== null)
+      : [],
+    criterionScores,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Level monitoring for the pre-session audio check.
+ * Reads the microphone's waveform from an analyser and turns it into a meter level,
+ * plus warnings when the input clips or stays close to silent.
+ */
+
+export interface AudioCheckOptions {
+  clipPeak?: number; // sample peak treated as clipping
+  clipHoldMs?: number; // how long the clipping warning stays after the last clipped frame
+  silenceRms?: number; // RMS below this counts as near-silence
+  silenceWarnMs?: number; // near-silence needed before warning
+}
+
+export interface AudioCheckReading {
+  level: number; // 0-1 for the meter, on a decibel scale
+  clipping: boolean;
+  silent: boolean;
+}
+
+const DEFAULT_CLIP_PEAK = 0.98;
+const DEFAULT_CLIP_HOLD_MS = 1500;
+const DEFAULT_SILENCE_RMS = 0.01;
+const DEFAULT_SILENCE_WARN_MS = 3000;
+
+// Meter range: -60 dBFS reads as empty, 0 dBFS as full
+const METER_FLOOR_DB = -60;
+
+/**
+ * RMS and absolute peak of a block of samples (-1 to 1)
+ */
+export function measureLevel(samples: Float32Array): { rms: number; peak: number } {
+  let sumSquares = 0;
+  let peak = 0;
+  for (const sample of samples) {
+    sumSquares += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return { rms: samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0, peak };
+}
+
+/**
+ * Maps an RMS level onto the 0-1 meter scale
+ */
+export function toMeterLevel(rms: number): number {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+export class AudioLevelMonitor {
+  private clipPeak: number;
+  private clipHoldMs: number;
+  private silenceRms: number;
+  private silenceWarnMs: number;
+
+  private lastClipAt: number = -Infinity;
+  private lastSoundAt: number;
+
+  constructor(options: AudioCheckOptions = {}, now: number = performance.now()) {
+    this.clipPeak = options.clipPeak ?? DEFAULT_CLIP_PEAK;
+    this.clipHoldMs = options.clipHoldMs ?? DEFAULT_CLIP_HOLD_MS;
+    this.silenceRms = options.silenceRms ?? DEFAULT_SILENCE_RMS;
+    this.silenceWarnMs = options.silenceWarnMs ?? DEFAULT_SILENCE_WARN_MS;
+    this.lastSoundAt = now;
+  }
+
+  /**
+   * Feeds the latest waveform from the microphone's analyser
+   * @param now - Time of the reading in ms (performance.now() by default)
+   */
+  update(samples: Float32Array, now: number = performance.now()): AudioCheckReading {
+    const { rms, peak } = measureLevel(samples);
+    if (peak >= this.clipPeak) this.lastClipAt = now;
+    if (rms >= this.silenceRms) this.lastSoundAt = now;
+
+    return {
+      level: toMeterLevel(rms),
+      clipping: now - this.lastClipAt < this.clipHoldMs,
+      silent: now - this.lastSoundAt >= this.silenceWarnMs,
+    };
+  }
+
+  /**
+   * Starts over, e.g. after switching microphones
+   */
+  reset(now: number = performance.now()) {
+    this.lastClipAt = -Infinity;
+    this.lastSoundAt = now;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Main-thread cost of encoding one captured chunk, against the per-byte encoder the
+ * ScriptProcessor capture used. Run with `npm run bench`
+ */
+
+import { bench, describe } from 'vitest';
+import { INPUT_SAMPLE_RATE, encodeBase64 } from './audioUtils';
+
+// The encoder capture used before encodeBase64: one string concatenation per byte
+function encodeBase64PerByte(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i] ?? 0);
+  }
+  return btoa(binary);
+}
+
+function createChunk(chunkMs: number): ArrayBuffer {
+  const samples = Math.round((INPUT_SAMPLE_RATE * chunkMs) / 1000);
+  return Int16Array.from({ length: samples }, (_, i) => Math.round(Math.sin(i / 10) * 8000)).buffer;
+}
+
+for (const chunkMs of [20, 100, 250]) {
+  describe(`${chunkMs} ms chunk`, () => {
+    const chunk = createChunk(chunkMs);
+
+    bench('encodeBase64', () => {
+      encodeBase64(chunk);
+    });
+
+    bench('per-byte encoder', () => {
+      encodeBase64PerByte(chunk);
+    });
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { decode, encodeBase64 } from './audioUtils';
+
+describe('encodeBase64', () => {
+  it('matches a standard base64 encoder', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ maxLength: 2048 }), (bytes) => {
+        expect(encodeBase64(bytes.slice().buffer)).toBe(Buffer.from(bytes).toString('base64'));
+      })
+    );
+  });
+
+  it('encodes buffers longer than one batch', () => {
+    // Several batches plus a partial one
+    const bytes = Uint8Array.from({ length: 0x8000 * 3 + 17 }, (_, i) => (i * 31) % 256);
+    expect(encodeBase64(bytes.buffer)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+
+  it('round-trips through decode', () => {
+    const pcm = Int16Array.from([0, 1, -1, 0x7fff, -0x8000, 1234]);
+    expect(new Int16Array(decode(encodeBase64(pcm.buffer)))).toEqual(pcm);
+  });
+});
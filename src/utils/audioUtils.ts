@@ -27,6 +27,28 @@ export function createBlob(pcmData: Float32Array): Blob {
   return new Blob([int16Data.buffer], { type: 'audio/pcm' });
 }
 
+// Bytes per String.fromCharCode call; keeps the argument list well under engine limits
+const BASE64_BATCH_SIZE = 0x8000;
+
+/**
+ * Encodes binary data as base64 for streaming.
+ * Builds the binary string in large batches instead of one concatenation per byte
+ *
+ * @param buffer - Raw bytes, e.g. Int16 PCM from the capture worklet
+ * @returns Base64 encoded string
+ */
+export function encodeBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const parts: string[] = [];
+
+  for (let offset = 0; offset < bytes.length; offset += BASE64_BATCH_SIZE) {
+    const batch = bytes.subarray(offset, offset + BASE64_BATCH_SIZE);
+    parts.push(String.fromCharCode.apply(null, batch as unknown as number[]));
+  }
+
+  return btoa(parts.join(''));
+}
+
 /**
  * Decodes base64 string to ArrayBuffer
  * Requirement 3.7: Base64 audio decoding from API responses
@@ -1,7 +1,9 @@
 import { SessionHistoryItem } from '../types';
+import { isScored } from './statisticsUtils';
 
 /**
  * Transform session data into chart data points for score trend visualization
+ * Unscored sessions have no point on the trend
  */
 export interface ScoreChartDataPoint {
   date: string;
@@ -12,6 +14,7 @@ export interface ScoreChartDataPoint {
 
 export function transformSessionsToScoreData(sessions: SessionHistoryItem[]): ScoreChartDataPoint[] {
   return sessions
+    .filter(isScored)
     .map(session => {
       const sessionDate = new Date(session.date);
       return {
@@ -58,6 +61,43 @@ export function groupSessionsByDuration(sessions: SessionHistoryItem[]): Duratio
   });
 }
 
+/**
+ * Speech metrics per session for the delivery trend chart
+ */
+export interface SpeechChartDataPoint {
+  date: string;
+  topic: string;
+  dateValue: number;
+  wordsPerMinute: number | null;
+  fillersPer100Words: number | null;
+  talkSharePercent: number | null;
+  vocabularyRichnessPercent: number | null;
+  interruptions: number;
+}
+
+export function transformSessionsToSpeechData(sessions: SessionHistoryItem[]): SpeechChartDataPoint[] {
+  return sessions
+    .filter(session => session.speechMetrics)
+    .map(session => {
+      const metrics = session.speechMetrics!;
+      const sessionDate = new Date(session.date);
+      return {
+        date: sessionDate.toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric'
+        }),
+        topic: session.topic,
+        dateValue: sessionDate.getTime(),
+        wordsPerMinute: metrics.wordsPerMinute,
+        fillersPer100Words: metrics.fillersPer100Words,
+        talkSharePercent: metrics.talkRatio === null ? null : Math.round(metrics.talkRatio * 100),
+        vocabularyRichnessPercent: metrics.typeTokenRatio === null ? null : Math.round(metrics.typeTokenRatio * 100),
+        interruptions: metrics.interruptions
+      };
+    })
+    .sort((a, b) => a.dateValue - b.dateValue);
+}
+
 /**
  * Calculate chart dimensions based on container size
  */
@@ -0,0 +1,200 @@
+/**
+ * Debate format catalog and phase helpers.
+ * Phase lengths are shortened practice versions of the competition timings.
+ * Phases are written per side (affirmative / pro / government vs negative / con / opposition)
+ * and resolved against the side the user picked; the AI always takes the other side.
+ */
+
+import {
+  DebateFormat,
+  type DebateFormatDefinition,
+  type DebatePhase,
+  type DebateSide,
+  type PhaseSpeaker,
+  type ResolvedPhase,
+} from '../types';
+
+const SPEAKER_LABELS: Record<PhaseSpeaker, string> = {
+  user: 'the user speaks',
+  model: 'you speak',
+  both: 'exchange',
+  none: 'prep, silence',
+};
+
+const CROSS_EX_AI_ASKS =
+  'Cross-examine the user about the speech they just gave. Ask short, pointed questions one at a time and wait for each answer. Do not make arguments or speeches of your own.';
+const CROSS_EX_USER_ASKS =
+  'The user is cross-examining you about your speech. Answer each question directly and briefly. Do not ask questions back or give a speech.';
+const OPEN_EXCHANGE =
+  'Question each other in turn. Keep every question and answer short and let the user finish before you reply.';
+const USER_SPEECH =
+  'Stay completely silent and let the user speak without interruption. Do not respond until the next phase is announced.';
+const USER_SPEECH_WITH_POI =
+  'Let the user speak. You may offer at most one brief point of information (a single short sentence) after the first minute; otherwise stay silent.';
+const PREP_TIME = 'This is prep time. Stay completely silent until the next phase is announced.';
+
+/**
+ * Guidance shown to the user while the AI holds the floor
+ */
+const LISTEN_GUIDANCE: Record<Exclude<DebatePhase['kind'], 'prep' | 'cross-examination'>, string> = {
+  constructive: 'Listen and note what you will question or refute.',
+  rebuttal: 'Listen for attacks you need to answer.',
+  closing: 'Listen to the closing summary.',
+};
+
+export const DEBATE_FORMATS: DebateFormatDefinition[] = [
+  {
+    id: DebateFormat.FREE_FORM,
+    name: 'Free Form',
+    description: 'One open conversation under a single timer.',
+    phases: [],
+  },
+  {
+    id: DebateFormat.LINCOLN_DOUGLAS,
+    name: 'Lincoln-Douglas',
+    description: 'One-on-one value debate with cross-examination and asymmetric rebuttals.',
+    phases: [
+      { id: 'ac', name: 'Affirmative Constructive', kind: 'constructive', holder: 'aff', durationSeconds: 180, task: 'Present your value, criterion and contentions for the resolution.' },
+      { id: 'cx-aff', name: 'Cross-Examination', kind: 'cross-examination', holder: 'neg', durationSeconds: 90, task: 'Question the affirmative about their case.' },
+      { id: 'nc', name: 'Negative Constructive', kind: 'constructive', holder: 'neg', durationSeconds: 210, task: 'Present your own value and criterion, your case against the resolution, and begin refuting the affirmative case.' },
+      { id: 'cx-neg', name: 'Cross-Examination', kind: 'cross-examination', holder: 'aff', durationSeconds: 90, task: 'Question the negative about their case.' },
+      { id: 'prep', name: 'Prep Time', kind: 'prep', holder: 'none', durationSeconds: 60, task: 'Plan your rebuttal. Your microphone is muted.' },
+      { id: '1ar', name: 'First Affirmative Rebuttal', kind: 'rebuttal', holder: 'aff', durationSeconds: 120, task: 'Answer the negative case and rebuild your own.' },
+      { id: 'nr', name: 'Negative Rebuttal', kind: 'rebuttal', holder: 'neg', durationSeconds: 180, task: 'Extend your strongest arguments, answer the first affirmative rebuttal and explain why you win.' },
+      { id: '2ar', name: 'Second Affirmative Rebuttal', kind: 'closing', holder: 'aff', durationSeconds: 90, task: 'Crystallize the key voting issues. No new arguments.' },
+    ],
+  },
+  {
+    id: DebateFormat.POLICY,
+    name: 'Policy',
+    description: 'Evidence-heavy debate over a concrete plan, with cross-examination after every constructive.',
+    phases: [
+      { id: '1ac', name: 'First Affirmative Constructive', kind: 'constructive', holder: 'aff', durationSeconds: 180, task: 'Present the harms, your plan and its solvency.' },
+      { id: 'cx-1ac', name: 'Cross-Examination', kind: 'cross-examination', holder: 'neg', durationSeconds: 90, task: 'Question the affirmative about their plan.' },
+      { id: '1nc', name: 'First Negative Constructive', kind: 'constructive', holder: 'neg', durationSeconds: 180, task: 'Run disadvantages to the plan, challenge its solvency and present any counterplan.' },
+      { id: 'cx-1nc', name: 'Cross-Examination', kind: 'cross-examination', holder: 'aff', durationSeconds: 90, task: 'Question the negative about their positions.' },
+      { id: 'prep', name: 'Prep Time', kind: 'prep', holder: 'none', durationSeconds: 60, task: 'Plan your rebuttal. Your microphone is muted.' },
+      { id: '1nr', name: 'Negative Rebuttal', kind: 'rebuttal', holder: 'neg', durationSeconds: 150, task: 'Extend the disadvantages and solvency arguments the affirmative has not answered and explain why they outweigh the plan.' },
+      { id: '1ar', name: 'Affirmative Rebuttal', kind: 'closing', holder: 'aff', durationSeconds: 150, task: 'Answer the negative rebuttal and weigh the plan\'s advantages.' },
+    ],
+  },
+  {
+    id: DebateFormat.BRITISH_PARLIAMENTARY,
+    name: 'British Parliamentary',
+    description: 'Government and Opposition alternate speeches; points of information instead of cross-examination.',
+    phases: [
+      { id: 'pm', name: 'Prime Minister', kind: 'constructive', holder: 'aff', durationSeconds: 210, task: 'Define the motion and open the Government case.', allowsPoi: true },
+      { id: 'lo', name: 'Leader of the Opposition', kind: 'constructive', holder: 'neg', durationSeconds: 210, task: 'Contest the Government\'s framing, rebut the Prime Minister and open the Opposition case.', allowsPoi: true },
+      { id: 'mg', name: 'Member of Government', kind: 'rebuttal', holder: 'aff', durationSeconds: 180, task: 'Rebut the Opposition and add a new Government argument.', allowsPoi: true },
+      { id: 'mo', name: 'Member of Opposition', kind: 'rebuttal', holder: 'neg', durationSeconds: 180, task: 'Rebut the Government extension and add a new Opposition argument.', allowsPoi: true },
+      { id: 'gw', name: 'Government Whip', kind: 'closing', holder: 'aff', durationSeconds: 150, task: 'Summarize the main clashes from the Government side. No new arguments.' },
+      { id: 'ow', name: 'Opposition Whip', kind: 'closing', holder: 'neg', durationSeconds: 150, task: 'Summarize the main clashes from the Opposition side. No new arguments.' },
+    ],
+  },
+  {
+    id: DebateFormat.PUBLIC_FORUM,
+    name: 'Public Forum',
+    description: 'Accessible Pro/Con debate with crossfires, summaries and final focus speeches.',
+    phases: [
+      { id: 'pro-c', name: 'Pro Constructive', kind: 'constructive', holder: 'aff', durationSeconds: 120, task: 'Present the case for the resolution in clear, accessible language.' },
+      { id: 'con-c', name: 'Con Constructive', kind: 'constructive', holder: 'neg', durationSeconds: 120, task: 'Present the case against the resolution in clear, accessible language.' },
+      { id: 'cf-1', name: 'Crossfire', kind: 'cross-examination', holder: 'both', durationSeconds: 90, task: 'Ask and answer questions about the constructive speeches.' },
+      { id: 'pro-r', name: 'Pro Rebuttal', kind: 'rebuttal', holder: 'aff', durationSeconds: 120, task: 'Attack the Con case point by point.' },
+      { id: 'con-r', name: 'Con Rebuttal', kind: 'rebuttal', holder: 'neg', durationSeconds: 120, task: 'Attack the Pro case point by point.' },
+      { id: 'pro-s', name: 'Pro Summary', kind: 'closing', holder: 'aff', durationSeconds: 90, task: 'Answer the Con rebuttal and narrow to your strongest arguments.' },
+      { id: 'con-s', name: 'Con Summary', kind: 'closing', holder: 'neg', durationSeconds: 90, task: 'Answer the Pro rebuttal and narrow to your strongest arguments.' },
+      { id: 'gcf', name: 'Grand Crossfire', kind: 'cross-examination', holder: 'both', durationSeconds: 90, task: 'Open questioning on the whole debate.' },
+      { id: 'prep', name: 'Prep Time', kind: 'prep', holder: 'none', durationSeconds: 60, task: 'Plan your final focus. Your microphone is muted.' },
+      { id: 'pro-ff', name: 'Pro Final Focus', kind: 'closing', holder: 'aff', durationSeconds: 60, task: 'Give the judge one clear reason to vote Pro. No new arguments.' },
+      { id: 'con-ff', name: 'Con Final Focus', kind: 'closing', holder: 'neg', durationSeconds: 60, task: 'Give the judge one clear reason to vote Con. No new arguments.' },
+    ],
+  },
+];
+
+/**
+ * Looks up a format definition, falling back to free form
+ */
+export function getDebateFormat(format: DebateFormat | undefined): DebateFormatDefinition {
+  return DEBATE_FORMATS.find((f) => f.id === format) ?? DEBATE_FORMATS[0]!;
+}
+
+/**
+ * Total scheduled length of a format in seconds (0 for free form)
+ */
+export function getFormatDurationSeconds(format: DebateFormatDefinition): number {
+  return format.phases.reduce((sum, phase) => sum + phase.durationSeconds, 0);
+}
+
+/**
+ * Resolves who speaks in a phase and what the AI and the user are told, for the user's side
+ */
+export function resolvePhase(phase: DebatePhase, userSide: DebateSide): ResolvedPhase {
+  if (phase.holder === 'none') {
+    return { ...phase, speaker: 'none', aiInstruction: PREP_TIME, userGuidance: phase.task };
+  }
+
+  if (phase.holder === 'both') {
+    return { ...phase, speaker: 'both', aiInstruction: `${phase.name}: ${OPEN_EXCHANGE}`, userGuidance: phase.task };
+  }
+
+  const userHolds = (phase.holder === 'aff') === (userSide === 'pro');
+
+  if (phase.kind === 'cross-examination') {
+    return userHolds
+      ? { ...phase, speaker: 'both', aiInstruction: CROSS_EX_USER_ASKS, userGuidance: 'Question the AI about its case.' }
+      : { ...phase, speaker: 'both', aiInstruction: CROSS_EX_AI_ASKS, userGuidance: 'Answer the AI\'s questions about your case.' };
+  }
+
+  if (userHolds) {
+    return {
+      ...phase,
+      speaker: 'user',
+      aiInstruction: phase.allowsPoi ? USER_SPEECH_WITH_POI : USER_SPEECH,
+      userGuidance: phase.task,
+    };
+  }
+
+  const task = phase.task.charAt(0).toLowerCase() + phase.task.slice(1);
+  return {
+    ...phase,
+    speaker: 'model',
+    aiInstruction: `Deliver the ${phase.name}: ${task}`,
+    userGuidance: LISTEN_GUIDANCE[phase.kind as keyof typeof LISTEN_GUIDANCE],
+  };
+}
+
+/**
+ * All phases of a format resolved for the user's side
+ */
+export function resolvePhases(format: DebateFormatDefinition, userSide: DebateSide): ResolvedPhase[] {
+  return format.phases.map((phase) => resolvePhase(phase, userSide));
+}
+
+/**
+ * Format overview added to the AI's system instruction
+ */
+export function buildFormatInstruction(format: DebateFormatDefinition, userSide: DebateSide): string {
+  if (format.phases.length === 0) return '';
+
+  const outline = resolvePhases(format, userSide)
+    .map((phase, index) => `${index + 1}. ${phase.name} (${SPEAKER_LABELS[phase.speaker]})`)
+    .join('\n');
+  const [userStance, aiStance] = userSide === 'pro' ? ['for', 'against'] : ['against', 'for'];
+
+  return `
+
+This is a formal ${format.name} debate. The user argues ${userStance} the motion and you argue ${aiStance} it.
+The debate runs in these phases:
+${outline}
+
+A moderator message starting with [PHASE] announces each phase. Follow the rules of the current phase strictly, especially about whose turn it is to speak.`;
+}
+
+/**
+ * Moderator message sent to the AI when a phase starts
+ */
+export function buildPhaseInstruction(format: DebateFormatDefinition, phase: ResolvedPhase): string {
+  const index = format.phases.findIndex((p) => p.id === phase.id);
+  const minutes = Math.round((phase.durationSeconds / 60) * 10) / 10;
+  return `[PHASE] ${index + 1} of ${format.phases.length}: ${phase.name} (${minutes} min). ${phase.aiInstruction}`;
+}
@@ -0,0 +1,81 @@
+/**
+ * Logical fallacy taxonomy used to tag the user's turns.
+ * The same catalog feeds the analysis prompt, the summary timeline and the Activity counts.
+ */
+
+import type { DetectedFallacy, FallacyType } from '../types';
+
+export interface FallacyDefinition {
+  type: FallacyType;
+  name: string;
+  description: string; // one line, also given to the analysis model
+}
+
+export const FALLACIES: FallacyDefinition[] = [
+  { type: 'strawman', name: 'Strawman', description: "Attacking a distorted or weaker version of the opponent's argument" },
+  { type: 'ad-hominem', name: 'Ad Hominem', description: 'Attacking the person instead of their argument' },
+  { type: 'slippery-slope', name: 'Slippery Slope', description: 'Claiming one step will inevitably lead to an extreme outcome without showing why' },
+  { type: 'false-dilemma', name: 'False Dilemma', description: 'Presenting only two options when more exist' },
+  { type: 'hasty-generalization', name: 'Hasty Generalization', description: 'Drawing a broad conclusion from too few or unrepresentative cases' },
+  { type: 'false-cause', name: 'False Cause', description: 'Assuming that because one thing followed another, it was caused by it' },
+  { type: 'appeal-to-emotion', name: 'Appeal to Emotion', description: 'Using feelings in place of reasons' },
+  { type: 'appeal-to-authority', name: 'Appeal to Authority', description: 'Relying on who said something rather than on evidence, or citing an irrelevant authority' },
+  { type: 'bandwagon', name: 'Bandwagon', description: 'Arguing something is right because many people believe or do it' },
+  { type: 'red-herring', name: 'Red Herring', description: 'Changing the subject to avoid the point under discussion' },
+  { type: 'tu-quoque', name: 'Tu Quoque', description: 'Deflecting criticism by pointing out the opponent does the same' },
+  { type: 'circular-reasoning', name: 'Circular Reasoning', description: 'Using the conclusion as one of the premises' },
+  { type: 'other', name: 'Other Fallacy', description: 'A reasoning error not covered above' },
+];
+
+const FALLACY_BY_TYPE = new Map(FALLACIES.map(fallacy => [fallacy.type, fallacy]));
+
+export const FALLACY_TYPES = FALLACIES.map(fallacy => fallacy.type);
+
+export function getFallacy(type: FallacyType): FallacyDefinition {
+  return FALLACY_BY_TYPE.get(type) ?? FALLACIES[FALLACIES.length - 1]!;
+}
+
+export function isFallacyType(value: unknown): value is FallacyType {
+  return typeof value === 'string' && FALLACY_BY_TYPE.has(value as FallacyType);
+}
+
+/**
+ * Catalog lines for the analysis prompt, e.g. "- strawman: Attacking a distorted..."
+ */
+export function buildFallacyGuide(): string {
+  return FALLACIES.map(fallacy => `- ${fallacy.type}: ${fallacy.description}`).join('\n');
+}
+
+export interface TextSegment {
+  text: string;
+  fallacy?: DetectedFallacy;
+}
+
+/**
+ * Splits turn text so each fallacy's quoted span can be highlighted.
+ * Quotes are matched case-insensitively; quotes that can't be found or that overlap
+ * an earlier match are left out
+ */
+export function splitByFallacyQuotes(text: string, fallacies: DetectedFallacy[]): TextSegment[] {
+  const lower = text.toLowerCase();
+  const matches = fallacies
+    .map(fallacy => {
+      const quote = fallacy.quote.trim().replace(/^["'“”]+|["'“”.]+$/g, '').toLowerCase();
+      const start = quote ? lower.indexOf(quote) : -1;
+      return { fallacy, start, end: start + quote.length };
+    })
+    .filter(match => match.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: TextSegment[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue;
+    if (match.start > position) segments.push({ text: text.slice(position, match.start) });
+    segments.push({ text: text.slice(match.start, match.end), fallacy: match.fallacy });
+    position = match.end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position) });
+
+  return segments;
+}
@@ -0,0 +1,93 @@
+/**
+ * Motion framing and debate side helpers.
+ * Turns free-typed topics into formal motions ("This House would...") so both
+ * sides of the debate argue about the same, clearly worded proposition.
+ */
+
+import type { DebateSide } from '../types';
+
+export type SideChoice = DebateSide | 'random';
+
+export const SIDE_LABELS: Record<DebateSide, string> = {
+  pro: 'Pro',
+  con: 'Con',
+};
+
+// Verbs that make a topic read as a policy action ("ban homework", "should we abolish...")
+const POLICY_VERBS = [
+  'abolish', 'adopt', 'allow', 'ban', 'cap', 'censor', 'end', 'enforce', 'fund', 'grant',
+  'impose', 'introduce', 'invest', 'legalize', 'legalise', 'limit', 'lower', 'mandate', 'nationalize',
+  'nationalise', 'permit', 'prioritize', 'prioritise', 'privatize', 'privatise', 'prohibit', 'raise',
+  'regulate', 'remove', 'replace', 'require', 'restrict', 'subsidize', 'subsidise', 'tax',
+];
+
+const HOUSE_PREFIX = /^this house\b/i;
+const SHOULD_WE = /^should\s+(?:we|society|governments?|states?)\s+(.+)$/i;
+const SHOULD_SUBJECT = /^should\s+(.+)$/i;
+const QUESTION_START = /^(?:is|are|does|do|can|could|will|would|has|have)\s/i;
+const LINKING_VERBS = ['be', 'have', 'get', 'pay', 'stop', 'start', 'use'];
+
+/**
+ * Lowercases the first letter unless the first word is an acronym or "I"
+ */
+function lowerFirst(text: string): string {
+  const firstWord = text.split(/\s+/)[0] ?? '';
+  if (firstWord === 'I' || (firstWord.length > 1 && firstWord === firstWord.toUpperCase())) return text;
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function startsWithPolicyVerb(text: string): boolean {
+  const firstWord = text.split(/\s+/)[0]?.toLowerCase() ?? '';
+  return POLICY_VERBS.includes(firstWord);
+}
+
+/**
+ * Phrases a topic as a formal motion
+ * @example frameMotion('Should we ban homework?') // 'This House would ban homework'
+ * @example frameMotion('Social media does more harm than good') // 'This House believes that social media does more harm than good'
+ */
+export function frameMotion(topic: string): string {
+  const text = topic.trim().replace(/[?.!]+$/, '').trim();
+  if (!text) return '';
+  if (HOUSE_PREFIX.test(text)) return `This House${text.slice('this house'.length)}`;
+
+  const shouldWe = SHOULD_WE.exec(text);
+  if (shouldWe?.[1]) return `This House would ${shouldWe[1]}`;
+
+  const shouldSubject = SHOULD_SUBJECT.exec(text);
+  if (shouldSubject?.[1]) {
+    // "Should schools ban phones" -> subject "schools", predicate "ban phones"
+    const words = shouldSubject[1].split(/\s+/);
+    const verbIndex = words.findIndex(
+      (word, index) => index > 0 && (POLICY_VERBS.includes(word.toLowerCase()) || LINKING_VERBS.includes(word.toLowerCase()))
+    );
+    const split = verbIndex > 0 ? verbIndex : 1;
+    const subject = words.slice(0, split).join(' ');
+    const predicate = words.slice(split).join(' ');
+    return predicate
+      ? `This House believes that ${subject} should ${predicate}`
+      : `This House would ${lowerFirst(subject)}`;
+  }
+
+  if (startsWithPolicyVerb(text)) return `This House would ${lowerFirst(text)}`;
+
+  // Yes/no questions that can't be rephrased reliably are kept verbatim
+  if (QUESTION_START.test(text)) return `This House answers yes to "${text}?"`;
+
+  return `This House believes that ${lowerFirst(text)}`;
+}
+
+/**
+ * Resolves a Pro / Con / Random choice to a concrete side
+ */
+export function resolveSide(choice: SideChoice): DebateSide {
+  if (choice !== 'random') return choice;
+  return Math.random() < 0.5 ? 'pro' : 'con';
+}
+
+/**
+ * The side the AI argues
+ */
+export function getOpposingSide(side: DebateSide): DebateSide {
+  return side === 'pro' ? 'con' : 'pro';
+}
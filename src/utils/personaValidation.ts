@@ -1,9 +1,98 @@
 /**
  * Persona Validation Utilities
- * Validates session history data and archetype objects before processing
+ * Validates session history data, archetype objects and stored user data before processing
  */
 
-import type { SessionHistoryItem, PersonaArchetype, PersonaTrait } from '@/types';
+import type {
+  CriterionScore,
+  SessionHistoryItem,
+  PersonaArchetype,
+  PersonaTrait,
+  SessionTranscript,
+  SpeechMetrics,
+  TurnAnalysis,
+  UserPersona,
+  UserStats,
+} from '@/types';
+import { isFallacyType } from './fallacies';
+import {
+  CONFIDENCE_LEVELS,
+  EVIDENCE_QUALITIES,
+  PROFICIENCY_LEVELS,
+  RESPONSIVENESS_LEVELS,
+} from './analysisValidation';
+
+/**
+ * Checks that a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Validates one entry of a per-turn analysis
+ */
+function isTurnAnalysis(value: unknown): value is TurnAnalysis {
+  if (!value || typeof value !== 'object') return false;
+  const t = value as Partial<TurnAnalysis>;
+  return (
+    typeof t.turnIndex === 'number' &&
+    typeof t.claim === 'string' &&
+    t.evidenceQuality !== undefined &&
+    EVIDENCE_QUALITIES.includes(t.evidenceQuality) &&
+    typeof t.evidenceNote === 'string' &&
+    t.responsiveness !== undefined &&
+    RESPONSIVENESS_LEVELS.includes(t.responsiveness) &&
+    typeof t.responsivenessNote === 'string' &&
+    Array.isArray(t.fallacies) &&
+    t.fallacies.every(
+      (fallacy) =>
+        !!fallacy &&
+        isFallacyType(fallacy.type) &&
+        typeof fallacy.quote === 'string' &&
+        typeof fallacy.explanation === 'string'
+    )
+  );
+}
+
+/**
+ * Validates one rubric criterion score
+ */
+function isCriterionScore(value: unknown): value is CriterionScore {
+  if (!value || typeof value !== 'object') return false;
+  const c = value as Partial<CriterionScore>;
+  return (
+    typeof c.criterionId === 'string' &&
+    typeof c.name === 'string' &&
+    typeof c.weight === 'number' &&
+    typeof c.score === 'number' &&
+    c.score >= 0 &&
+    c.score <= 100
+  );
+}
+
+/**
+ * Validates locally computed speech metrics
+ */
+function isSpeechMetrics(value: unknown): value is SpeechMetrics {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Partial<SpeechMetrics>;
+  const isNumberOrNull = (field: unknown) => field === null || typeof field === 'number';
+  return (
+    typeof m.userWords === 'number' &&
+    typeof m.userSpeakingSeconds === 'number' &&
+    typeof m.modelSpeakingSeconds === 'number' &&
+    typeof m.fillerCount === 'number' &&
+    typeof m.interruptions === 'number' &&
+    isNumberOrNull(m.wordsPerMinute) &&
+    isNumberOrNull(m.fillersPer100Words) &&
+    isNumberOrNull(m.longestPauseSeconds) &&
+    isNumberOrNull(m.talkRatio) &&
+    isNumberOrNull(m.typeTokenRatio) &&
+    Array.isArray(m.topFillers) &&
+    m.topFillers.every((entry) => !!entry && typeof entry.filler === 'string' && typeof entry.count === 'number')
+  );
+}
 
 /**
  * Validates a single session history item
@@ -28,7 +117,8 @@ export function validateSessionHistoryItem(session: unknown): session is Session
     return false;
   }
 
-  if (typeof s.score !== 'number' || s.score < 0 || s.score > 100) {
+  // Sessions that were never analyzed have no score
+  if (s.score !== undefined && (typeof s.score !== 'number' || s.score < 0 || s.score > 100)) {
     return false;
   }
 
@@ -38,11 +128,11 @@ export function validateSessionHistoryItem(session: unknown): session is Session
 
   // Optional numeric fields should be numbers if present
   const numericFields = [
-    'confidenceLevel',
     'vocabularyScore',
     'clarityScore',
     'argumentStrength',
     'persuasionScore',
+    'strategicAdaptability',
   ] as const;
 
   for (const field of numericFields) {
@@ -51,6 +141,90 @@ export function validateSessionHistoryItem(session: unknown): session is Session
     }
   }
 
+  // Optional enum fields should hold a known level if present
+  if (s.confidenceLevel !== undefined && !CONFIDENCE_LEVELS.includes(s.confidenceLevel)) {
+    return false;
+  }
+
+  if (s.englishProficiency !== undefined && !PROFICIENCY_LEVELS.includes(s.englishProficiency)) {
+    return false;
+  }
+
+  if (s.analysisStatus !== undefined && s.analysisStatus !== 'pending' && s.analysisStatus !== 'failed') {
+    return false;
+  }
+
+  // Optional analysis text fields
+  const stringFields = ['archetype', 'wildcardInsight', 'emotionalState', 'transcriptId', 'recordingId', 'rubricId', 'rubricName', 'opponentId', 'opponentName', 'analysisError'] as const;
+
+  for (const field of stringFields) {
+    if (s[field] !== undefined && typeof s[field] !== 'string') {
+      return false;
+    }
+  }
+
+  const listFields = ['strengths', 'weaknesses', 'suggestions'] as const;
+
+  for (const field of listFields) {
+    if (s[field] !== undefined && !isStringArray(s[field])) {
+      return false;
+    }
+  }
+
+  if (s.turnAnalysis !== undefined && !(Array.isArray(s.turnAnalysis) && s.turnAnalysis.every(isTurnAnalysis))) {
+    return false;
+  }
+
+  if (s.criterionScores !== undefined && !(Array.isArray(s.criterionScores) && s.criterionScores.every(isCriterionScore))) {
+    return false;
+  }
+
+  if (s.speechMetrics !== undefined && !isSpeechMetrics(s.speechMetrics)) {
+    return false;
+  }
+
+  if (s.format !== undefined && typeof s.format !== 'string') {
+    return false;
+  }
+
+  if (s.input !== undefined && s.input !== 'voice' && s.input !== 'text') {
+    return false;
+  }
+
+  if (
+    s.pauses !== undefined &&
+    !(
+      Array.isArray(s.pauses) &&
+      s.pauses.every((pause) => !!pause && typeof pause.start === 'number' && typeof pause.end === 'number')
+    )
+  ) {
+    return false;
+  }
+
+  if (s.side !== undefined && s.side !== 'pro' && s.side !== 'con') {
+    return false;
+  }
+
+  if (s.motion !== undefined && typeof s.motion !== 'string') {
+    return false;
+  }
+
+  if (
+    s.phases !== undefined &&
+    !(
+      Array.isArray(s.phases) &&
+      s.phases.every(
+        (phase) =>
+          !!phase &&
+          typeof phase.phaseId === 'string' &&
+          typeof phase.name === 'string' &&
+          typeof phase.actualSeconds === 'number'
+      )
+    )
+  ) {
+    return false;
+  }
+
   return true;
 }
 
@@ -222,3 +396,85 @@ export function sanitizeSessionHistory(sessions: unknown): {
     warning: null,
   };
 }
+
+/**
+ * Validates a user statistics object
+ */
+export function validateUserStats(stats: unknown): stats is UserStats {
+  if (!stats || typeof stats !== 'object') {
+    return false;
+  }
+
+  const s = stats as Partial<UserStats>;
+
+  for (const field of ['totalSessions', 'totalMinutes', 'points'] as const) {
+    if (typeof s[field] !== 'number' || s[field]! < 0) {
+      return false;
+    }
+  }
+
+  return isStringArray(s.badges);
+}
+
+/**
+ * Validates a stored session transcript
+ */
+export function validateSessionTranscript(transcript: unknown): transcript is SessionTranscript {
+  if (!transcript || typeof transcript !== 'object') {
+    return false;
+  }
+
+  const t = transcript as Partial<SessionTranscript>;
+
+  if (!t.id || typeof t.id !== 'string') {
+    return false;
+  }
+
+  if (!t.sessionId || typeof t.sessionId !== 'string') {
+    return false;
+  }
+
+  if (typeof t.topic !== 'string' || typeof t.createdAt !== 'string') {
+    return false;
+  }
+
+  if (!Array.isArray(t.turns)) {
+    return false;
+  }
+
+  return t.turns.every(
+    (turn) =>
+      !!turn &&
+      typeof turn.index === 'number' &&
+      (turn.role === 'user' || turn.role === 'model') &&
+      typeof turn.startTime === 'number' &&
+      typeof turn.endTime === 'number' &&
+      Array.isArray(turn.messages) &&
+      turn.messages.every((m) => !!m && typeof m.text === 'string' && typeof m.timestamp === 'number')
+  );
+}
+
+/**
+ * Validates a stored user persona
+ */
+export function validateUserPersona(persona: unknown): persona is UserPersona {
+  if (!persona || typeof persona !== 'object') {
+    return false;
+  }
+
+  const p = persona as Partial<UserPersona>;
+
+  if (!validatePersonaArchetype(p.currentArchetype)) {
+    return false;
+  }
+
+  if (!Array.isArray(p.traits) || !p.traits.every(validatePersonaTrait)) {
+    return false;
+  }
+
+  if (!Array.isArray(p.evolution)) {
+    return false;
+  }
+
+  return typeof p.calculatedAt === 'number';
+}
@@ -0,0 +1,88 @@
+/**
+ * Replay utilities for lining a stored transcript up with a session recording.
+ * Transcripts only carry a timestamp per fragment, so word timings are estimated by
+ * spreading each fragment's words over the time until the next fragment.
+ */
+
+import type { TranscriptTurn } from '../types';
+
+// Upper bound on how long one word is assumed to take (~150 wpm),
+// so a turn's last fragment doesn't stretch over the silence after it
+const MAX_SECONDS_PER_WORD = 0.4;
+
+export interface ReplayWord {
+  text: string;
+  start: number; // seconds into the recording
+  end: number;
+}
+
+export interface ReplayTurn {
+  index: number;
+  role: TranscriptTurn['role'];
+  start: number; // seconds into the recording
+  end: number;
+  words: ReplayWord[];
+}
+
+/**
+ * Places every turn and word of a transcript on the recording timeline
+ * @param turns - Stored transcript turns
+ * @param startedAt - Epoch ms of the first recorded sample
+ * @param durationSeconds - Recording length
+ */
+export function buildReplayTimeline(
+  turns: TranscriptTurn[],
+  startedAt: number,
+  durationSeconds: number
+): ReplayTurn[] {
+  const toSeconds = (timestamp: number) =>
+    Math.min(durationSeconds, Math.max(0, (timestamp - startedAt) / 1000));
+
+  return turns.map((turn, turnIndex) => {
+    const start = toSeconds(turn.startTime);
+    const nextTurn = turns[turnIndex + 1];
+    const end = Math.max(start, nextTurn ? toSeconds(nextTurn.startTime) : durationSeconds);
+
+    // Messages assembled from deltas keep each delta's time; older ones only have their own
+    const pieces = turn.messages.flatMap(message => message.fragments ?? [{ text: message.text, timestamp: message.timestamp }]);
+
+    const words = pieces.flatMap((message, messageIndex) => {
+      const texts = message.text.trim().split(/\s+/).filter(Boolean);
+      if (texts.length === 0) return [];
+
+      const messageStart = Math.max(start, toSeconds(message.timestamp));
+      const nextMessage = pieces[messageIndex + 1];
+      const boundary = nextMessage ? Math.max(messageStart, toSeconds(nextMessage.timestamp)) : end;
+      const messageEnd = Math.min(boundary, messageStart + texts.length * MAX_SECONDS_PER_WORD);
+      const step = (messageEnd - messageStart) / texts.length;
+
+      return texts.map((text, wordIndex) => ({
+        text,
+        start: messageStart + step * wordIndex,
+        end: messageStart + step * (wordIndex + 1),
+      }));
+    });
+
+    return { index: turn.index, role: turn.role, start, end, words };
+  });
+}
+
+/**
+ * Index of the last item that has started at the given time, or -1 before the first one
+ */
+export function findActiveIndex(items: { start: number }[], time: number): number {
+  let active = -1;
+  for (let i = 0; i < items.length; i++) {
+    if ((items[i]?.start ?? Infinity) > time) break;
+    active = i;
+  }
+  return active;
+}
+
+/**
+ * Formats seconds as M:SS
+ */
+export function formatReplayTime(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+}
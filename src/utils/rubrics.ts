@@ -0,0 +1,262 @@
+/**
+ * Scoring rubrics.
+ * A rubric names the criteria a session is scored on, how much each one counts, what the
+ * score bands mean and how lenient the analysis should be. The overall score is the weighted
+ * average of the criterion scores, computed here rather than left to the analysis model.
+ */
+
+import type { CriterionScore, DebateAnalysis, Rubric, RubricLeniency, ScoreBand } from '../types';
+
+/**
+ * Skill scores every analysis reports, whatever the rubric - they feed the persona and statistics
+ */
+export type CoreMetricKey =
+  | 'vocabularyScore'
+  | 'clarityScore'
+  | 'argumentStrength'
+  | 'persuasionScore'
+  | 'strategicAdaptability';
+
+export const CORE_METRICS: { key: CoreMetricKey; name: string; description: string }[] = [
+  { key: 'vocabularyScore', name: 'Vocabulary', description: 'Range and precision of word choice' },
+  { key: 'clarityScore', name: 'Clarity', description: 'How clear and easy to follow the speech is' },
+  { key: 'argumentStrength', name: 'Argument Strength', description: 'Quality of reasoning and support for claims' },
+  { key: 'persuasionScore', name: 'Persuasion', description: 'How convincing the delivery is' },
+  { key: 'strategicAdaptability', name: 'Adaptability', description: "How well the user responds to the opponent's moves" },
+];
+
+export const LENIENCY_LEVELS: { value: RubricLeniency; label: string; instruction: string }[] = [
+  {
+    value: 'strict',
+    label: 'Strict',
+    instruction:
+      'Score strictly against the band descriptions. Participation and effort alone earn nothing; every point has to be earned by what the transcript shows. Scores in the top band should be rare.',
+  },
+  {
+    value: 'balanced',
+    label: 'Balanced',
+    instruction:
+      'Be fair and balanced. Recognize effort and engagement, but place each score in the band whose description matches what the user actually showed.',
+  },
+  {
+    value: 'generous',
+    label: 'Generous',
+    instruction:
+      'Be generous with scoring. Anyone who participates and engages in the debate should receive AT MINIMUM 40-50 overall and 40-60 per criterion; if the user is clearly trying to debate and responding to the AI, do not go below 35. Reserve low scores (below 40) ONLY for cases of no participation or completely incoherent responses. Recognize effort and engagement with appropriate scores.',
+  },
+];
+
+export const DEFAULT_RUBRIC_ID = 'standard';
+
+/**
+ * The scoring the app has always used: the five core skills, equally weighted
+ */
+export const STANDARD_RUBRIC: Rubric = {
+  id: DEFAULT_RUBRIC_ID,
+  name: 'Standard',
+  description: 'Balanced practice scoring across the five core debating skills.',
+  leniency: 'generous',
+  builtIn: true,
+  criteria: [
+    {
+      id: 'vocabularyScore',
+      name: 'Vocabulary',
+      description: '40-60 for basic conversation, 60-80 for good vocabulary, 80+ for advanced',
+      weight: 1,
+    },
+    {
+      id: 'clarityScore',
+      name: 'Clarity',
+      description: '50-70 for understandable speech, 70-85 for clear communication, 85+ for excellent',
+      weight: 1,
+    },
+    {
+      id: 'argumentStrength',
+      name: 'Argument Strength',
+      description: '45-65 for basic arguments, 65-80 for solid reasoning, 80+ for exceptional',
+      weight: 1,
+    },
+    {
+      id: 'persuasionScore',
+      name: 'Persuasion',
+      description: '45-65 for engaged participation, 65-80 for convincing delivery, 80+ for compelling',
+      weight: 1,
+    },
+    {
+      id: 'strategicAdaptability',
+      name: 'Adaptability',
+      description: '45-65 for responsive dialogue, 65-80 for good adaptation, 80+ for excellent',
+      weight: 1,
+    },
+  ],
+  bands: [
+    { min: 0, max: 20, label: 'Minimal', description: 'Minimal participation or completely off-topic' },
+    { min: 21, max: 40, label: 'Basic', description: 'Basic participation but needs significant improvement' },
+    { min: 41, max: 60, label: 'Developing', description: 'Decent effort with clear room for growth' },
+    { min: 61, max: 80, label: 'Good', description: 'Good performance with strong arguments and clarity' },
+    { min: 81, max: 100, label: 'Excellent', description: 'Excellent debating skills, persuasive and articulate' },
+  ],
+};
+
+/**
+ * Competition-style judging, weighted towards content and rebuttal
+ */
+export const TOURNAMENT_RUBRIC: Rubric = {
+  id: 'tournament',
+  name: 'Tournament Judge',
+  description: 'Strict competition judging on matter, rebuttal, manner and method.',
+  leniency: 'strict',
+  builtIn: true,
+  criteria: [
+    {
+      id: 'matter',
+      name: 'Matter',
+      description: 'Relevance, depth and logic of the arguments, and the evidence given for each claim',
+      weight: 40,
+    },
+    {
+      id: 'rebuttal',
+      name: 'Rebuttal',
+      description: "Direct engagement with the opponent's strongest points rather than their weakest",
+      weight: 30,
+    },
+    {
+      id: 'manner',
+      name: 'Manner',
+      description: 'Delivery: fluency, confidence, word choice and persuasive language',
+      weight: 20,
+    },
+    {
+      id: 'method',
+      name: 'Method',
+      description: 'Structure: signposting, a consistent case line and good use of the time',
+      weight: 10,
+    },
+  ],
+  bands: [
+    { min: 0, max: 39, label: 'Below Standard', description: 'Would not be competitive in a tournament round' },
+    { min: 40, max: 54, label: 'Developing', description: 'Some sound material but major gaps in analysis or response' },
+    { min: 55, max: 69, label: 'Competitive', description: 'A solid speech that holds its own in an average round' },
+    { min: 70, max: 84, label: 'Strong', description: 'Well-developed, well-defended case that would win most rounds' },
+    { min: 85, max: 100, label: 'Outstanding', description: 'Final-round quality in every respect' },
+  ],
+};
+
+export const BUILT_IN_RUBRICS: Rubric[] = [STANDARD_RUBRIC, TOURNAMENT_RUBRIC];
+
+/**
+ * Analysis as returned by the model: the core skills, plus a score per rubric
+ * criterion that isn't one of them. The overall score is added by scoreAnalysis
+ */
+export type RubricAnalysisResponse = Omit<DebateAnalysis, 'score' | 'rubricId' | 'rubricName' | 'criterionScores'> & {
+  criterionScores?: Partial<Record<string, number>>;
+};
+
+export function isCoreMetric(id: string): id is CoreMetricKey {
+  return CORE_METRICS.some(metric => metric.key === id);
+}
+
+/**
+ * Criteria the model has to score separately because they aren't core skills
+ */
+export function getExtraCriteria(rubric: Rubric) {
+  return rubric.criteria.filter(criterion => !isCoreMetric(criterion.id));
+}
+
+/**
+ * The band a score falls in, if the rubric defines one for it
+ */
+export function getScoreBand(bands: ScoreBand[], score: number): ScoreBand | undefined {
+  return bands.find(band => score >= band.min && score <= band.max);
+}
+
+/**
+ * Prompt section describing how to score with this rubric
+ */
+export function buildRubricGuide(rubric: Rubric): string {
+  const criteria = rubric.criteria
+    .map(criterion => `- **${criterion.name}** (key "${criterion.id}", weight ${criterion.weight}): ${criterion.description}`)
+    .join('\n');
+  const bands = rubric.bands
+    .map(band => `- ${band.min}-${band.max} ${band.label}: ${band.description}`)
+    .join('\n');
+  const coreOnly = CORE_METRICS.filter(metric => !rubric.criteria.some(criterion => criterion.id === metric.key));
+  const leniency = LENIENCY_LEVELS.find(level => level.value === rubric.leniency) ?? LENIENCY_LEVELS[1]!;
+
+  return `RUBRIC: ${rubric.name}${rubric.description ? ` - ${rubric.description}` : ''}
+
+SCORE BANDS (apply to every score):
+${bands}
+
+CRITERIA: Score each of these 0-100. Criteria whose key is a field of the response go in that field; all others go in criterionScores under their key.
+${criteria}
+${coreOnly.length > 0 ? `
+CORE SKILLS: Also rate these 0-100 in their own fields, even though this rubric doesn't weigh them:
+${coreOnly.map(metric => `- **${metric.name}** ("${metric.key}"): ${metric.description}`).join('\n')}
+` : ''}
+LENIENCY: ${leniency.instruction}`;
+}
+
+/**
+ * responseSchema for the criteria that aren't core skills, or null when there are none
+ */
+export function buildCriterionScoresSchema(rubric: Rubric) {
+  const extra = getExtraCriteria(rubric);
+  if (extra.length === 0) return null;
+
+  return {
+    type: 'object',
+    description: 'Score 0-100 for each rubric criterion, by key',
+    properties: Object.fromEntries(
+      extra.map(criterion => [criterion.id, { type: 'number', description: `${criterion.name}, 0-100` }])
+    ),
+    required: extra.map(criterion => criterion.id),
+  };
+}
+
+/**
+ * Turns the model's response into a DebateAnalysis scored with the rubric:
+ * criterion scores are collected and the overall score is their weighted average
+ */
+export function scoreAnalysis(rubric: Rubric, response: RubricAnalysisResponse): DebateAnalysis {
+  const { criterionScores: extraScores, ...analysis } = response;
+
+  const criterionScores: CriterionScore[] = rubric.criteria.map(criterion => {
+    const raw = isCoreMetric(criterion.id) ? analysis[criterion.id] : extraScores?.[criterion.id];
+    return {
+      criterionId: criterion.id,
+      name: criterion.name,
+      weight: criterion.weight,
+      score: clampScore(raw ?? 0),
+    };
+  });
+
+  const totalWeight = criterionScores.reduce((sum, entry) => sum + entry.weight, 0);
+  const score = totalWeight > 0
+    ? criterionScores.reduce((sum, entry) => sum + entry.score * entry.weight, 0) / totalWeight
+    : 0;
+
+  return {
+    ...analysis,
+    score: clampScore(score),
+    rubricId: rubric.id,
+    rubricName: rubric.name,
+    criterionScores,
+  };
+}
+
+/**
+ * New criterion key derived from its name, unique within the rubric
+ */
+export function createCriterionId(name: string, takenIds: string[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'criterion';
+  let id = base;
+  for (let n = 2; takenIds.includes(id); n++) {
+    id = `${base}_${n}`;
+  }
+  return id;
+}
+
+function clampScore(value: number): number {
+  return Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : 0;
+}
@@ -0,0 +1,151 @@
+/**
+ * Session recording for replay.
+ * The microphone and the AI's voice are mixed in the output audio context and encoded with
+ * MediaRecorder as the session runs, so a long debate is held as compressed chunks (about
+ * 0.25 MB a minute) rather than as raw PCM. The recording runs on the wall clock from start(),
+ * which is what replay lines the transcript timestamps up against.
+ */
+
+import type { RecordedAudio } from '../types';
+
+// In order of preference; Safari only records MP4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const RECORDING_BITS_PER_SECOND = 32000;
+
+// How often the encoder hands over what it has so far
+const RECORDING_TIMESLICE_MS = 1000;
+
+/**
+ * The first recording format the browser supports, or null when it can't record
+ */
+function getRecordingMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export class SessionRecorder {
+  private mediaRecorder: MediaRecorder | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private output: AudioNode | null = null;
+  private microphone: MediaStreamAudioSourceNode | null = null;
+  private microphoneGain: GainNode | null = null;
+  private chunks: Blob[] = [];
+  private startedAt: number | null = null;
+
+  /**
+   * Starts a new recording, dropping anything recorded before
+   * @param context - Context the AI's voice plays in; the microphone is mixed in there too
+   * @param output - Node carrying the AI's voice as it is heard
+   * @param microphone - The user's microphone; typed debates have none
+   */
+  start(context: AudioContext, output: AudioNode, microphone: MediaStream | null = null) {
+    this.reset();
+
+    const mimeType = getRecordingMimeType();
+    if (!mimeType) {
+      console.warn('🎙️ Recording not supported in this browser - the session will have no replay');
+      return;
+    }
+
+    this.destination = context.createMediaStreamDestination();
+    this.output = output;
+    output.connect(this.destination);
+
+    if (microphone) {
+      try {
+        this.microphone = context.createMediaStreamSource(microphone);
+        this.microphoneGain = context.createGain();
+        this.microphone.connect(this.microphoneGain);
+        this.microphoneGain.connect(this.destination);
+      } catch (e) {
+        // Some browsers can't feed a microphone into a context running at another sample rate
+        console.warn('🎙️ Could not add the microphone to the recording, recording the AI only', e);
+        this.microphone = null;
+        this.microphoneGain = null;
+      }
+    }
+
+    const recorder = new MediaRecorder(this.destination.stream, {
+      mimeType,
+      audioBitsPerSecond: RECORDING_BITS_PER_SECOND,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start(RECORDING_TIMESLICE_MS);
+    this.mediaRecorder = recorder;
+    this.chunks = chunks;
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Keeps the microphone out of the recording, e.g. while the debate is paused.
+   * The recording carries on as silence so it stays in step with the clock
+   */
+  setMicrophoneMuted(muted: boolean) {
+    if (this.microphoneGain) this.microphoneGain.gain.value = muted ? 0 : 1;
+  }
+
+  /**
+   * Ends the recording once the encoder has handed over its last chunk
+   * @returns The mixed audio, or null if nothing was recorded
+   */
+  async finish(): Promise<RecordedAudio | null> {
+    const recorder = this.mediaRecorder;
+    const startedAt = this.startedAt;
+    if (!recorder || startedAt === null) {
+      this.reset();
+      return null;
+    }
+
+    // Taken over here, so a second call while the encoder finishes gets nothing
+    const chunks = this.chunks;
+    this.mediaRecorder = null;
+    this.reset();
+
+    const durationSeconds = (Date.now() - startedAt) / 1000;
+    if (recorder.state !== 'inactive') {
+      const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve(), { once: true }));
+      recorder.stop();
+      await stopped;
+    }
+
+    const mimeType = recorder.mimeType || chunks[0]?.type || 'audio/webm';
+    if (chunks.length === 0) return null;
+
+    return {
+      startedAt,
+      durationSeconds,
+      mimeType,
+      audio: new Blob(chunks, { type: mimeType }),
+    };
+  }
+
+  /**
+   * Stops recording without keeping anything and detaches from the audio graph
+   */
+  reset() {
+    if (this.mediaRecorder) {
+      this.mediaRecorder.ondataavailable = null;
+      if (this.mediaRecorder.state !== 'inactive') this.mediaRecorder.stop();
+      this.mediaRecorder = null;
+    }
+
+    try {
+      if (this.output && this.destination) this.output.disconnect(this.destination);
+      this.microphone?.disconnect();
+      this.microphoneGain?.disconnect();
+    } catch {
+      // Already disconnected, e.g. the context was closed
+    }
+    this.destination = null;
+    this.output = null;
+    this.microphone = null;
+    this.microphoneGain = null;
+
+    this.chunks = [];
+    this.startedAt = null;
+  }
+}
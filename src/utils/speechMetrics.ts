@@ -0,0 +1,188 @@
+/**
+ * Local speech metrics.
+ * Deterministic delivery measures computed from the transcript and from when each side
+ * was actually speaking, so they don't depend on the analysis model's judgement.
+ */
+
+import type { ChatMessage, SessionPause, SpeechActivityLog, SpeechInterval, SpeechMetrics } from '../types';
+
+// Filler words and phrases, matched on whole words
+const FILLERS = [
+  'um', 'uh', 'er', 'erm', 'ah', 'hmm', 'like', 'you know', 'i mean',
+  'sort of', 'kind of', 'basically', 'literally', 'actually',
+];
+
+// "like" after these is a verb ("I like", "would like"), not a filler
+const LIKE_VERB_PRECEDERS = ['i', 'you', 'we', 'they', 'would', "don't", "didn't", 'really'];
+
+// Model audio chunks closer than this are treated as one continuous stretch of speech
+const MODEL_MERGE_GAP_MS = 250;
+
+// Silences longer than this are a change of turn, not a pause within one
+const MAX_PAUSE_MS = 15000;
+
+// Below this much speech the speaking rate isn't meaningful
+const MIN_SPEAKING_SECONDS_FOR_RATE = 5;
+
+/**
+ * Records when the user and the AI are speaking during a live session
+ */
+export class SpeechActivityTracker {
+  private user: SpeechInterval[] = [];
+  private model: SpeechInterval[] = [];
+  private userSpeaking: boolean = false;
+
+  userStarted(at: number = Date.now()) {
+    if (this.userSpeaking) return;
+    this.user.push({ start: at, end: at });
+    this.userSpeaking = true;
+  }
+
+  userStopped(at: number = Date.now()) {
+    const last = this.user[this.user.length - 1];
+    if (!this.userSpeaking || !last) return;
+    last.end = at;
+    this.userSpeaking = false;
+  }
+
+  /**
+   * Notes model audio scheduled to play between start and end
+   */
+  modelScheduled(start: number, end: number) {
+    const last = this.model[this.model.length - 1];
+    if (last && start <= last.end + MODEL_MERGE_GAP_MS) {
+      last.end = Math.max(last.end, end);
+    } else {
+      this.model.push({ start, end });
+    }
+  }
+
+  /**
+   * Drops model audio that was scheduled but cut off, e.g. by an interruption
+   */
+  modelStopped(at: number = Date.now()) {
+    this.model = this.model
+      .filter(interval => interval.start < at)
+      .map(interval => (interval.end > at ? { ...interval, end: at } : interval));
+  }
+
+  /**
+   * Speech so far; an open user turn and still-scheduled model audio end at `now`
+   */
+  snapshot(now: number = Date.now()): SpeechActivityLog {
+    return {
+      user: this.user.map((interval, index) =>
+        this.userSpeaking && index === this.user.length - 1 ? { ...interval, end: now } : { ...interval }
+      ),
+      model: this.model
+        .filter(interval => interval.start < now)
+        .map(interval => ({ start: interval.start, end: Math.min(interval.end, now) })),
+    };
+  }
+
+  reset() {
+    this.user = [];
+    this.model = [];
+    this.userSpeaking = false;
+  }
+}
+
+/**
+ * Lowercased words with punctuation removed (apostrophes kept)
+ */
+export function tokenizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Counts filler words and phrases in a list of words
+ * @returns Counts per filler, most frequent first, without fillers that never occurred
+ */
+export function countFillers(words: string[]): { filler: string; count: number }[] {
+  const counts = FILLERS.map(filler => {
+    const parts = filler.split(' ');
+    let count = 0;
+    for (let i = 0; i + parts.length <= words.length; i++) {
+      if (!parts.every((part, offset) => words[i + offset] === part)) continue;
+      if (filler === 'like' && LIKE_VERB_PRECEDERS.includes(words[i - 1] ?? '')) continue;
+      count++;
+    }
+    return { filler, count };
+  });
+
+  return counts.filter(entry => entry.count > 0).sort((a, b) => b.count - a.count);
+}
+
+function totalSeconds(intervals: SpeechInterval[]): number {
+  return intervals.reduce((sum, interval) => sum + Math.max(0, interval.end - interval.start), 0) / 1000;
+}
+
+/**
+ * Longest silence between two stretches of user speech with no AI speech in between.
+ * Silences that span a pause of the whole debate or a reconnect aren't the user's hesitation and are skipped
+ */
+function findLongestPause(user: SpeechInterval[], model: SpeechInterval[], pauses: SessionPause[]): number | null {
+  const sorted = [...user].sort((a, b) => a.start - b.start);
+  let longest: number | null = null;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const gapStart = sorted[i - 1]!.end;
+    const gapEnd = sorted[i]!.start;
+    const gap = gapEnd - gapStart;
+    if (gap <= 0 || gap > MAX_PAUSE_MS) continue;
+    if (model.some(interval => interval.start < gapEnd && interval.end > gapStart)) continue;
+    if (pauses.some(pause => pause.start < gapEnd && pause.end > gapStart)) continue;
+    longest = Math.max(longest ?? 0, gap);
+  }
+
+  return longest === null ? null : Math.round(longest / 100) / 10;
+}
+
+/**
+ * Computes the session's speech metrics
+ * @param messages - Transcript messages as received
+ * @param activity - When each side was speaking
+ * @param pauses - When the debate was paused or reconnecting
+ */
+export function computeSpeechMetrics(
+  messages: ChatMessage[],
+  activity: SpeechActivityLog,
+  pauses: SessionPause[] = []
+): SpeechMetrics {
+  const words = messages
+    .filter(message => message.role === 'user')
+    .flatMap(message => tokenizeWords(message.text));
+  const fillers = countFillers(words);
+  const fillerCount = fillers.reduce((sum, entry) => sum + entry.count, 0);
+
+  const userSpeakingSeconds = totalSeconds(activity.user);
+  const modelSpeakingSeconds = totalSeconds(activity.model);
+  const talkSeconds = userSpeakingSeconds + modelSpeakingSeconds;
+
+  const interruptions = activity.user.filter(turn =>
+    activity.model.some(interval => interval.start < turn.start && turn.start < interval.end)
+  ).length;
+
+  const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+  return {
+    userWords: words.length,
+    userSpeakingSeconds: Math.round(userSpeakingSeconds),
+    modelSpeakingSeconds: Math.round(modelSpeakingSeconds),
+    wordsPerMinute:
+      userSpeakingSeconds >= MIN_SPEAKING_SECONDS_FOR_RATE
+        ? Math.round(words.length / (userSpeakingSeconds / 60))
+        : null,
+    fillerCount,
+    fillersPer100Words: words.length > 0 ? round((fillerCount / words.length) * 100, 1) : null,
+    topFillers: fillers.slice(0, 3),
+    longestPauseSeconds: findLongestPause(activity.user, activity.model, pauses),
+    talkRatio: talkSeconds > 0 ? round(userSpeakingSeconds / talkSeconds, 2) : null,
+    interruptions,
+    typeTokenRatio: words.length > 0 ? round(new Set(words).size / words.length, 2) : null,
+  };
+}
@@ -3,7 +3,17 @@
  * Requirements: 5.1, 5.2, 5.3, 5.4
  */
 
-import { SessionHistoryItem } from '../types';
+import { DebateSide, FallacyType, SessionHistoryItem, SessionPause } from '../types';
+
+/**
+ * A session with an overall score. Sessions that were never analyzed, or whose analysis
+ * failed, have none and are left out of every score statistic rather than counted as 0
+ */
+export type ScoredSession = SessionHistoryItem & { score: number };
+
+export function isScored(session: SessionHistoryItem): session is ScoredSession {
+  return typeof session.score === 'number';
+}
 
 /**
  * Calculate total number of sessions
@@ -27,18 +37,47 @@ export function calculateTotalPracticeTime(sessions: SessionHistoryItem[]): numb
 }
 
 /**
- * Calculate average score across all sessions
+ * Calculate how long a session was paused, or otherwise not running
+ * Overlapping spans (e.g. a pause during a reconnect) are only counted once
+ * @param pauses - The session's recorded pauses
+ * @returns Paused time in whole seconds
+ */
+export function calculatePausedSeconds(pauses: SessionPause[] = []): number {
+  const sorted = [...pauses].sort((a, b) => a.start - b.start);
+  let totalMs = 0;
+  let coveredUntil = -Infinity;
+  for (const pause of sorted) {
+    const start = Math.max(pause.start, coveredUntil);
+    if (pause.end > start) {
+      totalMs += pause.end - start;
+      coveredUntil = pause.end;
+    }
+  }
+  return Math.floor(totalMs / 1000);
+}
+
+/**
+ * Calculate average score across the scored sessions
  * Requirement 5.3
  * @param sessions - Array of session history items
- * @returns Average score (0-100), or 0 if no sessions
+ * @returns Average score (0-100), or null if no session has a score
  */
-export function calculateAverageScore(sessions: SessionHistoryItem[]): number {
-  if (sessions.length === 0) {
-    return 0;
+export function calculateAverageScore(sessions: SessionHistoryItem[]): number | null {
+  const scored = sessions.filter(isScored);
+  if (scored.length === 0) {
+    return null;
   }
-  
-  const totalScore = sessions.reduce((sum, session) => sum + session.score, 0);
-  return Math.round(totalScore / sessions.length);
+
+  const totalScore = scored.reduce((sum, session) => sum + session.score, 0);
+  return Math.round(totalScore / scored.length);
+}
+
+/**
+ * Count the sessions without a score, so views can say what their averages leave out
+ * @param sessions - Array of session history items
+ */
+export function calculateUnscoredSessions(sessions: SessionHistoryItem[]): number {
+  return sessions.filter(session => !isScored(session)).length;
 }
 
 /**
@@ -126,18 +165,19 @@ export function calculateCurrentStreak(sessions: SessionHistoryItem[]): number {
  * 
  * Returns the top 3 sessions with the highest scores.
  * Ties are broken by prioritizing more recent sessions (later dates first).
- * If fewer than 3 sessions exist, returns all available sessions.
+ * If fewer than 3 scored sessions exist, returns all of them; unscored sessions never rank.
  * 
  * @param sessions - Array of session history items
  * @returns Array of top 3 (or fewer) sessions sorted by score descending, then date descending
  */
-export function getTopPerformers(sessions: SessionHistoryItem[]): SessionHistoryItem[] {
-  if (sessions.length === 0) {
+export function getTopPerformers(sessions: SessionHistoryItem[]): ScoredSession[] {
+  const scored = sessions.filter(isScored);
+  if (scored.length === 0) {
     return [];
   }
 
   // Sort by score descending, then by date descending for tie-breaking
-  const sorted = [...sessions].sort((a, b) => {
+  const sorted = scored.sort((a, b) => {
     // First compare by score (higher is better)
     if (b.score !== a.score) {
       return b.score - a.score;
@@ -149,3 +189,131 @@ export function getTopPerformers(sessions: SessionHistoryItem[]): SessionHistory
   // Return top 3 or fewer
   return sorted.slice(0, 3);
 }
+
+/**
+ * Performance summary for the sessions argued on one side of the motion
+ */
+export interface SideBreakdown {
+  side: DebateSide;
+  sessions: number;
+  averageScore: number | null; // null when no session on this side has been scored
+  averageArgumentStrength: number | null; // null when no session on this side has the metric
+  averagePersuasion: number | null;
+}
+
+function averageOf(values: (number | undefined)[]): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  if (present.length === 0) {
+    return null;
+  }
+  return Math.round(present.reduce((sum, value) => sum + value, 0) / present.length);
+}
+
+/**
+ * Break performance down by the side the user argued
+ * Sessions saved before sides were recorded are left out
+ *
+ * @param sessions - Array of session history items
+ * @returns One entry per side, Pro first, including sides with no sessions
+ */
+export function calculateSideBreakdown(sessions: SessionHistoryItem[]): SideBreakdown[] {
+  const sides: DebateSide[] = ['pro', 'con'];
+  return sides.map((side) => {
+    const sideSessions = sessions.filter((session) => session.side === side);
+    return {
+      side,
+      sessions: sideSessions.length,
+      averageScore: calculateAverageScore(sideSessions),
+      averageArgumentStrength: averageOf(sideSessions.map((session) => session.argumentStrength)),
+      averagePersuasion: averageOf(sideSessions.map((session) => session.persuasionScore)),
+    };
+  });
+}
+
+export interface OpponentBreakdown {
+  opponentId: string;
+  name: string; // name at the time of the most recent session, so deleted opponents still show
+  sessions: number;
+  averageScore: number | null; // null when no session against this opponent has been scored
+  averageArgumentStrength: number | null;
+  averagePersuasion: number | null;
+}
+
+/**
+ * Break performance down by the AI opponent persona debated against
+ * Sessions saved before opponents were recorded are left out
+ *
+ * @param sessions - Array of session history items, newest first
+ * @returns One entry per opponent faced, most-debated first
+ */
+export function calculateOpponentBreakdown(sessions: SessionHistoryItem[]): OpponentBreakdown[] {
+  const grouped = new Map<string, SessionHistoryItem[]>();
+  for (const session of sessions) {
+    if (!session.opponentId) continue;
+    const group = grouped.get(session.opponentId) ?? [];
+    group.push(session);
+    grouped.set(session.opponentId, group);
+  }
+
+  return Array.from(grouped, ([opponentId, opponentSessions]) => ({
+    opponentId,
+    name: opponentSessions.find((session) => session.opponentName)?.opponentName ?? opponentId,
+    sessions: opponentSessions.length,
+    averageScore: calculateAverageScore(opponentSessions),
+    averageArgumentStrength: averageOf(opponentSessions.map((session) => session.argumentStrength)),
+    averagePersuasion: averageOf(opponentSessions.map((session) => session.persuasionScore)),
+  })).sort((a, b) => b.sessions - a.sessions);
+}
+
+/**
+ * How often one fallacy type shows up across analyzed sessions
+ */
+export interface FallacyCount {
+  type: FallacyType;
+  total: number;
+  sessions: number; // sessions with at least one occurrence
+  recent: number[]; // occurrences per session, oldest to newest, for the most recent analyzed sessions
+}
+
+export interface FallacyStats {
+  analyzedSessions: number; // sessions that have a per-turn analysis
+  counts: FallacyCount[]; // most frequent first; types that never occurred are left out
+}
+
+/**
+ * Aggregate the fallacies tagged in the user's turns
+ * Only sessions with a per-turn analysis count, so older sessions don't read as fallacy-free
+ *
+ * @param sessions - Array of session history items
+ * @param recentCount - How many of the latest analyzed sessions to include in `recent`
+ */
+export function calculateFallacyStats(sessions: SessionHistoryItem[], recentCount: number = 10): FallacyStats {
+  const analyzed = sessions
+    .filter((session) => Array.isArray(session.turnAnalysis))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const recentSessions = analyzed.slice(-recentCount);
+
+  const countIn = (session: SessionHistoryItem, type: FallacyType) =>
+    (session.turnAnalysis ?? []).reduce(
+      (sum, turn) => sum + turn.fallacies.filter((fallacy) => fallacy.type === type).length,
+      0
+    );
+
+  const types = new Set<FallacyType>(
+    analyzed.flatMap((session) => (session.turnAnalysis ?? []).flatMap((turn) => turn.fallacies.map((f) => f.type)))
+  );
+
+  const counts = [...types]
+    .map((type) => {
+      const perSession = analyzed.map((session) => countIn(session, type));
+      return {
+        type,
+        total: perSession.reduce((sum, count) => sum + count, 0),
+        sessions: perSession.filter((count) => count > 0).length,
+        recent: recentSessions.map((session) => countIn(session, type)),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  return { analyzedSessions: analyzed.length, counts };
+}
@@ -0,0 +1,150 @@
+/**
+ * Built-in topic library.
+ * Motions grouped by category and difficulty, plus the helpers the Dashboard uses to
+ * search them and to steer clear of topics the user has already debated.
+ */
+
+import type { LibraryTopic, SessionHistoryItem, TopicCategory, TopicDifficulty } from '../types';
+import { frameMotion } from './motionUtils';
+
+export const TOPIC_CATEGORIES: { value: TopicCategory; label: string }[] = [
+  { value: 'politics', label: 'Politics' },
+  { value: 'technology', label: 'Technology' },
+  { value: 'ethics', label: 'Ethics' },
+  { value: 'education', label: 'Education' },
+  { value: 'environment', label: 'Environment' },
+  { value: 'economics', label: 'Economics' },
+  { value: 'society', label: 'Society' },
+  { value: 'health', label: 'Health' },
+];
+
+export const TOPIC_DIFFICULTIES: { value: TopicDifficulty; label: string; description: string }[] = [
+  { value: 'beginner', label: 'Beginner', description: 'Everyday topics you can argue from experience' },
+  { value: 'intermediate', label: 'Intermediate', description: 'Policy questions that reward some background knowledge' },
+  { value: 'advanced', label: 'Advanced', description: 'Abstract or technical motions with strong cases on both sides' },
+];
+
+export const TOPIC_LIBRARY: LibraryTopic[] = [
+  // Politics
+  { id: 'pol-voting-age', topic: 'Should the voting age be lowered to 16?', category: 'politics', difficulty: 'beginner' },
+  { id: 'pol-compulsory-voting', topic: 'Should voting be compulsory?', category: 'politics', difficulty: 'beginner' },
+  { id: 'pol-term-limits', topic: 'Should members of parliament face term limits?', category: 'politics', difficulty: 'intermediate' },
+  { id: 'pol-referendums', topic: 'Major constitutional changes should require a referendum', category: 'politics', difficulty: 'intermediate' },
+  { id: 'pol-lobbying', topic: 'Ban corporate lobbying of elected officials', category: 'politics', difficulty: 'advanced' },
+  { id: 'pol-sortition', topic: 'Citizens assemblies chosen by lot should replace the upper house', category: 'politics', difficulty: 'advanced' },
+
+  // Technology
+  { id: 'tech-phones-schools', topic: 'Should schools ban smartphones?', category: 'technology', difficulty: 'beginner' },
+  { id: 'tech-social-media-age', topic: 'Social media should be banned for under-16s', category: 'technology', difficulty: 'beginner' },
+  { id: 'tech-ai-art', topic: 'AI-generated art should be eligible for copyright', category: 'technology', difficulty: 'intermediate' },
+  { id: 'tech-right-to-repair', topic: 'Require manufacturers to support the right to repair', category: 'technology', difficulty: 'intermediate' },
+  { id: 'tech-platform-liability', topic: 'Social media platforms should be legally liable for misinformation they host', category: 'technology', difficulty: 'advanced' },
+  { id: 'tech-ai-pause', topic: 'Should governments pause the development of frontier AI models?', category: 'technology', difficulty: 'advanced' },
+
+  // Ethics
+  { id: 'eth-zoos', topic: 'Zoos do more harm than good', category: 'ethics', difficulty: 'beginner' },
+  { id: 'eth-white-lies', topic: 'White lies are morally acceptable', category: 'ethics', difficulty: 'beginner' },
+  { id: 'eth-animal-testing', topic: 'Ban animal testing for medical research', category: 'ethics', difficulty: 'intermediate' },
+  { id: 'eth-organ-opt-out', topic: 'Organ donation should be opt-out', category: 'ethics', difficulty: 'intermediate' },
+  { id: 'eth-gene-editing', topic: 'Parents should be allowed to edit the genes of their embryos', category: 'ethics', difficulty: 'advanced' },
+  { id: 'eth-effective-altruism', topic: 'Individuals have a moral duty to give away income they do not need', category: 'ethics', difficulty: 'advanced' },
+
+  // Education
+  { id: 'edu-homework', topic: 'Should we ban homework?', category: 'education', difficulty: 'beginner' },
+  { id: 'edu-uniforms', topic: 'School uniforms should be mandatory', category: 'education', difficulty: 'beginner' },
+  { id: 'edu-four-day-week', topic: 'Schools should move to a four-day week', category: 'education', difficulty: 'intermediate' },
+  { id: 'edu-free-university', topic: 'University education should be free', category: 'education', difficulty: 'intermediate' },
+  { id: 'edu-standardized-tests', topic: 'Abolish standardized testing for university admissions', category: 'education', difficulty: 'advanced' },
+  { id: 'edu-legacy-admissions', topic: 'Ban legacy preferences in university admissions', category: 'education', difficulty: 'advanced' },
+
+  // Environment
+  { id: 'env-plastic-bags', topic: 'Ban single-use plastics', category: 'environment', difficulty: 'beginner' },
+  { id: 'env-meat-free', topic: 'School canteens should serve only vegetarian food', category: 'environment', difficulty: 'beginner' },
+  { id: 'env-nuclear', topic: 'Nuclear power is essential to fighting climate change', category: 'environment', difficulty: 'intermediate' },
+  { id: 'env-frequent-flyer', topic: 'Tax frequent flyers more heavily', category: 'environment', difficulty: 'intermediate' },
+  { id: 'env-geoengineering', topic: 'Should governments fund solar geoengineering research?', category: 'environment', difficulty: 'advanced' },
+  { id: 'env-degrowth', topic: 'Rich countries should pursue degrowth', category: 'environment', difficulty: 'advanced' },
+
+  // Economics
+  { id: 'eco-minimum-wage', topic: 'Raise the minimum wage to a living wage', category: 'economics', difficulty: 'beginner' },
+  { id: 'eco-tipping', topic: 'Tipping should be abolished', category: 'economics', difficulty: 'beginner' },
+  { id: 'eco-ubi', topic: 'Introduce a universal basic income', category: 'economics', difficulty: 'intermediate' },
+  { id: 'eco-wealth-tax', topic: 'Impose an annual wealth tax on billionaires', category: 'economics', difficulty: 'intermediate' },
+  { id: 'eco-cbdc', topic: 'Central banks should issue digital currencies', category: 'economics', difficulty: 'advanced' },
+  { id: 'eco-rent-control', topic: 'Rent control does more harm than good', category: 'economics', difficulty: 'advanced' },
+
+  // Society
+  { id: 'soc-four-day-work', topic: 'Should we adopt a four-day working week?', category: 'society', difficulty: 'beginner' },
+  { id: 'soc-remote-work', topic: 'Remote work is better than working in an office', category: 'society', difficulty: 'beginner' },
+  { id: 'soc-national-service', topic: 'Introduce mandatory national service for young adults', category: 'society', difficulty: 'intermediate' },
+  { id: 'soc-celebrity-role-models', topic: 'Celebrities have a responsibility to be role models', category: 'society', difficulty: 'intermediate' },
+  { id: 'soc-drug-decriminalization', topic: 'Decriminalize the possession of all drugs', category: 'society', difficulty: 'advanced' },
+  { id: 'soc-surveillance', topic: 'Allow police to use live facial recognition in public spaces', category: 'society', difficulty: 'advanced' },
+
+  // Health
+  { id: 'hea-sugar-tax', topic: 'Tax sugary drinks', category: 'health', difficulty: 'beginner' },
+  { id: 'hea-energy-drinks', topic: 'Ban the sale of energy drinks to children', category: 'health', difficulty: 'beginner' },
+  { id: 'hea-vaccines', topic: 'Childhood vaccinations should be mandatory', category: 'health', difficulty: 'intermediate' },
+  { id: 'hea-smoking-generation', topic: 'Prohibit tobacco sales to anyone born after 2010', category: 'health', difficulty: 'intermediate' },
+  { id: 'hea-assisted-dying', topic: 'Legalize assisted dying for terminally ill adults', category: 'health', difficulty: 'advanced' },
+  { id: 'hea-health-data', topic: 'Patient health records should be shared with researchers by default', category: 'health', difficulty: 'advanced' },
+];
+
+/**
+ * Filters for browsing the library; empty fields match everything
+ */
+export interface TopicFilter {
+  query?: string;
+  category?: TopicCategory;
+  difficulty?: TopicDifficulty;
+}
+
+/**
+ * Comparable form of a topic: lowercase words without punctuation
+ */
+export function normalizeTopic(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Topics and motions of every session in the history, normalized for matching
+ */
+export function getDebatedTopics(history: SessionHistoryItem[]): Set<string> {
+  const debated = new Set<string>();
+  for (const session of history) {
+    debated.add(normalizeTopic(session.topic));
+    if (session.motion) debated.add(normalizeTopic(session.motion));
+  }
+  return debated;
+}
+
+/**
+ * Whether a topic was debated before, either as typed or as the motion it frames to
+ */
+export function isTopicDebated(topic: string, debated: Set<string>): boolean {
+  return debated.has(normalizeTopic(topic)) || debated.has(normalizeTopic(frameMotion(topic)));
+}
+
+export function filterTopics(topics: LibraryTopic[], filter: TopicFilter): LibraryTopic[] {
+  const words = normalizeTopic(filter.query ?? '').split(' ').filter(Boolean);
+  return topics.filter(
+    (topic) =>
+      (!filter.category || topic.category === filter.category) &&
+      (!filter.difficulty || topic.difficulty === filter.difficulty) &&
+      words.every((word) => normalizeTopic(topic.topic).includes(word))
+  );
+}
+
+/**
+ * Random topic for "Surprise me", preferring ones the user hasn't debated yet
+ * @returns null when there are no topics to pick from
+ */
+export function pickSurpriseTopic(topics: LibraryTopic[], debated: Set<string>): LibraryTopic | null {
+  const fresh = topics.filter((topic) => !isTopicDebated(topic.topic, debated));
+  const pool = fresh.length > 0 ? fresh : topics;
+  return pool[Math.floor(Math.random() * pool.length)] ?? null;
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { TranscriptAssembler, appendTranscriptText, joinFragments } from './transcriptAssembler';
+
+describe('appendTranscriptText', () => {
+  it('adds a space between words that would run together', () => {
+    expect(appendTranscriptText('Hello', 'world')).toBe('Hello world');
+  });
+
+  it('keeps the spacing a delta already carries', () => {
+    expect(appendTranscriptText('Hello', ' world')).toBe('Hello world');
+    expect(appendTranscriptText('Hello ', 'world')).toBe('Hello world');
+  });
+
+  it('attaches punctuation to the previous word', () => {
+    expect(appendTranscriptText('Hello', ',')).toBe('Hello,');
+    expect(appendTranscriptText('Really', '?')).toBe('Really?');
+  });
+});
+
+describe('joinFragments', () => {
+  it('merges fragments and normalizes whitespace', () => {
+    const fragments = [
+      { text: ' I  think', timestamp: 1 },
+      { text: 'so', timestamp: 2 },
+      { text: '. ', timestamp: 3 },
+    ];
+    expect(joinFragments(fragments)).toBe('I think so.');
+  });
+});
+
+describe('TranscriptAssembler', () => {
+  it('merges consecutive deltas from the same speaker into one open turn', () => {
+    const assembler = new TranscriptAssembler();
+    assembler.addFragment('user', 'Taxes', 100);
+    assembler.addFragment('user', ' should', 200);
+    assembler.addFragment('user', ' rise', 300);
+
+    const turns = assembler.getTurns();
+    expect(turns).toHaveLength(1);
+    expect(turns[0]).toMatchObject({ role: 'user', status: 'open' });
+    expect(turns[0]!.fragments.map(f => f.timestamp)).toEqual([100, 200, 300]);
+
+    const [message] = assembler.getMessages();
+    expect(message).toMatchObject({ role: 'user', text: 'Taxes should rise', timestamp: 100, isFinal: false });
+  });
+
+  it('closes a turn when the other speaker starts', () => {
+    const assembler = new TranscriptAssembler();
+    assembler.addFragment('user', 'Taxes should rise', 100);
+    assembler.addFragment('model', 'I disagree', 200);
+
+    const turns = assembler.getTurns();
+    expect(turns.map(t => [t.role, t.status])).toEqual([
+      ['user', 'complete'],
+      ['model', 'open'],
+    ]);
+  });
+
+  it('ignores empty deltas', () => {
+    const assembler = new TranscriptAssembler();
+    assembler.addFragment('user', '', 100);
+    expect(assembler.getTurns()).toEqual([]);
+  });
+
+  describe('finalisation', () => {
+    it('closes the open turn on turnComplete', () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('model', 'That is my point', 100);
+      assembler.completeTurn('model');
+
+      expect(assembler.getLastTurn()?.status).toBe('complete');
+      expect(assembler.getMessages()[0]?.isFinal).toBe(true);
+    });
+
+    it('starts a new turn when the same speaker talks after turnComplete', () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('model', 'First answer', 100);
+      assembler.completeTurn('model');
+      assembler.addFragment('model', 'Second answer', 200);
+
+      expect(assembler.getMessages().map(m => m.text)).toEqual(['First answer', 'Second answer']);
+    });
+
+    it("leaves another speaker's open turn alone", () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('user', 'Still talking', 100);
+      assembler.completeTurn('model');
+
+      expect(assembler.getLastTurn()?.status).toBe('open');
+    });
+
+    it('closes any open turn when no speaker is given', () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('user', 'Last words', 100);
+      assembler.completeTurn();
+
+      expect(assembler.getLastTurn()?.status).toBe('complete');
+    });
+  });
+
+  describe('interruption', () => {
+    it("marks the model's open turn as interrupted and keeps the partial text", () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('model', 'The evidence clearly', 100);
+      assembler.interruptTurn();
+
+      const [message] = assembler.getMessages();
+      expect(message).toMatchObject({ text: 'The evidence clearly', isFinal: true, interrupted: true });
+    });
+
+    it('marks the model turn when the user transcription arrives before the interruption', () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('model', 'The evidence clearly', 100);
+      assembler.addFragment('user', 'Wait', 200);
+      assembler.interruptTurn();
+
+      const turns = assembler.getTurns();
+      expect(turns.map(t => [t.role, t.status])).toEqual([
+        ['model', 'interrupted'],
+        ['user', 'open'],
+      ]);
+    });
+
+    it('does not mark a model turn the server confirmed complete', () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('model', 'Done', 100);
+      assembler.completeTurn('model');
+      assembler.addFragment('user', 'Next point', 200);
+      assembler.interruptTurn();
+
+      expect(assembler.getTurns()[0]?.status).toBe('complete');
+      expect(assembler.getMessages()[0]).not.toHaveProperty('interrupted');
+    });
+
+    it('does nothing before the model has spoken', () => {
+      const assembler = new TranscriptAssembler();
+      assembler.addFragment('user', 'Opening statement', 100);
+      assembler.interruptTurn();
+
+      expect(assembler.getLastTurn()?.status).toBe('open');
+    });
+  });
+
+  it('leaves whitespace-only turns out of the messages', () => {
+    const assembler = new TranscriptAssembler();
+    assembler.addFragment('user', '  ', 100);
+    assembler.addFragment('model', 'Hello', 200);
+
+    expect(assembler.getMessages().map(m => m.role)).toEqual(['model']);
+  });
+
+  it('returns copies that do not change the assembled turns', () => {
+    const assembler = new TranscriptAssembler();
+    assembler.addFragment('user', 'Hello', 100);
+    assembler.getTurns()[0]!.fragments.push({ text: 'extra', timestamp: 200 });
+
+    expect(assembler.getMessages()[0]?.text).toBe('Hello');
+  });
+
+  it('starts over after reset', () => {
+    const assembler = new TranscriptAssembler();
+    assembler.addFragment('model', 'Done', 100);
+    assembler.completeTurn('model');
+    assembler.reset();
+    assembler.addFragment('model', 'Fresh start', 200);
+    assembler.interruptTurn();
+
+    expect(assembler.getTurns().map(t => t.status)).toEqual(['interrupted']);
+  });
+
+  it('produces one turn per run of deltas from the same speaker', () => {
+    const deltas = fc.array(
+      fc.record({ role: fc.constantFrom('user' as const, 'model' as const), text: fc.stringMatching(/^[a-z]{1,8}$/) }),
+      { maxLength: 40 }
+    );
+
+    fc.assert(
+      fc.property(deltas, (sequence) => {
+        const assembler = new TranscriptAssembler();
+        sequence.forEach(({ role, text }, i) => assembler.addFragment(role, text, i));
+
+        const runs = sequence.filter((delta, i) => i === 0 || delta.role !== sequence[i - 1]!.role).length;
+        const turns = assembler.getTurns();
+        expect(turns).toHaveLength(runs);
+        expect(turns.flatMap(t => t.fragments.map(f => f.text))).toEqual(sequence.map(d => d.text));
+        // Only the latest turn can still be open
+        expect(turns.slice(0, -1).every(t => t.status === 'complete')).toBe(true);
+      })
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Transcript assembly for live sessions.
+ * The Live API streams transcription as small deltas for each speaker. The assembler merges
+ * them into turns: a turn stays open while its speaker keeps talking and closes when the
+ * server reports turnComplete, when the other speaker starts, or when the model is
+ * interrupted - in which case it is kept as a partial turn. Every delta keeps the time it
+ * arrived, so replay can place the words more precisely than one timestamp per turn.
+ */
+
+import type { ChatMessage, TranscriptFragment } from '../types';
+
+export type TranscriptRole = 'user' | 'model';
+
+export type TurnStatus = 'open' | 'complete' | 'interrupted';
+
+export interface AssembledTurn {
+  id: string;
+  role: TranscriptRole;
+  status: TurnStatus;
+  fragments: TranscriptFragment[];
+}
+
+// Punctuation that attaches to the previous word rather than starting a new one
+const ATTACHED_PUNCTUATION = /^[.,!?;:%)\]}'’…-]/;
+
+/**
+ * Appends a transcription delta to the text so far. Deltas usually carry their own leading
+ * space, but some don't, so a space is added between two words that would otherwise run together
+ */
+export function appendTranscriptText(text: string, delta: string): string {
+  if (!text || !delta) return text + delta;
+  const needsSpace = !/\s$/.test(text) && !/^\s/.test(delta) && !ATTACHED_PUNCTUATION.test(delta);
+  return needsSpace ? `${text} ${delta}` : text + delta;
+}
+
+/**
+ * The text of a list of fragments, merged and with whitespace normalized
+ */
+export function joinFragments(fragments: TranscriptFragment[]): string {
+  return fragments
+    .reduce((text, fragment) => appendTranscriptText(text, fragment.text), '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class TranscriptAssembler {
+  private turns: AssembledTurn[] = [];
+  private nextId: number = 0;
+  // Turns the server confirmed with turnComplete, as opposed to ones closed by a speaker change
+  private confirmed = new Set<string>();
+
+  /**
+   * Adds a transcription delta. Continues the speaker's open turn, or closes the other
+   * speaker's turn and opens a new one
+   * @param timestamp - Epoch ms the delta arrived
+   */
+  addFragment(role: TranscriptRole, text: string, timestamp: number = Date.now()) {
+    if (!text) return;
+
+    const open = this.getOpenTurn();
+    if (open && open.role === role) {
+      open.fragments.push({ text, timestamp });
+      return;
+    }
+
+    if (open) open.status = 'complete';
+    this.turns.push({
+      id: `turn-${timestamp}-${this.nextId++}`,
+      role,
+      status: 'open',
+      fragments: [{ text, timestamp }],
+    });
+  }
+
+  /**
+   * Closes the open turn when the server reports turnComplete
+   * @param role - Only close the open turn if it belongs to this speaker
+   */
+  completeTurn(role?: TranscriptRole) {
+    const open = this.getOpenTurn();
+    if (!open || (role && open.role !== role)) return;
+    open.status = 'complete';
+    this.confirmed.add(open.id);
+  }
+
+  /**
+   * Marks the model's latest turn as cut off by the user. The user's transcription can arrive
+   * before the interruption signal, so a model turn already closed by that speaker change is
+   * marked too, as long as the server hadn't confirmed it complete
+   */
+  interruptTurn() {
+    const lastModelTurn = [...this.turns].reverse().find(turn => turn.role === 'model');
+    if (!lastModelTurn || this.confirmed.has(lastModelTurn.id)) return;
+    lastModelTurn.status = 'interrupted';
+  }
+
+  getTurns(): AssembledTurn[] {
+    return this.turns.map(turn => ({ ...turn, fragments: [...turn.fragments] }));
+  }
+
+  /**
+   * The latest turn, which is what live captions show
+   */
+  getLastTurn(): AssembledTurn | undefined {
+    const last = this.turns[this.turns.length - 1];
+    return last && { ...last, fragments: [...last.fragments] };
+  }
+
+  /**
+   * One message per turn with the merged text, for analysis and storage
+   */
+  getMessages(): ChatMessage[] {
+    return this.turns
+      .map(turn => ({
+        id: turn.id,
+        role: turn.role,
+        text: joinFragments(turn.fragments),
+        timestamp: turn.fragments[0]?.timestamp ?? 0,
+        isFinal: turn.status !== 'open',
+        ...(turn.status === 'interrupted' && { interrupted: true }),
+        fragments: [...turn.fragments],
+      }))
+      .filter(message => message.text.length > 0);
+  }
+
+  reset() {
+    this.turns = [];
+    this.confirmed.clear();
+  }
+
+  private getOpenTurn(): AssembledTurn | undefined {
+    const last = this.turns[this.turns.length - 1];
+    return last?.status === 'open' ? last : undefined;
+  }
+}
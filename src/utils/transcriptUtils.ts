@@ -0,0 +1,58 @@
+/**
+ * Transcript utilities for grouping chat messages into speaker turns
+ */
+
+import type { ChatMessage, TranscriptTurn } from '../types';
+
+/**
+ * Groups messages into turns. A new turn starts whenever the speaker changes;
+ * system messages and empty fragments are dropped.
+ * @param messages - Messages in the order they were received
+ * @returns Array of turns in chronological order
+ */
+export function buildTranscriptTurns(messages: ChatMessage[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system' || !message.text.trim()) {
+      continue;
+    }
+
+    const lastTurn = turns[turns.length - 1];
+    if (lastTurn && lastTurn.role === message.role) {
+      lastTurn.messages.push(message);
+      lastTurn.endTime = message.timestamp;
+    } else {
+      turns.push({
+        index: turns.length,
+        role: message.role,
+        startTime: message.timestamp,
+        endTime: message.timestamp,
+        messages: [message],
+      });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Joins the text of all messages in a turn
+ */
+export function getTurnText(turn: TranscriptTurn): string {
+  return turn.messages.map(m => m.text.trim()).join(' ');
+}
+
+/**
+ * Fewest words the user has to say for a session to be worth analyzing
+ */
+export const MIN_ANALYSIS_WORDS = 5;
+
+/**
+ * Counts the words the user said across the transcript
+ */
+export function countUserWords(messages: ChatMessage[]): number {
+  return messages
+    .filter(m => m.role === 'user')
+    .reduce((count, m) => count + m.text.trim().split(/\s+/).filter(w => w.length > 0).length, 0);
+}
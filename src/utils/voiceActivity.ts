@@ -0,0 +1,90 @@
+/**
+ * Voice activity detection for microphone capture.
+ * Works on the per-chunk RMS level computed by the capture worklet, so it adds no
+ * per-sample work on the main thread. Speech is detected against an adaptive noise
+ * floor, which keeps steady background noise (fans, hum) from opening a turn.
+ */
+
+export interface VoiceActivityOptions {
+  chunkMs: number; // length of each level sample
+  minThreshold?: number; // RMS below this is never speech
+  noiseRatio?: number; // speech must be this many times louder than the noise floor
+  attackMs?: number; // loud audio needed before a turn starts
+  hangoverMs?: number; // quiet audio needed before a turn ends
+  noiseWindowMs?: number; // how quickly the noise floor follows the background level
+}
+
+const DEFAULT_MIN_THRESHOLD = 0.015;
+const DEFAULT_NOISE_RATIO = 3;
+const DEFAULT_ATTACK_MS = 60;
+const DEFAULT_HANGOVER_MS = 700;
+const DEFAULT_NOISE_WINDOW_MS = 2000;
+
+// Audio kept from just before a detected onset, so the first syllable isn't clipped
+export const VAD_PRE_ROLL_MS = 300;
+
+export class VoiceActivityDetector {
+  private chunkMs: number;
+  private minThreshold: number;
+  private noiseRatio: number;
+  private attackMs: number;
+  private hangoverMs: number;
+  private noiseAlpha: number;
+
+  private noiseFloor: number = 0;
+  private loudMs: number = 0;
+  private quietMs: number = 0;
+  private active: boolean = false;
+
+  constructor(options: VoiceActivityOptions) {
+    this.chunkMs = options.chunkMs;
+    this.minThreshold = options.minThreshold ?? DEFAULT_MIN_THRESHOLD;
+    this.noiseRatio = options.noiseRatio ?? DEFAULT_NOISE_RATIO;
+    this.attackMs = options.attackMs ?? DEFAULT_ATTACK_MS;
+    this.hangoverMs = options.hangoverMs ?? DEFAULT_HANGOVER_MS;
+    this.noiseAlpha = Math.min(1, this.chunkMs / (options.noiseWindowMs ?? DEFAULT_NOISE_WINDOW_MS));
+  }
+
+  /**
+   * Feeds the RMS level (0-1) of the next chunk
+   * @returns Whether the user is speaking after this chunk
+   */
+  update(level: number): boolean {
+    const threshold = Math.max(this.minThreshold, this.noiseFloor * this.noiseRatio);
+    const loud = level >= threshold;
+
+    if (loud) {
+      this.loudMs += this.chunkMs;
+      this.quietMs = 0;
+    } else {
+      this.quietMs += this.chunkMs;
+      this.loudMs = 0;
+    }
+
+    // Only learn the background while nobody is talking
+    if (!this.active && !loud) {
+      this.noiseFloor += (level - this.noiseFloor) * this.noiseAlpha;
+    }
+
+    if (!this.active && this.loudMs >= this.attackMs) {
+      this.active = true;
+    } else if (this.active && this.quietMs >= this.hangoverMs) {
+      this.active = false;
+    }
+
+    return this.active;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Forgets the current turn but keeps the learned noise floor
+   */
+  reset() {
+    this.active = false;
+    this.loudMs = 0;
+    this.quietMs = 0;
+  }
+}